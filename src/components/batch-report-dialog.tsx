@@ -0,0 +1,101 @@
+"use client";
+
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { formatBytes, type CodeSavings } from '@/lib/code-stats';
+
+export type BatchReport = {
+  operation: string;
+  rows: BatchReportRow[];
+};
+
+export type BatchReportRow =
+  | { path: string; savings: CodeSavings }
+  | { path: string; error: string };
+
+type BatchReportDialogProps = {
+  report: BatchReport | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onDownloadZip: () => void;
+};
+
+export function BatchReportDialog({ report, open, onOpenChange, onDownloadZip }: BatchReportDialogProps) {
+  const rows = report?.rows ?? [];
+  const total = rows.reduce(
+    (sum, row) => ('savings' in row
+      ? { linesSaved: sum.linesSaved + row.savings.linesSaved, sizeSaved: sum.sizeSaved + row.savings.sizeSaved }
+      : sum),
+    { linesSaved: 0, sizeSaved: 0 },
+  );
+  const failed = rows.filter(row => 'error' in row).length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{report ? `${report.operation} report` : 'Report'}</DialogTitle>
+          <DialogDescription>
+            {rows.length} {rows.length === 1 ? 'file' : 'files'} processed.
+            {failed > 0 && ` ${failed} failed and ${failed === 1 ? 'was' : 'were'} left unchanged.`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[420px] overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>File</TableHead>
+                <TableHead className="text-right">Lines saved</TableHead>
+                <TableHead className="text-right">Size saved</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.path}>
+                  <TableCell className="font-code">{row.path}</TableCell>
+                  {'savings' in row ? (
+                    <>
+                      <TableCell className="text-right">{row.savings.linesSaved}</TableCell>
+                      <TableCell className="text-right">{formatBytes(row.savings.sizeSaved)}</TableCell>
+                    </>
+                  ) : (
+                    <TableCell colSpan={2} className="text-right text-destructive">{row.error}</TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell>Total</TableCell>
+                <TableCell className="text-right">{total.linesSaved}</TableCell>
+                <TableCell className="text-right">{formatBytes(total.sizeSaved)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </div>
+        <DialogFooter>
+          <Button variant="secondary" onClick={onDownloadZip}>
+            <Download className="mr-2 h-4 w-4" /> Download workspace as ZIP
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,368 @@
+"use client";
+
+import { forwardRef, useCallback, useEffect, useImperativeHandle, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useAnalysis } from '@/hooks/use-transform-worker';
+import type { LuaDialect } from '@/lib/lua-dialect';
+import { computeLineStarts, type Token, type TokenType } from '@/lib/lua-lexer';
+import { analyzeForHighlighting, findPairAt, rebaseHighlighting, type FoldRegion, type HighlightInfo } from '@/lib/lua-highlight';
+
+export type CodeEditorHandle = {
+  /** Unfolds what hides the range, selects it and scrolls it into view. */
+  revealRange: (range: [number, number]) => void;
+};
+
+type CodeEditorProps = {
+  id?: string;
+  value: string;
+  onChange?: (value: string) => void;
+  readOnly?: boolean;
+  wrapLines: boolean;
+  dialect: LuaDialect;
+  placeholder?: string;
+  className?: string;
+};
+
+const TOKEN_CLASSES: Partial<Record<TokenType, string>> = {
+  keyword: 'text-primary',
+  string: 'text-accent',
+  interpolation: 'text-accent',
+  number: 'text-amber-600 dark:text-amber-400',
+  comment: 'italic text-muted-foreground',
+  shebang: 'text-muted-foreground',
+};
+
+type Segment = { text: string; className?: string };
+
+// Code up to this length is analyzed as it is typed. Longer code is analyzed in the transform
+// worker, and until that finishes the analysis of the code before the edit is moved along with it.
+const SYNC_HIGHLIGHT_LENGTH = 50_000;
+
+const NO_HIGHLIGHTING: HighlightInfo = { tokens: [], errorOffset: null, pairs: [], folds: [] };
+
+// A textarea only ever holds `\n` line breaks, so the editor works on the code in that form.
+const normalizeLineBreaks = (code: string) => code.replace(/\r\n?/g, '\n');
+
+// The line break the code uses, taken from its first line, so that edits keep it.
+const detectLineBreak = (code: string) => /\r\n|\r|\n/.exec(code)?.[0] ?? '\n';
+
+const restoreLineBreaks = (code: string, lineBreak: string) =>
+  lineBreak === '\n' ? code : code.replace(/\n/g, lineBreak);
+
+// The offset in normalized code of an offset into the original code.
+const normalizeOffset = (code: string, offset: number) =>
+  offset - (code.slice(0, offset).match(/\r(?=\n)/g)?.length ?? 0);
+
+// Splits the code into highlighted segments per line. Tokens can span lines (long strings and
+// comments), and code after a lexical error is left plain.
+function highlightLines(code: string, lineStarts: number[], tokens: Token[], matched: ReadonlySet<Token>): Segment[][] {
+  const lines: Segment[][] = lineStarts.map(() => []);
+  let line = 0;
+  const push = (start: number, end: number, className?: string) => {
+    while (start < end) {
+      while (line + 1 < lineStarts.length && lineStarts[line + 1] <= start) line++;
+      const lineEnd = line + 1 < lineStarts.length ? lineStarts[line + 1] - 1 : code.length;
+      const pieceEnd = Math.min(end, lineEnd);
+      if (pieceEnd > start) lines[line].push({ text: code.slice(start, pieceEnd), className });
+      // Step over the line break.
+      start = pieceEnd === lineEnd ? pieceEnd + 1 : pieceEnd;
+    }
+  };
+  let position = 0;
+  for (const token of tokens) {
+    push(position, token.range[0]);
+    const bracket = matched.has(token) ? 'rounded-sm bg-primary/20 ring-1 ring-primary/40' : undefined;
+    push(token.range[0], token.range[1], cn(TOKEN_CLASSES[token.type], bracket));
+    position = token.range[1];
+  }
+  push(position, code.length);
+  return lines;
+}
+
+export const CodeEditor = forwardRef<CodeEditorHandle, CodeEditorProps>(function CodeEditor(
+  { id, value, onChange, readOnly, wrapLines, dialect, placeholder, className },
+  ref,
+) {
+  const code = useMemo(() => normalizeLineBreaks(value), [value]);
+  const lineBreak = useMemo(() => detectLineBreak(value), [value]);
+  const highlightAnalysis = useMemo(
+    () => (code.length > SYNC_HIGHLIGHT_LENGTH ? { kind: 'highlight' as const, code, dialect } : null),
+    [code, dialect],
+  );
+  const { latest: highlighted } = useAnalysis(highlightAnalysis);
+  const info = useMemo(() => {
+    if (!highlightAnalysis) return analyzeForHighlighting(code, dialect);
+    if (!highlighted) return NO_HIGHLIGHTING;
+    if (highlighted.analysis === highlightAnalysis) return highlighted.result;
+    return rebaseHighlighting(highlighted.result, highlighted.analysis.code, code);
+  }, [code, dialect, highlightAnalysis, highlighted]);
+  const lineStarts = useMemo(() => computeLineStarts(code), [code]);
+  const [folded, setFolded] = useState<ReadonlySet<number>>(new Set());
+  const [caret, setCaret] = useState<number | null>(null);
+  const [revealRequest, setRevealRequest] = useState(0);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const pendingCaret = useRef<number | null>(null);
+  const pendingReveal = useRef<[number, number] | null>(null);
+
+  // Folds are remembered by the offset of their opening keyword; forget those that no longer open a block.
+  useEffect(() => {
+    setFolded(previous => {
+      const next = new Set([...previous].filter(offset => info.folds.some(fold => fold.offset === offset)));
+      return next.size === previous.size ? previous : next;
+    });
+  }, [info]);
+
+  // The text hidden by folds: from the end of the first line of a block to the end of the line
+  // before its last. A fold inside another folded block adds nothing.
+  const hidden = useMemo(() => {
+    const lineEnd = (line: number) => (line < lineStarts.length ? lineStarts[line] - 1 : code.length);
+    const ranges: Array<[number, number]> = [];
+    const active = info.folds.filter(fold => folded.has(fold.offset));
+    for (const fold of active) {
+      const range: [number, number] = [lineEnd(fold.startLine), lineEnd(fold.endLine - 1)];
+      const last = ranges[ranges.length - 1];
+      if (last && range[0] < last[1]) continue;
+      ranges.push(range);
+    }
+    return ranges;
+  }, [code, info, folded, lineStarts]);
+
+  const displayText = useMemo(() => {
+    let text = '';
+    let position = 0;
+    for (const [start, end] of hidden) {
+      text += code.slice(position, start);
+      position = end;
+    }
+    return text + code.slice(position);
+  }, [code, hidden]);
+
+  // Maps an offset in the textarea to the code. At the edge of a fold, `after` decides which side it lands on.
+  const toCode = (offset: number, after = false) => {
+    let result = offset;
+    let removed = 0;
+    for (const [start, end] of hidden) {
+      const displayStart = start - removed;
+      if (offset < displayStart || (offset === displayStart && !after)) break;
+      result += end - start;
+      removed += end - start;
+    }
+    return result;
+  };
+
+  const toDisplay = useCallback((offset: number) => {
+    let result = offset;
+    for (const [start, end] of hidden) {
+      if (offset >= end) {
+        result -= end - start;
+      } else {
+        if (offset > start) result -= offset - start;
+        break;
+      }
+    }
+    return result;
+  }, [hidden]);
+
+  const applyEdit = (start: number, end: number, text: string) => {
+    const delta = text.length - (end - start);
+    setFolded(previous => new Set(
+      [...previous]
+        .filter(offset => offset < start || offset >= end)
+        .map(offset => (offset >= end ? offset + delta : offset)),
+    ));
+    pendingCaret.current = start + text.length;
+    onChange?.(restoreLineBreaks(code.slice(0, start) + text + code.slice(end), lineBreak));
+  };
+
+  // Works out what changed from the common prefix and suffix of the old and new text.
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const next = e.target.value;
+    const previous = displayText;
+    let prefix = 0;
+    while (prefix < previous.length && prefix < next.length && previous[prefix] === next[prefix]) prefix++;
+    let suffix = 0;
+    while (
+      suffix < previous.length - prefix && suffix < next.length - prefix
+      && previous[previous.length - 1 - suffix] === next[next.length - 1 - suffix]
+    ) suffix++;
+    const deleted = previous.length - suffix > prefix;
+    const start = toCode(prefix, deleted);
+    const end = deleted ? toCode(previous.length - suffix) : start;
+    applyEdit(start, end, next.slice(prefix, next.length - suffix));
+  };
+
+  // Copying across a fold copies the hidden code too.
+  const selectedCode = (textarea: HTMLTextAreaElement): [number, number] =>
+    [toCode(textarea.selectionStart), toCode(textarea.selectionEnd)];
+
+  const handleCopy = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const [start, end] = selectedCode(e.currentTarget);
+    e.clipboardData.setData('text/plain', restoreLineBreaks(code.slice(start, end), lineBreak));
+    e.preventDefault();
+  };
+
+  const handleCut = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    if (readOnly) return;
+    handleCopy(e);
+    const [start, end] = selectedCode(e.currentTarget);
+    applyEdit(start, end, '');
+  };
+
+  const handleSelect = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    const { selectionStart, selectionEnd } = e.currentTarget;
+    setCaret(selectionStart === selectionEnd ? toCode(selectionStart) : null);
+  };
+
+  // The caret is placed once the edit has been rendered; other renders find nothing pending.
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (pendingCaret.current === null || !textarea) return;
+    const offset = toDisplay(pendingCaret.current);
+    pendingCaret.current = null;
+    if (textarea.selectionStart !== offset || textarea.selectionEnd !== offset) {
+      textarea.setSelectionRange(offset, offset);
+    }
+  }, [displayText, toDisplay]);
+
+  useImperativeHandle(ref, () => ({
+    revealRange: (range: [number, number]) => {
+      const start = normalizeOffset(value, range[0]);
+      const end = normalizeOffset(value, range[1]);
+      const [startLine, endLine] = [start, end].map(offset => computeLineStarts(code.slice(0, offset)).length);
+      pendingReveal.current = [start, end];
+      // Unfold every block that hides part of the range.
+      setFolded(previous => new Set([...previous].filter(offset => {
+        const fold = info.folds.find(f => f.offset === offset);
+        return !fold || endLine <= fold.startLine || startLine >= fold.endLine;
+      })));
+      setRevealRequest(request => request + 1);
+    },
+  }));
+
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    const range = pendingReveal.current;
+    if (!range || !textarea) return;
+    pendingReveal.current = null;
+    textarea.focus();
+    textarea.setSelectionRange(toDisplay(range[0]), toDisplay(range[1]));
+    const line = computeLineStarts(code.slice(0, range[0])).length;
+    const row = scrollRef.current?.querySelector<HTMLElement>(`[data-line="${line}"]`);
+    if (row && scrollRef.current) {
+      scrollRef.current.scrollTop = Math.max(0, row.offsetTop - 2 * row.offsetHeight);
+    }
+  }, [revealRequest, code, toDisplay]);
+
+  const matched = useMemo(() => {
+    const pair = caret === null ? null : findPairAt(info.pairs, caret);
+    return new Set<Token>(pair ?? []);
+  }, [info, caret]);
+
+  const lines = useMemo(() => highlightLines(code, lineStarts, info.tokens, matched), [code, lineStarts, info, matched]);
+
+  const foldsByLine = useMemo(() => {
+    const byLine = new Map<number, FoldRegion>();
+    for (const fold of info.folds) {
+      if (!byLine.has(fold.startLine)) byLine.set(fold.startLine, fold);
+    }
+    return byLine;
+  }, [info]);
+
+  const hiddenLines = useMemo(() => {
+    const result = new Set<number>();
+    for (const fold of info.folds) {
+      if (!folded.has(fold.offset) || result.has(fold.startLine)) continue;
+      for (let line = fold.startLine + 1; line < fold.endLine; line++) result.add(line);
+    }
+    return result;
+  }, [info, folded]);
+
+  const toggleFold = (fold: FoldRegion) => {
+    setFolded(previous => {
+      const next = new Set(previous);
+      if (next.has(fold.offset)) next.delete(fold.offset);
+      else next.add(fold.offset);
+      return next;
+    });
+  };
+
+  const caretLine = caret === null ? null : computeLineStarts(code.slice(0, caret)).length;
+  const gutterWidth = `calc(${String(lines.length).length}ch + 2rem)`;
+
+  return (
+    <div
+      ref={scrollRef}
+      className={cn(
+        'overflow-auto rounded-md border border-input bg-background font-code text-sm leading-6 ring-offset-background focus-within:ring-2 focus-within:ring-ring focus-within:ring-offset-2',
+        className,
+      )}
+    >
+      <div className={cn('relative py-2', wrapLines ? 'min-h-full' : 'min-h-full w-max min-w-full')}>
+        {lines.map((segments, index) => {
+          const line = index + 1;
+          if (hiddenLines.has(line)) return null;
+          const fold = foldsByLine.get(line);
+          const isFolded = fold !== undefined && folded.has(fold.offset);
+          return (
+            <div
+              key={line}
+              data-line={line}
+              className={cn('flex', line === caretLine && 'bg-muted/60')}
+            >
+              <div
+                className="sticky left-0 z-10 flex shrink-0 select-none items-start justify-end gap-1 bg-background pr-1 text-right text-muted-foreground"
+                style={{ width: gutterWidth }}
+              >
+                <span className={cn(line === caretLine && 'text-foreground')}>{line}</span>
+                <span className="flex h-6 w-4 items-center">
+                  {fold && (
+                    <button
+                      type="button"
+                      className="rounded-sm hover:bg-muted"
+                      onClick={() => toggleFold(fold)}
+                      aria-label={isFolded ? `Unfold line ${line}` : `Fold line ${line}`}
+                    >
+                      {isFolded ? <ChevronRight className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+                    </button>
+                  )}
+                </span>
+              </div>
+              <div className={cn('min-w-0 flex-1 px-2', wrapLines ? 'whitespace-pre-wrap break-words' : 'whitespace-pre')}>
+                {segments.map((segment, i) => (
+                  <span key={i} className={segment.className}>{segment.text}</span>
+                ))}
+                {segments.length === 0 && '\u200b'}
+                {isFolded && (
+                  <span className="ml-2 rounded bg-muted px-1 text-xs text-muted-foreground">
+                    {fold.endLine - fold.startLine - 1} lines
+                  </span>
+                )}
+              </div>
+            </div>
+          );
+        })}
+        <textarea
+          id={id}
+          ref={textareaRef}
+          value={displayText}
+          onChange={handleChange}
+          onCopy={handleCopy}
+          onCut={handleCut}
+          onSelect={handleSelect}
+          onBlur={() => setCaret(null)}
+          readOnly={readOnly}
+          placeholder={placeholder}
+          spellCheck={false}
+          wrap={wrapLines ? 'soft' : 'off'}
+          className={cn(
+            'absolute bottom-0 right-0 top-0 resize-none overflow-hidden bg-transparent px-2 py-2 text-transparent caret-foreground outline-none placeholder:text-muted-foreground selection:bg-primary/30',
+            wrapLines ? 'whitespace-pre-wrap break-words' : 'whitespace-pre',
+          )}
+          style={{ left: gutterWidth }}
+        />
+      </div>
+    </div>
+  );
+});
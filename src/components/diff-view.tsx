@@ -0,0 +1,140 @@
+"use client";
+
+import { Fragment, useMemo, useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+import { cn } from '@/lib/utils';
+import { diffText, type DiffHunk, type DiffLine } from '@/lib/text-diff';
+
+type DiffViewProps = {
+  oldText: string;
+  newText: string;
+  wrapLines: boolean;
+  /** Takes the new version of a hunk into the old text. */
+  onAcceptHunk: (hunk: DiffHunk) => void;
+  /** Drops a hunk from the new text, restoring the old version. */
+  onRejectHunk: (hunk: DiffHunk) => void;
+  className?: string;
+};
+
+const LINE_CLASSES: Record<DiffLine['kind'], string> = {
+  context: '',
+  added: 'bg-emerald-500/10',
+  removed: 'bg-red-500/10',
+};
+
+const SEGMENT_CLASSES: Record<DiffLine['kind'], string> = {
+  context: '',
+  added: 'bg-emerald-500/30',
+  removed: 'bg-red-500/30',
+};
+
+const MARKERS: Record<DiffLine['kind'], string> = { context: ' ', added: '+', removed: '-' };
+
+// The rows of the side-by-side view: each removed line next to the added line that replaces it.
+function pairLines(lines: DiffLine[]): Array<[DiffLine | null, DiffLine | null]> {
+  const rows: Array<[DiffLine | null, DiffLine | null]> = [];
+  for (let i = 0; i < lines.length;) {
+    if (lines[i].kind === 'context') {
+      rows.push([lines[i], lines[i]]);
+      i++;
+      continue;
+    }
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (i < lines.length && lines[i].kind === 'removed') removed.push(lines[i++]);
+    while (i < lines.length && lines[i].kind === 'added') added.push(lines[i++]);
+    for (let j = 0; j < Math.max(removed.length, added.length); j++) {
+      rows.push([removed[j] ?? null, added[j] ?? null]);
+    }
+  }
+  return rows;
+}
+
+function LineText({ line, wrapLines }: { line: DiffLine; wrapLines: boolean }) {
+  return (
+    <span className={wrapLines ? 'whitespace-pre-wrap break-all' : 'whitespace-pre'}>
+      {line.segments.map((segment, i) => (
+        <span key={i} className={cn(segment.changed && SEGMENT_CLASSES[line.kind])}>{segment.text}</span>
+      ))}
+      {line.noNewline && <span className="ml-2 select-none text-xs text-muted-foreground">No newline at end of file</span>}
+    </span>
+  );
+}
+
+export function DiffView({ oldText, newText, wrapLines, onAcceptHunk, onRejectHunk, className }: DiffViewProps) {
+  const [mode, setMode] = useState<'split' | 'unified'>('split');
+  const diff = useMemo(() => diffText(oldText, newText), [oldText, newText]);
+
+  const gutter = 'w-10 shrink-0 select-none pr-2 text-right text-muted-foreground';
+
+  return (
+    <div className={cn('flex flex-col rounded-md border border-input bg-background', className)}>
+      <div className="flex items-center justify-between gap-2 border-b p-2 text-sm">
+        <div className="flex gap-3 text-muted-foreground">
+          <span className="font-medium text-emerald-600 dark:text-emerald-400">+{diff.added}</span>
+          <span className="font-medium text-red-600 dark:text-red-400">-{diff.removed}</span>
+          <span>{diff.hunks.length} {diff.hunks.length === 1 ? 'change' : 'changes'}</span>
+        </div>
+        <div className="flex gap-1">
+          <Button variant={mode === 'split' ? 'secondary' : 'ghost'} size="sm" className="h-7" onClick={() => setMode('split')}>
+            Side by side
+          </Button>
+          <Button variant={mode === 'unified' ? 'secondary' : 'ghost'} size="sm" className="h-7" onClick={() => setMode('unified')}>
+            Unified
+          </Button>
+        </div>
+      </div>
+      <ScrollArea className="min-h-0 flex-1">
+        <div className="font-code text-sm leading-6">
+          {diff.hunks.length === 0 && (
+            <p className="p-4 text-center text-muted-foreground">
+              {newText ? 'No differences.' : 'Processed code will be compared with the input here.'}
+            </p>
+          )}
+          {diff.hunks.map((hunk) => (
+            <Fragment key={`${hunk.oldRange[0]}:${hunk.newRange[0]}`}>
+              <div className="sticky top-0 z-10 flex items-center justify-between gap-2 border-y bg-muted px-2 text-xs text-muted-foreground">
+                <span>
+                  @@ -{hunk.oldRange[0] + 1},{hunk.oldRange[1] - hunk.oldRange[0]} +{hunk.newRange[0] + 1},{hunk.newRange[1] - hunk.newRange[0]} @@
+                </span>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => onAcceptHunk(hunk)}>
+                    <Check className="mr-1 h-3 w-3" /> Accept
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => onRejectHunk(hunk)}>
+                    <X className="mr-1 h-3 w-3" /> Reject
+                  </Button>
+                </div>
+              </div>
+              {mode === 'unified'
+                ? hunk.lines.map((line, i) => (
+                  <div key={i} className={cn('flex', LINE_CLASSES[line.kind])}>
+                    <span className={gutter}>{line.oldLine ?? ''}</span>
+                    <span className={gutter}>{line.newLine ?? ''}</span>
+                    <span className="w-4 shrink-0 select-none text-muted-foreground">{MARKERS[line.kind]}</span>
+                    <LineText line={line} wrapLines={wrapLines} />
+                  </div>
+                ))
+                : pairLines(hunk.lines).map(([left, right], i) => (
+                  <div key={i} className="grid grid-cols-2">
+                    {[left, right].map((line, side) => (
+                      <div
+                        key={side}
+                        className={cn('flex min-w-0 overflow-hidden', line ? LINE_CLASSES[line.kind] : 'bg-muted/40', side === 1 && 'border-l')}
+                      >
+                        <span className={gutter}>{line ? (side === 0 ? line.oldLine : line.newLine) : ''}</span>
+                        {line && <LineText line={line} wrapLines={wrapLines} />}
+                      </div>
+                    ))}
+                  </div>
+                ))}
+            </Fragment>
+          ))}
+        </div>
+        <ScrollBar orientation="horizontal" />
+      </ScrollArea>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { FileCode2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { WorkspaceFile } from '@/lib/workspace';
+
+type FileTabsProps = {
+  files: WorkspaceFile[];
+  activeFileId: string;
+  onOpenFile: (id: string) => void;
+  onCloseFile: (id: string) => void;
+  className?: string;
+};
+
+// One tab per open buffer, in the order they were opened. The last buffer cannot be closed.
+export function FileTabs({ files, activeFileId, onOpenFile, onCloseFile, className }: FileTabsProps) {
+  return (
+    <div role="tablist" aria-label="Open files" className={cn('flex overflow-x-auto border-b', className)}>
+      {files.map(file => {
+        const active = file.id === activeFileId;
+        const name = file.path.slice(file.path.lastIndexOf('/') + 1);
+        return (
+          <div
+            key={file.id}
+            className={cn(
+              'group flex shrink-0 items-center border-b-2 text-sm',
+              active ? 'border-primary text-foreground' : 'border-transparent text-muted-foreground hover:text-foreground',
+            )}
+          >
+            <button
+              type="button"
+              role="tab"
+              aria-selected={active}
+              title={file.path}
+              onClick={() => onOpenFile(file.id)}
+              onAuxClick={(e) => {
+                if (e.button === 1 && files.length > 1) onCloseFile(file.id);
+              }}
+              className="flex items-center gap-1.5 py-2 pl-3 pr-1"
+            >
+              <FileCode2 className="h-3.5 w-3.5" />
+              <span className="max-w-[12rem] truncate">{name}</span>
+            </button>
+            {files.length > 1 && (
+              <button
+                type="button"
+                onClick={() => onCloseFile(file.id)}
+                aria-label={`Close ${file.path}`}
+                className={cn(
+                  'mr-1 rounded-sm p-0.5 hover:bg-muted',
+                  !active && 'opacity-0 focus-visible:opacity-100 group-hover:opacity-100',
+                )}
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
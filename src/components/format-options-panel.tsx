@@ -0,0 +1,328 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { Separator } from '@/components/ui/separator';
+import { Download, Save, Settings2, Trash2, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { FormatOptions } from '@/lib/lua-formatter';
+import {
+  DEFAULT_PROFILE_NAME,
+  FormatProfile,
+  loadActiveProfileName,
+  loadProfiles,
+  parseProfile,
+  saveActiveProfileName,
+  saveProfiles,
+  serializeProfile,
+} from '@/lib/format-profiles';
+
+type FormatOptionsPanelProps = {
+  options: FormatOptions;
+  onOptionsChange: (options: FormatOptions) => void;
+};
+
+export function FormatOptionsPanel({ options, onOptionsChange }: FormatOptionsPanelProps) {
+  const [profiles, setProfiles] = useState<FormatProfile[]>([]);
+  const [activeProfile, setActiveProfile] = useState<string>(DEFAULT_PROFILE_NAME);
+  const [newProfileName, setNewProfileName] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  // The loaded profile is applied once; a new callback from the parent must not apply it again.
+  const onOptionsChangeRef = useRef(onOptionsChange);
+  useEffect(() => {
+    onOptionsChangeRef.current = onOptionsChange;
+  }, [onOptionsChange]);
+
+  // localStorage is only available in the browser, so profiles are loaded after mounting.
+  useEffect(() => {
+    const stored = loadProfiles();
+    const activeName = loadActiveProfileName();
+    const active = stored.find(profile => profile.name === activeName) ?? stored[0];
+    setProfiles(stored);
+    setActiveProfile(active.name);
+    onOptionsChangeRef.current(active.options);
+  }, []);
+
+  const updateOption = <K extends keyof FormatOptions>(key: K, value: FormatOptions[K]) => {
+    onOptionsChange({ ...options, [key]: value });
+  };
+
+  const updateNumberOption = (key: 'indentWidth' | 'columnWidth' | 'maxBlankLines', value: string, min: number) => {
+    const parsed = parseInt(value, 10);
+    if (!Number.isNaN(parsed)) {
+      updateOption(key, Math.max(min, parsed));
+    }
+  };
+
+  const storeProfiles = (next: FormatProfile[], active: string) => {
+    setProfiles(next);
+    setActiveProfile(active);
+    saveProfiles(next);
+    saveActiveProfileName(active);
+  };
+
+  const handleSelectProfile = (name: string) => {
+    const profile = profiles.find(p => p.name === name);
+    if (!profile) return;
+    setActiveProfile(name);
+    saveActiveProfileName(name);
+    onOptionsChange(profile.options);
+  };
+
+  const handleSaveProfile = () => {
+    const next = profiles.map(p => (p.name === activeProfile ? { ...p, options } : p));
+    storeProfiles(next, activeProfile);
+    toast({ title: 'Profile saved!', description: `"${activeProfile}" has been updated.` });
+  };
+
+  const handleSaveAsProfile = () => {
+    const name = newProfileName.trim();
+    if (!name) return;
+    if (name === DEFAULT_PROFILE_NAME) {
+      toast({ title: 'Name not available', description: 'The default profile cannot be overwritten.', variant: 'destructive' });
+      return;
+    }
+    const next = [...profiles.filter(p => p.name !== name), { name, options }];
+    storeProfiles(next, name);
+    setNewProfileName('');
+    toast({ title: 'Profile saved!', description: `"${name}" has been created.` });
+  };
+
+  const handleDeleteProfile = () => {
+    const next = profiles.filter(p => p.name !== activeProfile);
+    storeProfiles(next, DEFAULT_PROFILE_NAME);
+    onOptionsChange(next[0].options);
+    toast({ title: 'Profile deleted.' });
+  };
+
+  const handleExportProfile = () => {
+    const blob = new Blob([serializeProfile({ name: activeProfile, options })], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${activeProfile.replace(/[^\w.-]+/g, '_')}.luaforge.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportProfile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) {
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const profile = parseProfile(e.target?.result as string);
+        const name = profile.name === DEFAULT_PROFILE_NAME ? `${profile.name} (imported)` : profile.name;
+        const next = [...profiles.filter(p => p.name !== name), { name, options: profile.options }];
+        storeProfiles(next, name);
+        onOptionsChange(profile.options);
+        toast({ title: 'Profile imported!', description: `"${name}" is now active.` });
+      } catch (err) {
+        const error = err instanceof Error ? err.message : 'An unknown error occurred';
+        toast({ title: 'Could not import profile', description: error, variant: 'destructive' });
+      }
+    };
+    reader.readAsText(file);
+    event.target.value = '';
+  };
+
+  const isDefaultProfile = activeProfile === DEFAULT_PROFILE_NAME;
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Settings2 className="mr-2 h-4 w-4" /> Formatter Options
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Formatter Options</SheetTitle>
+          <SheetDescription>
+            Control how Beautify lays out your code. Save settings as named profiles to reuse them.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="format-profile">Profile</Label>
+            <div className="flex gap-2">
+              <Select value={activeProfile} onValueChange={handleSelectProfile}>
+                <SelectTrigger id="format-profile">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {profiles.map(profile => (
+                    <SelectItem key={profile.name} value={profile.name}>{profile.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="icon" onClick={handleSaveProfile} disabled={isDefaultProfile}>
+                <Save className="h-4 w-4" />
+                <span className="sr-only">Save profile</span>
+              </Button>
+              <Button variant="outline" size="icon" className="text-destructive" onClick={handleDeleteProfile} disabled={isDefaultProfile}>
+                <Trash2 className="h-4 w-4" />
+                <span className="sr-only">Delete profile</span>
+              </Button>
+            </div>
+            <div className="flex gap-2">
+              <Input
+                placeholder="New profile name"
+                value={newProfileName}
+                onChange={(e) => setNewProfileName(e.target.value)}
+              />
+              <Button variant="secondary" onClick={handleSaveAsProfile} disabled={!newProfileName.trim()}>
+                Save as
+              </Button>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => importInputRef.current?.click()}>
+                <Upload className="mr-2 h-4 w-4" /> Import
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleExportProfile}>
+                <Download className="mr-2 h-4 w-4" /> Export
+              </Button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={handleImportProfile}
+              />
+            </div>
+          </div>
+
+          <Separator />
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="indent-type">Indent with</Label>
+              <Select value={options.indentType} onValueChange={(value) => updateOption('indentType', value as FormatOptions['indentType'])}>
+                <SelectTrigger id="indent-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="spaces">Spaces</SelectItem>
+                  <SelectItem value="tabs">Tabs</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="indent-width">Indent width</Label>
+              <Input
+                id="indent-width"
+                type="number"
+                min={1}
+                max={16}
+                value={options.indentWidth}
+                onChange={(e) => updateNumberOption('indentWidth', e.target.value, 1)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="column-width">Max line width</Label>
+              <Input
+                id="column-width"
+                type="number"
+                min={20}
+                value={options.columnWidth}
+                onChange={(e) => updateNumberOption('columnWidth', e.target.value, 20)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="max-blank-lines">Max blank lines</Label>
+              <Input
+                id="max-blank-lines"
+                type="number"
+                min={0}
+                max={10}
+                value={options.maxBlankLines}
+                onChange={(e) => updateNumberOption('maxBlankLines', e.target.value, 0)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="quote-style">Quotes</Label>
+            <Select value={options.quoteStyle} onValueChange={(value) => updateOption('quoteStyle', value as FormatOptions['quoteStyle'])}>
+              <SelectTrigger id="quote-style">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="autoPreferDouble">Prefer double quotes</SelectItem>
+                <SelectItem value="autoPreferSingle">Prefer single quotes</SelectItem>
+                <SelectItem value="forceDouble">Always double quotes</SelectItem>
+                <SelectItem value="forceSingle">Always single quotes</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="call-parentheses">Call parentheses</Label>
+            <Select value={options.callParentheses} onValueChange={(value) => updateOption('callParentheses', value as FormatOptions['callParentheses'])}>
+              <SelectTrigger id="call-parentheses">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="always">Always, e.g. require("x")</SelectItem>
+                <SelectItem value="noSingleString">Omit for a single string</SelectItem>
+                <SelectItem value="noSingleTable">Omit for a single table</SelectItem>
+                <SelectItem value="none">Omit for a single string or table</SelectItem>
+                <SelectItem value="input">Keep as written</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="trailing-separator">Trailing table separator</Label>
+            <Select value={options.trailingSeparator} onValueChange={(value) => updateOption('trailingSeparator', value as FormatOptions['trailingSeparator'])}>
+              <SelectTrigger id="trailing-separator">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="multiline">Only when the table spans several lines</SelectItem>
+                <SelectItem value="always">Always</SelectItem>
+                <SelectItem value="never">Never</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="line-endings">Line endings</Label>
+            <Select value={options.lineEndings} onValueChange={(value) => updateOption('lineEndings', value as FormatOptions['lineEndings'])}>
+              <SelectTrigger id="line-endings">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="unix">Unix (LF)</SelectItem>
+                <SelectItem value="windows">Windows (CRLF)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import { History } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Progress } from '@/components/ui/progress';
+import { formatBytes } from '@/lib/code-stats';
+import { cn } from '@/lib/utils';
+import { HISTORY_SIZE_LIMIT, historySize, WorkspaceFile } from '@/lib/workspace';
+
+type HistoryTimelineProps = {
+  file: WorkspaceFile;
+  onSelect: (index: number) => void;
+};
+
+// Strings take two bytes per character in memory.
+const BYTES_PER_CHARACTER = 2;
+
+export function HistoryTimeline({ file, onSelect }: HistoryTimelineProps) {
+  const { history, historyIndex } = file;
+  const size = historySize(file);
+  const entries = history.map((entry, index) => ({ entry, index })).reverse();
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="icon" className="h-8 w-8">
+          <History className="h-4 w-4" />
+          <span className="sr-only">History</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="border-b px-4 py-3">
+          <p className="text-sm font-medium">History of {file.path}</p>
+          <p className="text-xs text-muted-foreground">Select a version to go back or forward to it.</p>
+        </div>
+        <ol className="max-h-80 overflow-y-auto py-2">
+          {entries.map(({ entry, index }) => (
+            <li key={index}>
+              <button
+                type="button"
+                onClick={() => onSelect(index)}
+                aria-current={index === historyIndex ? 'step' : undefined}
+                className={cn(
+                  'relative flex w-full items-start gap-3 px-4 py-1.5 text-left text-sm hover:bg-accent',
+                  index > historyIndex && 'text-muted-foreground',
+                )}
+              >
+                <span className="relative flex w-3 shrink-0 justify-center self-stretch">
+                  <span className={cn('absolute inset-y-0 w-px bg-border', index === 0 && 'bottom-1/2', index === history.length - 1 && 'top-1/2')} />
+                  <span
+                    className={cn(
+                      'relative mt-1.5 h-2.5 w-2.5 rounded-full border-2 border-primary bg-background',
+                      index === historyIndex && 'bg-primary',
+                      index > historyIndex && 'border-muted-foreground',
+                    )}
+                  />
+                </span>
+                <span className="min-w-0 flex-1">
+                  <span className={cn('block truncate', index === historyIndex && 'font-medium')}>{entry.label}</span>
+                  <span className="block text-xs text-muted-foreground">
+                    {entry.time > 0 && new Date(entry.time).toLocaleTimeString()}
+                    {entry.patch && (
+                      <span className="ml-2 font-code">+{entry.patch.inserted.length} −{entry.patch.removed.length}</span>
+                    )}
+                  </span>
+                </span>
+              </button>
+            </li>
+          ))}
+        </ol>
+        <div className="space-y-1.5 border-t px-4 py-3 text-xs text-muted-foreground">
+          <Progress value={(size / HISTORY_SIZE_LIMIT) * 100} className="h-1.5" />
+          <p>
+            {history.length} {history.length === 1 ? 'version' : 'versions'}, {formatBytes(size * BYTES_PER_CHARACTER)} of{' '}
+            {formatBytes(HISTORY_SIZE_LIMIT * BYTES_PER_CHARACTER)}. The oldest versions are dropped when the history is full.
+          </p>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
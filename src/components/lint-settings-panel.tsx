@@ -0,0 +1,133 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { Settings2 } from 'lucide-react';
+import {
+  GLOBAL_PRESETS,
+  LINT_SEVERITIES,
+  type LintConfig,
+  type LintRule,
+  type LintRuleSetting,
+} from '@/lib/lua-linter';
+
+// Syntax errors cannot be configured: nothing else can be checked without a syntax tree.
+const RULE_LABELS: Partial<Record<LintRule, string>> = {
+  'unused-variable': 'Unused local variables',
+  'unused-parameter': 'Unused parameters',
+  'global-assignment': 'Assignments to globals',
+  'undefined-global': 'Undefined globals',
+  'shadowed-local': 'Shadowed locals',
+  'unreachable-code': 'Unreachable code',
+  'duplicate-key': 'Duplicate table keys',
+  'invalid-goto': 'Invalid goto',
+};
+
+const parseGlobals = (text: string) => text.split(/[\s,]+/).filter(Boolean);
+
+type LintSettingsPanelProps = {
+  config: LintConfig;
+  onConfigChange: (config: LintConfig) => void;
+};
+
+export function LintSettingsPanel({ config, onConfigChange }: LintSettingsPanelProps) {
+  // The text is kept as typed, so that a trailing comma doesn't vanish mid-edit.
+  const [globalsText, setGlobalsText] = useState(config.globals.join(', '));
+  // The globals last typed here; only changes made elsewhere, such as presets, replace the text.
+  const typedGlobalsRef = useRef(config.globals.join());
+
+  useEffect(() => {
+    const globals = config.globals.join();
+    if (globals !== typedGlobalsRef.current) {
+      typedGlobalsRef.current = globals;
+      setGlobalsText(config.globals.join(', '));
+    }
+  }, [config.globals]);
+
+  const updateRule = (rule: LintRule, setting: LintRuleSetting) => {
+    const rules = { ...config.rules };
+    if (setting === LINT_SEVERITIES[rule]) {
+      delete rules[rule];
+    } else {
+      rules[rule] = setting;
+    }
+    onConfigChange({ ...config, rules });
+  };
+
+  const updateGlobals = (text: string) => {
+    const globals = parseGlobals(text);
+    typedGlobalsRef.current = globals.join();
+    setGlobalsText(text);
+    onConfigChange({ ...config, globals });
+  };
+
+  const addPreset = (names: string[]) => {
+    onConfigChange({ ...config, globals: [...new Set([...config.globals, ...names])] });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Settings2 className="mr-2 h-4 w-4" /> Rules
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 space-y-4">
+        <div className="space-y-2">
+          {(Object.keys(RULE_LABELS) as LintRule[]).map(rule => (
+            <div key={rule} className="flex items-center justify-between gap-2">
+              <Label htmlFor={`lint-${rule}`} className="font-normal">{RULE_LABELS[rule]}</Label>
+              <Select
+                value={config.rules[rule] ?? LINT_SEVERITIES[rule]}
+                onValueChange={(value) => updateRule(rule, value as LintRuleSetting)}
+              >
+                <SelectTrigger id={`lint-${rule}`} className="h-8 w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="error">Error</SelectItem>
+                  <SelectItem value="warning">Warning</SelectItem>
+                  <SelectItem value="info">Info</SelectItem>
+                  <SelectItem value="off">Off</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+
+        <Separator />
+
+        <div className="space-y-2">
+          <Label htmlFor="lint-globals">Known globals</Label>
+          <Input
+            id="lint-globals"
+            placeholder="e.g. love, vim"
+            value={globalsText}
+            onChange={(e) => updateGlobals(e.target.value)}
+          />
+          <div className="flex flex-wrap gap-2">
+            {Object.entries(GLOBAL_PRESETS).map(([name, globals]) => (
+              <Button key={name} variant="secondary" size="sm" onClick={() => addPreset(globals)}>
+                + {name}
+              </Button>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Silence a line with <code>-- luaforge-disable-next-line rule-name</code>.
+          </p>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,11 +1,12 @@
 "use client";
 
-import { useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { ArrowLeftRight, Copy, Download, Trash2, Sparkles, Trash, Upload, ClipboardPaste, Search, Undo, Redo, Wrench } from 'lucide-react';
+import { ArrowLeftRight, Copy, Download, Trash2, Sparkles, Trash, Upload, ClipboardPaste, Search, Undo, Redo, Wrench, Wand2, Minimize2, Locate, BadgeCheck, AlertTriangle, FileCode2, CornerUpLeft, Workflow, FolderOpen, X, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { TransformCancelledError, useAnalysis, useHasComments, useTransformWorker } from '@/hooks/use-transform-worker';
+import { ToastAction } from '@/components/ui/toast';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -24,12 +25,48 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import * as lua from '@/lib/lua-utils';
+import { DEFAULT_FORMAT_OPTIONS, FormatOptions } from '@/lib/lua-formatter';
+import { applyAllLintFixes, applyLintFix, LintDiagnostic, LintSeverity } from '@/lib/lua-linter';
+import { applyAllMigrationFixes, applyMigrationFix, findMigrationIssues, MigrationIssue } from '@/lib/lua-migration';
+import { acceptHunk, DiffHunk, rejectHunk } from '@/lib/text-diff';
+import { createSourceMap, MappedCode, resolvePosition, SourceMapV3 } from '@/lib/source-map';
+import { getStyleConfigKind, parseEditorConfig, parseStyluaConfig } from '@/lib/style-config';
+import { DIALECTS, LuaDialect } from '@/lib/lua-dialect';
+import { DEFAULT_PREFERENCES, loadPreferences, savePreferences, UserPreferences } from '@/lib/user-preferences';
+import { loadPipelines, Pipeline, savePipelines } from '@/lib/pipelines';
+import { CodeSavings, formatBytes, measureSavings } from '@/lib/code-stats';
+import { archiveName, collectDroppedFiles, createZip, isLuaPath, isRootStyleConfig, isZipPath, PickedFile, pickFiles, readZip, SourceFile } from '@/lib/workspace-archive';
+import { createWorkspaceFile, currentCode, goToVersion, normalizePath, recordChange, uniquePath, WorkspaceFile } from '@/lib/workspace';
+import { loadSession, saveSession, Session } from '@/lib/session-store';
+import { Transform, TransformResult } from '@/lib/transforms';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
-import { cn } from "@/lib/utils";
 import { ScrollArea } from './ui/scroll-area';
+import { Badge } from './ui/badge';
+import { Progress } from './ui/progress';
+import { SidebarProvider } from './ui/sidebar';
+import { FormatOptionsPanel } from './format-options-panel';
+import { LintSettingsPanel } from './lint-settings-panel';
+import { CodeEditor, type CodeEditorHandle } from './code-editor';
+import { DiffView } from './diff-view';
+import { PipelineDialog } from './pipeline-dialog';
+import { WorkspaceSidebar } from './workspace-sidebar';
+import { FileTabs } from './file-tabs';
+import { BatchReport, BatchReportDialog, BatchReportRow } from './batch-report-dialog';
+import { SessionsMenu } from './sessions-menu';
+import { HistoryTimeline } from './history-timeline';
 
 const initialCode = `-- Example Lua Code
 -- A simple function to greet a user
@@ -50,83 +87,234 @@ end
 greet("World")
 `;
 
+const OUTPUT_FILE_NAME = 'formatted_code.lua';
+const SOURCE_FILE_NAME = 'input.lua';
+
 type FoundComment = {
   line: number;
   content: string;
 };
 
+const EXAMPLE_FILE_NAME = 'example.lua';
+
+const SESSION_SAVE_DELAY = 500;
+
+const SEVERITY_BADGES: Record<LintSeverity, 'destructive' | 'secondary' | 'outline'> = {
+  error: 'destructive',
+  warning: 'secondary',
+  info: 'outline',
+};
+
 export function LuaEditor() {
-  const [inputCode, setInputCode] = useState<string>(initialCode);
+  const [files, setFiles] = useState<WorkspaceFile[]>(() => [createWorkspaceFile(EXAMPLE_FILE_NAME, initialCode, 'Example code', 'example')]);
+  const [activeFileId, setActiveFileId] = useState('example');
+  const [selectedFileIds, setSelectedFileIds] = useState<string[]>([]);
+  // Which files the transforms run on. Only a single file's result goes to the output panel.
+  const [scope, setScope] = useState<'file' | 'selection' | 'workspace'>('file');
+  const activeFile = files.find(file => file.id === activeFileId) ?? files[0];
+  const inputCode = currentCode(activeFile);
+  const { history, historyIndex } = activeFile;
+  const [inputTab, setInputTab] = useState('editor');
+  const [outputView, setOutputView] = useState('code');
+  const inputRef = useRef<CodeEditorHandle>(null);
+  const folderInputRef = useRef<HTMLInputElement | null>(null);
   const [outputCode, setOutputCode] = useState<string>('');
   const [oneLinerDialogOpen, setOneLinerDialogOpen] = useState<boolean>(false);
   const [advancedDialogOpen, setAdvancedDialogOpen] = useState<boolean>(false);
+  const [pipelineDialogOpen, setPipelineDialogOpen] = useState<boolean>(false);
+  const [pipelines, setPipelines] = useState<Pipeline[]>([]);
+  const [batchReport, setBatchReport] = useState<BatchReport | null>(null);
+  const [reportDialogOpen, setReportDialogOpen] = useState<boolean>(false);
   const [deleteOptions, setDeleteOptions] = useState({
     singleLine: true,
     multiLine: true,
     customSingle: '',
     customMultiStart: '',
     customMultiEnd: '',
+    keepDirectives: false,
   });
   
-  const [history, setHistory] = useState<string[]>([initialCode]);
-  const [historyIndex, setHistoryIndex] = useState(0);
+  // The name of the operation that produced the output, recorded when the output becomes the input.
+  const [outputOperation, setOutputOperation] = useState<string | null>(null);
 
-  const [stats, setStats] = useState<{ linesSaved: number; sizeSaved: number } | null>(null);
+  const [stats, setStats] = useState<CodeSavings | null>(null);
   const [wrapLines, setWrapLines] = useState<boolean>(true);
+  const [formatOptions, setFormatOptions] = useState<FormatOptions>(DEFAULT_FORMAT_OPTIONS);
+  // The source map belongs to the output it was generated with; other operations make it stale.
+  const [sourceMap, setSourceMap] = useState<{ output: string; map: SourceMapV3 } | null>(null);
+  const [resolveQuery, setResolveQuery] = useState('');
+  const [resolvedPosition, setResolvedPosition] = useState<string | null>(null);
+  const [allowRenamedLocals, setAllowRenamedLocals] = useState<boolean>(true);
+  const [preferences, setPreferences] = useState<UserPreferences>(DEFAULT_PREFERENCES);
+  const { dialect } = preferences;
   const { toast } = useToast();
+  // The session is saved only once the stored one has been restored, so the example never overwrites it.
+  const [sessionLoaded, setSessionLoaded] = useState(false);
+  const transformWorker = useTransformWorker();
+  const { cancel: cancelTransform } = transformWorker;
+  const hasComments = useHasComments(inputCode, dialect);
   
   const [foundComments, setFoundComments] = useState<FoundComment[]>([]);
   const [commentSearch, setCommentSearch] = useState('');
+  // Fixes are offsets into the code they were found in, so issues for older code are not shown.
+  const [migration, setMigration] = useState<{ code: string; dialect: LuaDialect; issues: MigrationIssue[] } | null>(null);
+  const migrationIssues = migration?.code === inputCode && migration.dialect === dialect ? migration.issues : null;
+
+  // Every change to the input is recorded in the active file's history under the name of what made it.
+  const updateInputCode = (newCode: string, label = 'Edit') => {
+    setFiles(prev => prev.map(file => (file.id === activeFile.id ? recordChange(file, newCode, label) : file)));
+  };
+
+  const goToHistoryEntry = (index: number) => {
+    setFiles(prev => prev.map(file => (file.id === activeFile.id ? goToVersion(file, index) : file)));
+  };
 
-  const updateInputCode = (newCode: string, fromHistory = false) => {
-    setInputCode(newCode);
-    if (!fromHistory) {
-      const newHistory = history.slice(0, historyIndex + 1);
-      newHistory.push(newCode);
-      setHistory(newHistory);
-      setHistoryIndex(newHistory.length - 1);
+  // The output and the tools' findings belong to the file they were made from.
+  const openFile = (id: string) => {
+    if (id === activeFile.id) return;
+    setActiveFileId(id);
+    setOutputCode('');
+    setOutputOperation(null);
+    setStats(null);
+    setFoundComments([]);
+  };
+
+  const handleNewFile = () => {
+    const file = createWorkspaceFile(uniquePath(files, 'untitled.lua'), '', 'New file');
+    setFiles([...files, file]);
+    openFile(file.id);
+  };
+
+  const handleRenameFile = (id: string, path: string) => {
+    const normalized = normalizePath(path);
+    const file = files.find(f => f.id === id);
+    if (!file || normalized === file.path) return true;
+    if (!normalized || files.some(f => f.path === normalized)) {
+      toast({ title: 'Could not rename file', description: normalized ? `${normalized} is already open.` : 'Enter a file name.', variant: 'destructive' });
+      return false;
     }
+    setFiles(files.map(f => (f.id === id ? { ...f, path: normalized } : f)));
+    return true;
   };
-  
+
+  const handleCloseFile = (id: string) => {
+    if (files.length === 1) return;
+    const index = files.findIndex(file => file.id === id);
+    const remaining = files.filter(file => file.id !== id);
+    setFiles(remaining);
+    setSelectedFileIds(selectedFileIds.filter(selected => selected !== id));
+    if (id === activeFile.id) {
+      openFile(remaining[Math.min(index, remaining.length - 1)].id);
+    }
+  };
+
+  // Opening a file that is already open loads it into that buffer, so reloading is undoable.
+  // The last file opened becomes the active one.
+  const openFiles = (sources: SourceFile[]) => {
+    let updated = files;
+    let lastId = activeFile.id;
+    for (const { path, code } of sources) {
+      const normalized = normalizePath(path) || 'untitled.lua';
+      const label = `Load ${normalized}`;
+      const existing = updated.find(file => file.path === normalized);
+      if (existing) {
+        updated = updated.map(file => (file.id === existing.id ? recordChange(file, code, label) : file));
+        lastId = existing.id;
+      } else {
+        const file = createWorkspaceFile(normalized, code, label);
+        updated = [...updated, file];
+        lastId = file.id;
+      }
+    }
+    setFiles(updated);
+    openFile(lastId);
+  };
+
+  // Transforms on several files write their results into each file's history, since the output
+  // panel shows a single file.
+  const applyToFiles = async (operation: string, transform: Transform) => {
+    const targetIds = scope === 'workspace' ? files.map(file => file.id) : selectedFileIds;
+    const targets = files.filter(file => targetIds.includes(file.id));
+    if (targets.length === 0) {
+      toast({ title: 'No files selected', description: 'Select files in the workspace sidebar first.', variant: 'destructive' });
+      return;
+    }
+    let results: TransformResult[];
+    try {
+      results = await transformWorker.run(operation, { transform, files: targets.map(currentCode), dialect });
+    } catch (e) {
+      if (e instanceof TransformCancelledError) return;
+      const error = e instanceof Error ? e.message : 'An unknown error occurred';
+      toast({ title: 'An error occurred', description: error, variant: 'destructive' });
+      return;
+    }
+    const failures: string[] = [];
+    const rows: BatchReportRow[] = [];
+    const changes = new Map<string, { from: string; to: string }>();
+    targets.forEach((file, index) => {
+      const code = currentCode(file);
+      const result = results[index];
+      if (!result.ok) {
+        rows.push({ path: file.path, error: result.error });
+        failures.push(`${file.path}: ${result.error}`);
+        return;
+      }
+      rows.push({ path: file.path, savings: measureSavings(code, result.code) });
+      if (result.code !== code) changes.set(file.id, { from: code, to: result.code });
+    });
+    const time = Date.now();
+    // A file edited while the transform ran keeps the edit.
+    setFiles(prev => prev.map(file => {
+      const change = changes.get(file.id);
+      return change && currentCode(file) === change.from ? recordChange(file, change.to, operation, time) : file;
+    }));
+    setBatchReport({ operation, rows: rows.sort((a, b) => a.path.localeCompare(b.path)) });
+    const summary = `${changes.size} of ${targets.length} ${targets.length === 1 ? 'file' : 'files'} changed.`;
+    const action = <ToastAction altText="View the per-file report" onClick={() => setReportDialogOpen(true)}>Report</ToastAction>;
+    if (failures.length > 0) {
+      const more = failures.length > 1 ? ` (and ${failures.length - 1} more)` : '';
+      toast({ title: `${operation} failed for ${failures.length} ${failures.length === 1 ? 'file' : 'files'}`, description: `${failures[0]}${more}. ${summary}`, variant: 'destructive', action });
+    } else {
+      toast({ title: `${operation} done!`, description: `${summary} Each change can be undone in its file's history.`, action });
+    }
+  };
+
+  const handleDownloadWorkspace = () => {
+    const sources = files.map(file => ({ path: file.path, code: currentCode(file) }));
+    downloadFile(createZip(sources), archiveName(sources), 'application/zip');
+    toast({ title: 'Download started!', description: `${files.length} ${files.length === 1 ? 'file is' : 'files are'} being downloaded as a ZIP.` });
+  };
+
   const handleUndo = () => {
     if (historyIndex > 0) {
-      const newIndex = historyIndex - 1;
-      setHistoryIndex(newIndex);
-      updateInputCode(history[newIndex], true);
+      goToHistoryEntry(historyIndex - 1);
     }
   };
 
   const handleRedo = () => {
     if (historyIndex < history.length - 1) {
-      const newIndex = historyIndex + 1;
-      setHistoryIndex(newIndex);
-      updateInputCode(history[newIndex], true);
+      goToHistoryEntry(historyIndex + 1);
     }
   };
 
-  const formatBytes = (bytes: number, decimals = 2) => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const dm = decimals < 0 ? 0 : decimals;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
-    const i = Math.floor(Math.log(Math.abs(bytes)) / Math.log(k));
-    return `${parseFloat((bytes / Math.pow(k, i)).toFixed(dm))} ${sizes[i]}`;
-  }
+  // Operations on the whole input only produce output; "Use output as input" chains them.
+  const showResult = (result: string, operation: string) => {
+    setOutputCode(result);
+    setOutputOperation(operation);
+    calculateStats(inputCode, result);
+  };
+
+  const handleUseOutputAsInput = () => {
+    updateInputCode(outputCode, outputOperation ?? 'Use output');
+    toast({ title: 'Output is now the input.', description: outputOperation ? `"${outputOperation}" was recorded in the history.` : undefined });
+  };
 
   const calculateStats = (input: string, output: string) => {
     if (!output && output !== '') {
       setStats(null);
       return;
     }
-    const linesBefore = input.split('\n').length;
-    const linesAfter = output.split('\n').length;
-    const sizeBefore = new Blob([input]).size;
-    const sizeAfter = new Blob([output]).size;
-
-    setStats({
-        linesSaved: linesBefore - linesAfter,
-        sizeSaved: sizeBefore - sizeAfter,
-    });
+    setStats(measureSavings(input, output));
   };
 
   const handleCopy = () => {
@@ -168,85 +356,280 @@ export function LuaEditor() {
     }
   };
   
-  const handleDownload = () => {
-     if (!outputCode) {
-      toast({ title: 'Nothing to download!', description: 'Please process some code first.', variant: 'destructive' });
-      return;
-    }
-    const blob = new Blob([outputCode], { type: 'text/lua' });
+  const restoreSession = ({ files, activeFileId, settings }: Session) => {
+    setFiles(files);
+    setActiveFileId(activeFileId);
+    setSelectedFileIds([]);
+    if (settings.deleteOptions) setDeleteOptions(settings.deleteOptions);
+    if (settings.wrapLines !== undefined) setWrapLines(settings.wrapLines);
+    if (settings.allowRenamedLocals !== undefined) setAllowRenamedLocals(settings.allowRenamedLocals);
+    setOutputCode('');
+    setOutputOperation(null);
+    setStats(null);
+    setFoundComments([]);
+  };
+
+  const restoreSessionRef = useRef(restoreSession);
+  useEffect(() => {
+    restoreSessionRef.current = restoreSession;
+  });
+
+  // localStorage is only available in the browser, so preferences are loaded after mounting.
+  useEffect(() => {
+    setPreferences(loadPreferences());
+    setPipelines(loadPipelines());
+    loadSession().then(session => {
+      if (session) restoreSessionRef.current(session);
+      setSessionLoaded(true);
+    });
+  }, []);
+
+  // A transform of code that has since changed would show a stale result.
+  useEffect(() => {
+    cancelTransform();
+  }, [inputCode, dialect, cancelTransform]);
+
+  const session = useMemo<Session>(() => ({
+    files,
+    activeFileId: activeFile.id,
+    settings: { deleteOptions, wrapLines, allowRenamedLocals },
+  }), [files, activeFile.id, deleteOptions, wrapLines, allowRenamedLocals]);
+
+  // Typing changes the files on every keystroke, so saving waits until the edits pause.
+  useEffect(() => {
+    if (!sessionLoaded) return;
+    const timeout = setTimeout(() => {
+      saveSession(session).catch(() => {});
+    }, SESSION_SAVE_DELAY);
+    return () => clearTimeout(timeout);
+  }, [sessionLoaded, session]);
+
+  const handleRestoreSnapshot = (snapshot: Session, name: string) => {
+    restoreSession(snapshot);
+    toast({ title: 'Snapshot restored', description: `Restored "${name}".` });
+  };
+
+  const updatePreferences = (changes: Partial<UserPreferences>) => {
+    const updated = { ...preferences, ...changes };
+    setPreferences(updated);
+    savePreferences(updated);
+  };
+
+  const equivalenceAnalysis = useMemo(
+    () => (outputCode
+      ? { kind: 'equivalence' as const, input: inputCode, output: outputCode, options: { allowRenamedLocals }, dialect }
+      : null),
+    [inputCode, outputCode, allowRenamedLocals, dialect],
+  );
+  const equivalenceCheck = useAnalysis(equivalenceAnalysis);
+  const equivalence = equivalenceCheck.latest?.analysis === equivalenceAnalysis ? equivalenceCheck.latest.result : null;
+
+  const activeSourceMap = sourceMap && sourceMap.output === outputCode ? sourceMap.map : null;
+
+  const downloadFile = (content: BlobPart, fileName: string, type: string) => {
+    const blob = new Blob([content], { type });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = 'formatted_code.lua';
+    a.download = fileName;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
+  };
+
+  const handleDownload = () => {
+     if (!outputCode) {
+      toast({ title: 'Nothing to download!', description: 'Please process some code first.', variant: 'destructive' });
+      return;
+    }
+    downloadFile(outputCode, OUTPUT_FILE_NAME, 'text/lua');
+    if (activeSourceMap) {
+      downloadFile(JSON.stringify(activeSourceMap), `${OUTPUT_FILE_NAME}.map`, 'application/json');
+      toast({ title: 'Download started!', description: 'Your .lua file and its source map are being downloaded.' });
+      return;
+    }
     toast({ title: 'Download started!', description: 'Your .lua file is being downloaded.' });
   };
 
-  const handleDeleteComments = () => {
+  const setMappedOutput = (input: string, result: MappedCode, operation: string) => {
+    showResult(result.code, operation);
+    setSourceMap({ output: result.code, map: createSourceMap(result.mappings, OUTPUT_FILE_NAME, SOURCE_FILE_NAME, input) });
+    setResolvedPosition(null);
+  };
+
+  const handleResolvePosition = () => {
+    if (!activeSourceMap) return;
+    const match = /^\s*(\d+)(?:\s*:\s*(\d+))?\s*$/.exec(resolveQuery);
+    if (!match) {
+      setResolvedPosition('Enter a position as line or line:column, e.g. 1:120.');
+      return;
+    }
     try {
-      const result = lua.deleteAllComments(inputCode);
-      setOutputCode(result);
-      calculateStats(inputCode, result);
-      toast({ title: 'Comments deleted!', description: 'All comments have been removed.' });
+      const line = parseInt(match[1], 10);
+      const column = match[2] ? Math.max(parseInt(match[2], 10) - 1, 0) : 0;
+      const original = resolvePosition(activeSourceMap, line, column);
+      if (!original) {
+        setResolvedPosition('No input position maps to that location.');
+        return;
+      }
+      const name = original.name ? ` (${original.name})` : '';
+      setResolvedPosition(`Input line ${original.line}, column ${original.column + 1}${name}`);
     } catch (e) {
       const error = e instanceof Error ? e.message : 'An unknown error occurred';
-      toast({ title: 'An error occurred', description: error, variant: 'destructive' });
+      setResolvedPosition(error);
     }
   };
 
-  const handleCustomDelete = () => {
+  // Runs a transform on the active file in the worker. Failures are reported here, so callers only
+  // handle success; a cancelled run, whose input has changed, is dropped silently.
+  const transformInput = async (operation: string, transform: Transform, mapped = false) => {
     try {
-      const result = lua.deleteCustomComments(inputCode, deleteOptions);
-      calculateStats(inputCode, result);
-      updateInputCode(result);
-      setOutputCode(result);
-      const refreshedComments = lua.extractAllComments(result);
-      setFoundComments(refreshedComments);
-      toast({ title: 'Comments deleted!', description: 'Custom comments have been removed.' });
+      const [result] = await transformWorker.run(operation, { transform, files: [inputCode], dialect, mapped });
+      if (result.ok) return result;
+      if (result.blocked) {
+        toast({ title: 'Result blocked', description: result.error, variant: 'destructive' });
+      } else if (result.step) {
+        toast({ title: `Step ${result.step} of ${operation} failed`, description: result.error, variant: 'destructive' });
+      } else {
+        toast({ title: 'An error occurred', description: result.error, variant: 'destructive' });
+      }
     } catch (e) {
+      if (e instanceof TransformCancelledError) return null;
       const error = e instanceof Error ? e.message : 'An unknown error occurred';
       toast({ title: 'An error occurred', description: error, variant: 'destructive' });
     }
+    return null;
   };
 
-  const handleToOneLiner = (commentOption: 'preserve' | 'delete') => {
-    try {
-     const result = lua.toOneLiner(inputCode, commentOption);
-     setOutputCode(result);
-     calculateStats(inputCode, result);
-     toast({ title: 'Code converted to one line!', description: 'Multi-line code has been condensed.' });
-   } catch (e) {
-     const error = e instanceof Error ? e.message : 'An unknown error occurred';
-     toast({ title: 'An error occurred', description: error, variant: 'destructive' });
-   }
+  const handleCancelTransform = () => {
+    cancelTransform();
+    toast({ title: 'Cancelled', description: 'The transform was stopped and nothing was changed.' });
+  };
+
+  const handleBeautify = async () => {
+    const transform: Transform = { kind: 'beautify', options: formatOptions };
+    if (scope !== 'file') {
+      await applyToFiles('Beautify', transform);
+      return;
+    }
+    const result = await transformInput('Beautify', transform);
+    if (!result) return;
+    showResult(result.code, 'Beautify');
+    toast({ title: 'Code beautified!', description: 'Indentation and spacing have been normalized.' });
+  };
+
+  const handleDeleteComments = async () => {
+    const transform: Transform = { kind: 'delete-comments', keepDirectives: deleteOptions.keepDirectives };
+    if (scope !== 'file') {
+      await applyToFiles('Delete comments', transform);
+      return;
+    }
+    const result = await transformInput('Delete comments', transform);
+    if (!result) return;
+    showResult(result.code, 'Delete comments');
+    toast({ title: 'Comments deleted!', description: 'All comments have been removed.' });
+  };
+
+  const handleCustomDelete = async () => {
+    const transform: Transform = { kind: 'custom-delete', options: deleteOptions };
+    if (scope !== 'file') {
+      setAdvancedDialogOpen(false);
+      await applyToFiles('Custom delete', transform);
+      return;
+    }
+    const result = await transformInput('Custom delete', transform);
+    if (!result) return;
+    showResult(result.code, 'Custom delete');
+    setAdvancedDialogOpen(false);
+    toast({ title: 'Comments deleted!', description: 'Custom comments have been removed.' });
+  };
+
+  const handleToOneLiner = async (commentOption: 'preserve' | 'delete') => {
+    const transform: Transform = { kind: 'one-liner', comments: commentOption };
+    if (scope !== 'file') {
+      await applyToFiles('To one liner', transform);
+      return;
+    }
+    const result = await transformInput('To one liner', transform, true);
+    if (!result) return;
+    setMappedOutput(inputCode, { code: result.code, mappings: result.mappings ?? [] }, 'To one liner');
+    toast({ title: 'Code converted to one line!', description: 'Multi-line code has been condensed.' });
+  };
+
+  const handleMinify = async () => {
+    const transform: Transform = { kind: 'minify' };
+    if (scope !== 'file') {
+      await applyToFiles('Minify', transform);
+      return;
+    }
+    const result = await transformInput('Minify', transform, true);
+    if (!result) return;
+    setMappedOutput(inputCode, { code: result.code, mappings: result.mappings ?? [] }, 'Minify');
+    toast({ title: 'Code minified!', description: 'Comments and whitespace were removed and locals renamed.' });
+  };
+
+  const handleToLua51 = async () => {
+    const transform: Transform = { kind: 'luau-to-lua51' };
+    if (scope !== 'file') {
+      await applyToFiles('Luau to Lua 5.1', transform);
+      return;
+    }
+    const result = await transformInput('Luau to Lua 5.1', transform);
+    if (!result) return;
+    showResult(result.code, 'Luau to Lua 5.1');
+    toast({ title: 'Converted to Lua 5.1!', description: 'Luau types were removed and Luau-only syntax was rewritten.' });
   };
 
+  // Until the first analysis finishes, the dialog is shown in case there are comments.
   const handleToOneLinerClick = () => {
-    if (lua.hasComments(inputCode)) {
+    if (scope !== 'file' || hasComments !== false) {
       setOneLinerDialogOpen(true);
     } else {
       handleToOneLiner('preserve');
     }
   };
 
-  const handleReverse = () => {
-    try {
-      const result = lua.reverseCode(inputCode);
-      setOutputCode(result);
-      calculateStats(inputCode, result);
-      toast({ title: 'Code reversed!', description: 'The input code has been reversed.' });
-    } catch (e) {
-      const error = e instanceof Error ? e.message : 'An unknown error occurred';
-      toast({ title: 'An error occurred', description: error, variant: 'destructive' });
+  const handleReverse = async () => {
+    const transform: Transform = { kind: 'reverse' };
+    if (scope !== 'file') {
+      await applyToFiles('Reverse', transform);
+      return;
     }
+    const result = await transformInput('Reverse', transform);
+    if (!result) return;
+    showResult(result.code, 'Reverse');
+    toast({ title: 'Code reversed!', description: 'The input code has been reversed.' });
+  };
+
+  const updatePipelines = (updated: Pipeline[]) => {
+    setPipelines(updated);
+    savePipelines(updated);
+  };
+
+  const showPipelineResult = (pipeline: Pipeline, output: string) => {
+    showResult(output, pipeline.name);
+    toast({ title: `${pipeline.name} finished!`, description: `${pipeline.steps.length} ${pipeline.steps.length === 1 ? 'step' : 'steps'} ran.` });
+  };
+
+  const handleRunPipeline = async (pipeline: Pipeline) => {
+    const transform: Transform = { kind: 'pipeline', steps: pipeline.steps };
+    if (scope !== 'file') {
+      await applyToFiles(pipeline.name, transform);
+      return;
+    }
+    if (pipeline.steps.length === 0) {
+      toast({ title: 'Nothing to run', description: `"${pipeline.name}" has no steps.`, variant: 'destructive' });
+      return;
+    }
+    const result = await transformInput(pipeline.name, transform);
+    if (result) showPipelineResult(pipeline, result.code);
   };
 
   const handleClear = () => {
-    updateInputCode('');
+    updateInputCode('', 'Clear');
     setOutputCode('');
+    setOutputOperation(null);
     setStats(null);
     toast({ title: 'Cleared!', description: 'Input and output fields have been cleared.' });
   }
@@ -263,7 +646,7 @@ export function LuaEditor() {
     try {
         const text = await navigator.clipboard.readText();
         if (text) {
-            updateInputCode(text);
+            updateInputCode(text, 'Paste from clipboard');
             toast({ title: 'Pasted from clipboard!', description: 'Code loaded from your clipboard.' });
         } else {
             toast({ title: 'Clipboard is empty!', variant: 'destructive' });
@@ -274,36 +657,101 @@ export function LuaEditor() {
     }
   };
 
+  const applyStyleConfig = (path: string, text: string) => {
+    try {
+      const kind = getStyleConfigKind(path);
+      const { options, unsupported } = kind === 'stylua' ? parseStyluaConfig(text) : parseEditorConfig(text);
+      setFormatOptions(prev => ({ ...prev, ...options }));
+      toast({
+        title: `${path} applied!`,
+        description: unsupported.length > 0
+          ? `Unsupported settings were ignored: ${unsupported.join(', ')}`
+          : 'All settings are supported by the formatter.',
+      });
+    } catch (e) {
+      const error = e instanceof Error ? e.message : 'An unknown error occurred';
+      toast({ title: `Could not read ${path}`, description: error, variant: 'destructive' });
+    }
+  };
+
+  // Style configs configure the formatter, ZIP archives are unpacked, and every other file is opened
+  // in the workspace. From folders and archives, only Lua files and the style configs at their top are taken.
+  const loadFiles = async (picked: PickedFile[]) => {
+    const sources: SourceFile[] = [];
+    const paths = picked.map(({ path }) => path);
+    let skipped = 0;
+    for (const { path, file } of picked) {
+      const isStyleConfig = isRootStyleConfig(path, paths);
+      if (path.includes('/') && !isLuaPath(path) && !isStyleConfig) {
+        skipped++;
+        continue;
+      }
+      try {
+        if (isZipPath(path)) {
+          for (const source of readZip(new Uint8Array(await file.arrayBuffer()))) {
+            if (isLuaPath(source.path)) sources.push(source);
+            else applyStyleConfig(source.path, source.code);
+          }
+          continue;
+        }
+        const text = await file.text();
+        if (isStyleConfig) {
+          applyStyleConfig(path, text);
+        } else {
+          sources.push({ path, code: text });
+        }
+      } catch (e) {
+        const error = e instanceof Error ? e.message : 'Could not read the contents of the file.';
+        toast({ title: `Error reading ${file.name}`, description: error, variant: 'destructive' });
+      }
+    }
+    if (sources.length > 0) {
+      openFiles(sources);
+      const skippedNote = skipped > 0 ? ` ${skipped} other ${skipped === 1 ? 'file was' : 'files were'} skipped.` : '';
+      toast({
+        title: sources.length === 1 ? 'File loaded!' : 'Files loaded!',
+        description: (sources.length === 1 ? `${sources[0].path} has been opened in the workspace.` : `${sources.length} files have been opened in the workspace.`) + skippedNote,
+      });
+    } else if (skipped > 0) {
+      toast({ title: 'No Lua files found', description: `${skipped} ${skipped === 1 ? 'file was' : 'files were'} skipped.`, variant: 'destructive' });
+    }
+  };
+
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) {
+    const selected = Array.from(event.target.files ?? []);
+    if (selected.length === 0) {
         return;
     }
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-        const text = e.target?.result as string;
-        updateInputCode(text);
-        toast({ title: 'File loaded!', description: `${file.name} has been loaded.` });
-    };
-    reader.onerror = () => {
-         toast({
-            title: 'Error reading file',
-            description: 'Could not read the contents of the file.',
-            variant: 'destructive',
-        });
-    };
-    reader.readAsText(file);
+    loadFiles(pickFiles(selected));
     
     if (event.target) {
       event.target.value = '';
     }
   };
 
+  const handleFileDrop = async (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    try {
+      const dropped = await collectDroppedFiles(event.dataTransfer);
+      if (dropped.length > 0) {
+        await loadFiles(dropped);
+      }
+    } catch (e) {
+      const error = e instanceof Error ? e.message : 'An unknown error occurred';
+      toast({ title: 'Could not read the dropped files', description: error, variant: 'destructive' });
+    }
+  };
+
   const handleFindComments = () => {
-    const comments = lua.extractAllComments(inputCode);
-    setFoundComments(comments);
-    toast({ title: `Found ${comments.length} comments.`});
+    try {
+      const comments = lua.extractAllComments(inputCode, dialect);
+      setFoundComments(comments);
+      toast({ title: `Found ${comments.length} comments.`});
+    } catch (e) {
+      const error = e instanceof Error ? e.message : 'An unknown error occurred';
+      toast({ title: 'An error occurred', description: error, variant: 'destructive' });
+    }
   };
 
   const handleDeleteSingleComment = (comment: FoundComment) => {
@@ -314,15 +762,106 @@ export function LuaEditor() {
         return;
     }
 
-    const newCode = lua.deleteCommentByIndex(inputCode, originalIndex);
-    calculateStats(inputCode, newCode);
-    updateInputCode(newCode);
-    setOutputCode(newCode);
-    
-    const refreshedComments = lua.extractAllComments(newCode);
-    setFoundComments(refreshedComments);
+    try {
+      const newCode = lua.deleteCommentByIndex(inputCode, originalIndex, dialect);
+      updateInputCode(newCode, 'Delete comment');
+      
+      const refreshedComments = lua.extractAllComments(newCode, dialect);
+      setFoundComments(refreshedComments);
+
+      toast({ title: 'Comment deleted.' });
+    } catch (e) {
+      const error = e instanceof Error ? e.message : 'An unknown error occurred';
+      toast({ title: 'An error occurred', description: error, variant: 'destructive' });
+    }
+  };
+
+  const handleFindMigrationIssues = () => {
+    try {
+      const issues = findMigrationIssues(inputCode, dialect);
+      setMigration({ code: inputCode, dialect, issues });
+      toast({ title: `Found ${issues.length} migration issues.` });
+    } catch (e) {
+      const error = e instanceof Error ? e.message : 'An unknown error occurred';
+      toast({ title: 'An error occurred', description: error, variant: 'destructive' });
+    }
+  };
+
+  const applyMigrationResult = (newCode: string, label: string, title: string) => {
+    updateInputCode(newCode, label);
+    setMigration({ code: newCode, dialect, issues: findMigrationIssues(newCode, dialect) });
+    toast({ title });
+  };
+
+  const handleApplyMigrationFix = (issue: MigrationIssue) => {
+    try {
+      applyMigrationResult(applyMigrationFix(inputCode, issue), `Migrate ${issue.kind}`, 'Migration fix applied.');
+    } catch (e) {
+      const error = e instanceof Error ? e.message : 'An unknown error occurred';
+      toast({ title: 'An error occurred', description: error, variant: 'destructive' });
+    }
+  };
+
+  const handleApplyAllMigrationFixes = () => {
+    try {
+      applyMigrationResult(applyAllMigrationFixes(inputCode, dialect), 'Apply all migration fixes', 'All available migration fixes applied.');
+    } catch (e) {
+      const error = e instanceof Error ? e.message : 'An unknown error occurred';
+      toast({ title: 'An error occurred', description: error, variant: 'destructive' });
+    }
+  };
+
+  // Only the fixes below change the input while the dialog is open, and they re-run the linter.
+  // Diagnostics of older code would point at the wrong ranges, so none are shown until it finishes.
+  const lintAnalysis = useMemo(
+    () => (advancedDialogOpen ? { kind: 'lint' as const, code: inputCode, config: preferences.lint, dialect } : null),
+    [advancedDialogOpen, inputCode, dialect, preferences.lint],
+  );
+  const lint = useAnalysis(lintAnalysis);
+  const diagnostics = lint.latest?.analysis === lintAnalysis ? lint.latest.result : [];
+
+  const handleJumpTo = (range: [number, number]) => {
+    setAdvancedDialogOpen(false);
+    setInputTab('editor');
+    // Wait for the dialog to close and the editor tab to mount before moving the selection.
+    setTimeout(() => inputRef.current?.revealRange(range), 0);
+  };
+
+  const applyLintResult = (newCode: string, label: string, title: string) => {
+    updateInputCode(newCode, label);
+    toast({ title });
+  };
+
+  const handleApplyLintFix = (diagnostic: LintDiagnostic) => {
+    try {
+      applyLintResult(applyLintFix(inputCode, diagnostic), `Fix ${diagnostic.rule}`, 'Fix applied.');
+    } catch (e) {
+      const error = e instanceof Error ? e.message : 'An unknown error occurred';
+      toast({ title: 'An error occurred', description: error, variant: 'destructive' });
+    }
+  };
+
+  const handleApplyAllLintFixes = () => {
+    try {
+      applyLintResult(applyAllLintFixes(inputCode, dialect, preferences.lint), 'Fix all diagnostics', 'All available fixes applied.');
+    } catch (e) {
+      const error = e instanceof Error ? e.message : 'An unknown error occurred';
+      toast({ title: 'An error occurred', description: error, variant: 'destructive' });
+    }
+  };
+
+  const handleAcceptHunk = (hunk: DiffHunk) => {
+    const newInput = acceptHunk(inputCode, outputCode, hunk);
+    updateInputCode(newInput, 'Accept change');
+    calculateStats(newInput, outputCode);
+    toast({ title: 'Change accepted into the input.' });
+  };
 
-    toast({ title: 'Comment deleted.' });
+  const handleRejectHunk = (hunk: DiffHunk) => {
+    const newOutput = rejectHunk(inputCode, outputCode, hunk);
+    setOutputCode(newOutput);
+    calculateStats(inputCode, newOutput);
+    toast({ title: 'Change rejected.' });
   };
 
   const filteredComments = foundComments.filter(comment => 
@@ -330,128 +869,336 @@ export function LuaEditor() {
   );
 
   return (
-    <>
-      <Card className="w-full shadow-lg">
-        <CardContent className="p-4 sm:p-6">
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-            <div>
-              <Tabs defaultValue="editor" className="w-full">
-                <TabsList className="grid w-full grid-cols-3 mb-2">
-                  <TabsTrigger value="editor">Editor</TabsTrigger>
-                  <TabsTrigger value="upload">Upload</TabsTrigger>
-                  <TabsTrigger value="clipboard">Clipboard</TabsTrigger>
-                </TabsList>
-                <TabsContent value="editor">
-                  <div className="relative">
-                    <div className="absolute top-2 right-2 z-10 flex gap-2">
-                      <Button variant="outline" size="icon" className="h-8 w-8" onClick={handleUndo} disabled={historyIndex === 0}>
-                        <Undo className="h-4 w-4" />
-                        <span className="sr-only">Undo</span>
-                      </Button>
-                      <Button variant="outline" size="icon" className="h-8 w-8" onClick={handleRedo} disabled={historyIndex >= history.length - 1}>
-                        <Redo className="h-4 w-4" />
-                        <span className="sr-only">Redo</span>
+    <SidebarProvider className="min-h-0 flex-col gap-4 md:flex-row md:items-start">
+      <WorkspaceSidebar
+        files={files}
+        activeFileId={activeFile.id}
+        selectedFileIds={selectedFileIds}
+        onOpenFile={openFile}
+        onSelectionChange={setSelectedFileIds}
+        onNewFile={handleNewFile}
+        onRenameFile={handleRenameFile}
+        onCloseFile={handleCloseFile}
+        onDownloadZip={handleDownloadWorkspace}
+        onShowReport={batchReport ? () => setReportDialogOpen(true) : undefined}
+        className="w-full md:sticky md:top-4 md:h-auto md:max-h-[calc(100svh-2rem)] md:w-[--sidebar-width]"
+      />
+      <div className="min-w-0 flex-1">
+        <Card className="w-full shadow-lg">
+          <CardContent className="p-4 sm:p-6">
+            <FileTabs
+              files={files}
+              activeFileId={activeFile.id}
+              onOpenFile={openFile}
+              onCloseFile={handleCloseFile}
+              className="mb-4"
+            />
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <div>
+                <Tabs value={inputTab} onValueChange={setInputTab} className="w-full">
+                  <TabsList className="grid w-full grid-cols-3 mb-2">
+                    <TabsTrigger value="editor">Editor</TabsTrigger>
+                    <TabsTrigger value="upload">Upload</TabsTrigger>
+                    <TabsTrigger value="clipboard">Clipboard</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="editor">
+                    <div className="relative">
+                      <div className="absolute top-2 right-2 z-10 flex gap-2">
+                        <Button variant="outline" size="icon" className="h-8 w-8" onClick={handleUndo} disabled={historyIndex === 0} title={`Undo ${history[historyIndex].label}`}>
+                          <Undo className="h-4 w-4" />
+                          <span className="sr-only">Undo</span>
+                        </Button>
+                        <Button variant="outline" size="icon" className="h-8 w-8" onClick={handleRedo} disabled={historyIndex >= history.length - 1} title={historyIndex < history.length - 1 ? `Redo ${history[historyIndex + 1].label}` : undefined}>
+                          <Redo className="h-4 w-4" />
+                          <span className="sr-only">Redo</span>
+                        </Button>
+                        <HistoryTimeline file={activeFile} onSelect={goToHistoryEntry} />
+                      </div>
+                      <CodeEditor
+                        id="input-code"
+                        ref={inputRef}
+                        value={inputCode}
+                        onChange={updateInputCode}
+                        wrapLines={wrapLines}
+                        dialect={dialect}
+                        placeholder="Paste your Lua code here..."
+                        className="h-96 min-h-[300px] lg:h-[500px] text-base border-primary/20 focus-within:border-primary"
+                      />
+                    </div>
+                  </TabsContent>
+                  <TabsContent value="upload">
+                    <div
+                      className="relative flex flex-col items-center justify-center rounded-md border border-dashed h-96 min-h-[300px] lg:h-[500px] text-center p-4"
+                      onDragOver={(e) => e.preventDefault()}
+                      onDrop={handleFileDrop}
+                    >
+                        <Upload className="mx-auto h-12 w-12 text-muted-foreground" />
+                        <h3 className="mt-4 text-lg font-semibold">Upload files</h3>
+                        <p className="mb-4 mt-2 text-sm text-muted-foreground">
+                          Select or drop .lua files, folders or .zip archives to open them in the workspace.
+                          Dropping a stylua.toml or .editorconfig applies its settings to the formatter.
+                        </p>
+                        <Input
+                          id="file-upload"
+                          type="file"
+                          className="relative block w-full max-w-xs cursor-pointer rounded-lg border bg-background text-sm focus:z-10"
+                          onChange={handleFileChange}
+                          accept=".lua,.luau,.zip,.toml,.editorconfig,text/plain"
+                          multiple
+                        />
+                        <Button variant="link" size="sm" className="mt-2" onClick={() => folderInputRef.current?.click()}>
+                          <FolderOpen className="mr-2 h-4 w-4" /> Select a folder
+                        </Button>
+                        <input
+                          ref={(element) => {
+                            folderInputRef.current = element;
+                            // React doesn't know the attribute, so it is set on the element.
+                            element?.setAttribute('webkitdirectory', '');
+                          }}
+                          type="file"
+                          className="hidden"
+                          onChange={handleFileChange}
+                        />
+                    </div>
+                  </TabsContent>
+                  <TabsContent value="clipboard">
+                    <div className="flex flex-col items-center justify-center rounded-md border border-dashed h-96 min-h-[300px] lg:h-[500px] text-center p-4">
+                        <ClipboardPaste className="mx-auto h-12 w-12 text-muted-foreground" />
+                        <h3 className="mt-4 text-lg font-semibold">Load from Clipboard</h3>
+                        <p className="mb-4 mt-2 text-sm text-muted-foreground">
+                          Click the button to paste code from your clipboard.
+                        </p>
+                        <Button onClick={handlePasteFromClipboard}>
+                            <ClipboardPaste className="mr-2 h-4 w-4" /> Load from Clipboard
+                        </Button>
+                    </div>
+                  </TabsContent>
+                </Tabs>
+              </div>
+
+              <div>
+                <Tabs value={outputView} onValueChange={setOutputView}>
+                  <div className="mb-2 flex items-center justify-between">
+                    <label htmlFor="output-code" className="text-sm font-medium text-muted-foreground">Output Code</label>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8"
+                        onClick={handleUseOutputAsInput}
+                        disabled={!outputCode || outputCode === inputCode}
+                        title={outputOperation ? `Use the result of "${outputOperation}" as the input` : undefined}
+                      >
+                        <CornerUpLeft className="mr-2 h-4 w-4" /> Use as input
                       </Button>
+                      <TabsList className="h-8">
+                        <TabsTrigger value="code" className="py-0.5">Code</TabsTrigger>
+                        <TabsTrigger value="diff" className="py-0.5">Diff</TabsTrigger>
+                      </TabsList>
                     </div>
-                    <Textarea
-                      id="input-code"
-                      value={inputCode}
-                      onChange={(e) => updateInputCode(e.target.value)}
-                      placeholder="Paste your Lua code here..."
-                      className={cn(
-                        "font-code h-96 min-h-[300px] lg:h-[500px] text-base border-primary/20 focus:border-primary",
-                        !wrapLines && "whitespace-pre overflow-x-auto"
-                      )}
-                    />
                   </div>
-                </TabsContent>
-                <TabsContent value="upload">
-                  <div className="relative flex flex-col items-center justify-center rounded-md border border-dashed h-96 min-h-[300px] lg:h-[500px] text-center p-4">
-                      <Upload className="mx-auto h-12 w-12 text-muted-foreground" />
-                      <h3 className="mt-4 text-lg font-semibold">Upload a file</h3>
-                      <p className="mb-4 mt-2 text-sm text-muted-foreground">
-                        Select a .lua or text file from your device.
-                      </p>
-                      <Input
-                        id="file-upload"
-                        type="file"
-                        className="relative block w-full max-w-xs cursor-pointer rounded-lg border bg-background text-sm focus:z-10"
-                        onChange={handleFileChange}
-                        accept=".lua,text/plain"
+                  <TabsContent value="code" className="mt-0">
+                    <CodeEditor
+                      id="output-code"
+                      value={outputCode}
+                      readOnly
+                      wrapLines={wrapLines}
+                      dialect={dialect}
+                      placeholder={'Processed code will appear here...'}
+                      className="h-96 min-h-[300px] lg:h-[500px] bg-muted/30 text-base"
+                    />
+                  </TabsContent>
+                  <TabsContent value="diff" className="mt-0">
+                    <DiffView
+                      oldText={inputCode}
+                      newText={outputCode}
+                      wrapLines={wrapLines}
+                      onAcceptHunk={handleAcceptHunk}
+                      onRejectHunk={handleRejectHunk}
+                      className="h-96 min-h-[300px] lg:h-[500px]"
+                    />
+                  </TabsContent>
+                </Tabs>
+                <div className="mt-2 flex items-center justify-between gap-4 text-sm text-muted-foreground">
+                  {outputCode ? (
+                    <div className="flex min-w-0 items-center gap-2">
+                      {equivalenceCheck.pending && (
+                        <Badge variant="outline">
+                          <Loader2 className="mr-1 h-3 w-3 animate-spin" /> Checking
+                        </Badge>
+                      )}
+                      {equivalence && (equivalence.status === 'equivalent' ? (
+                        <Badge variant="secondary">
+                          <BadgeCheck className="mr-1 h-3 w-3" /> Equivalent
+                        </Badge>
+                      ) : (
+                        <>
+                          <Badge variant={equivalence.status === 'different' ? 'destructive' : 'outline'} className="shrink-0">
+                            <AlertTriangle className="mr-1 h-3 w-3" />
+                            {equivalence.status === 'different' ? 'Not equivalent' : 'Not verified'}
+                          </Badge>
+                          <span className="truncate" title={equivalence.message}>{equivalence.message}</span>
+                        </>
+                      ))}
+                      <Checkbox
+                        id="allow-renamed-locals"
+                        checked={allowRenamedLocals}
+                        onCheckedChange={(checked) => setAllowRenamedLocals(Boolean(checked))}
                       />
+                      <Label htmlFor="allow-renamed-locals" className="shrink-0 font-normal">Allow renamed locals</Label>
+                    </div>
+                  ) : <div />}
+                  {stats && (outputCode || outputCode === '') && (
+                    <div className="flex shrink-0 justify-end gap-4 pr-2">
+                      <span>Lines Saved: <span className="font-medium text-foreground">{stats.linesSaved}</span></span>
+                      <span>Size Saved: <span className="font-medium text-foreground">{formatBytes(stats.sizeSaved)}</span></span>
+                    </div>
+                  )}
+                </div>
+                {activeSourceMap && (
+                  <div className="mt-2 flex flex-wrap items-center justify-end gap-2 pr-2 text-sm text-muted-foreground">
+                    {resolvedPosition && <span>{resolvedPosition}</span>}
+                    <Input
+                      aria-label="Output position"
+                      placeholder="line:col in output"
+                      value={resolveQuery}
+                      onChange={(e) => setResolveQuery(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleResolvePosition()}
+                      className="h-8 w-40"
+                    />
+                    <Button variant="outline" size="sm" onClick={handleResolvePosition}>
+                      <Locate className="mr-2 h-4 w-4" /> Resolve
+                    </Button>
                   </div>
-                </TabsContent>
-                <TabsContent value="clipboard">
-                  <div className="flex flex-col items-center justify-center rounded-md border border-dashed h-96 min-h-[300px] lg:h-[500px] text-center p-4">
-                      <ClipboardPaste className="mx-auto h-12 w-12 text-muted-foreground" />
-                      <h3 className="mt-4 text-lg font-semibold">Load from Clipboard</h3>
-                      <p className="mb-4 mt-2 text-sm text-muted-foreground">
-                        Click the button to paste code from your clipboard.
-                      </p>
-                      <Button onClick={handlePasteFromClipboard}>
-                          <ClipboardPaste className="mr-2 h-4 w-4" /> Load from Clipboard
-                      </Button>
-                  </div>
-                </TabsContent>
-              </Tabs>
-            </div>
-
-            <div>
-              <label htmlFor="output-code" className="text-sm font-medium mb-2 block text-muted-foreground">Output Code</label>
-              <Textarea
-                id="output-code"
-                value={outputCode}
-                readOnly
-                placeholder={'Processed code will appear here...'}
-                className={cn(
-                  "font-code h-96 min-h-[300px] lg:h-[500px] bg-muted/30 text-base",
-                   !wrapLines && "whitespace-pre overflow-x-auto"
                 )}
-              />
-              {stats && (outputCode || outputCode === '') && (
-                <div className="mt-2 text-sm text-muted-foreground flex justify-end gap-4 pr-2">
-                  <span>Lines Saved: <span className="font-medium text-foreground">{stats.linesSaved}</span></span>
-                  <span>Size Saved: <span className="font-medium text-foreground">{formatBytes(stats.sizeSaved)}</span></span>
-                </div>
-              )}
+              </div>
             </div>
-          </div>
           
-          <div className="mt-4 flex items-center justify-end space-x-2">
-            <Checkbox id="wrap-lines" checked={wrapLines} onCheckedChange={(checked) => setWrapLines(Boolean(checked))} />
-            <Label htmlFor="wrap-lines">Wrap lines</Label>
-          </div>
-
-          <div className="mt-6 flex flex-wrap gap-3 justify-center">
-            <Button variant="outline" onClick={handleDeleteComments} disabled={!lua.hasComments(inputCode)}>
-              <Trash2 className="mr-2 h-4 w-4" /> Delete Comments
-            </Button>
-            <Button variant="outline" onClick={handleToOneLinerClick}>
-              <Sparkles className="mr-2 h-4 w-4" /> To One Liner
-            </Button>
-            <Button variant="outline" onClick={handleReverse}>
-              <ArrowLeftRight className="mr-2 h-4 w-4" /> Reverse
-            </Button>
-            <Button variant="secondary" onClick={handleCopy} disabled={!outputCode}>
-              <Copy className="mr-2 h-4 w-4" /> Copy
-            </Button>
-            <Button variant="secondary" onClick={handleDownload} disabled={!outputCode}>
-              <Download className="mr-2 h-4 w-4" /> Download
-            </Button>
-            <Button variant="destructive" onClick={handleClear}>
-              <Trash className="mr-2 h-4 w-4" /> Clear
-            </Button>
-          </div>
-        </CardContent>
-      </Card>
+            <div className="mt-4 flex items-center justify-end space-x-2">
+              <SessionsMenu session={session} onRestore={handleRestoreSnapshot} />
+              <Label htmlFor="transform-scope" className="sr-only">Apply transforms to</Label>
+              <Select value={scope} onValueChange={(value) => setScope(value as typeof scope)}>
+                <SelectTrigger id="transform-scope" className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="file">This file</SelectItem>
+                  <SelectItem value="selection">Selected files ({selectedFileIds.length})</SelectItem>
+                  <SelectItem value="workspace">All files ({files.length})</SelectItem>
+                </SelectContent>
+              </Select>
+              <Label htmlFor="lua-dialect" className="sr-only">Lua dialect</Label>
+              <Select value={dialect} onValueChange={(value) => updatePreferences({ dialect: value as LuaDialect })}>
+                <SelectTrigger id="lua-dialect" className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(DIALECTS) as LuaDialect[]).map(key => (
+                    <SelectItem key={key} value={key}>{DIALECTS[key].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormatOptionsPanel options={formatOptions} onOptionsChange={setFormatOptions} />
+              <Checkbox id="wrap-lines" checked={wrapLines} onCheckedChange={(checked) => setWrapLines(Boolean(checked))} />
+              <Label htmlFor="wrap-lines">Wrap lines</Label>
+            </div>
+
+            <div className="mt-6 flex flex-wrap gap-3 justify-center">
+              <Button onClick={handleBeautify}>
+                <Wand2 className="mr-2 h-4 w-4" /> Beautify
+              </Button>
+              <Button variant="outline" onClick={handleDeleteComments} disabled={scope === 'file' && hasComments === false}>
+                <Trash2 className="mr-2 h-4 w-4" /> Delete Comments
+              </Button>
+              <Button variant="outline" onClick={handleToOneLinerClick}>
+                <Sparkles className="mr-2 h-4 w-4" /> To One Liner
+              </Button>
+              <Button variant="outline" onClick={handleMinify}>
+                <Minimize2 className="mr-2 h-4 w-4" /> Minify
+              </Button>
+              <Button variant="outline" onClick={handleToLua51} title="Convert Luau code to Lua 5.1">
+                <FileCode2 className="mr-2 h-4 w-4" /> Luau to Lua 5.1
+              </Button>
+              <Button variant="outline" onClick={handleReverse}>
+                <ArrowLeftRight className="mr-2 h-4 w-4" /> Reverse
+              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline">
+                    <Workflow className="mr-2 h-4 w-4" /> Pipelines
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent>
+                  {pipelines.length > 0 && (
+                    <>
+                      <DropdownMenuLabel>Run</DropdownMenuLabel>
+                      {pipelines.map(pipeline => (
+                        <DropdownMenuItem key={pipeline.name} onSelect={() => handleRunPipeline(pipeline)}>
+                          {pipeline.name}
+                        </DropdownMenuItem>
+                      ))}
+                      <DropdownMenuSeparator />
+                    </>
+                  )}
+                  <DropdownMenuItem onSelect={() => setPipelineDialogOpen(true)}>Edit pipelines…</DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Button variant="secondary" onClick={handleCopy} disabled={!outputCode}>
+                <Copy className="mr-2 h-4 w-4" /> Copy
+              </Button>
+              <Button variant="secondary" onClick={handleDownload} disabled={!outputCode}>
+                <Download className="mr-2 h-4 w-4" /> Download
+              </Button>
+              <Button variant="destructive" onClick={handleClear}>
+                <Trash className="mr-2 h-4 w-4" /> Clear
+              </Button>
+            </div>
+
+            {transformWorker.progress && (
+              <div className="mt-4 flex items-center gap-3" role="status">
+                <Progress
+                  value={(transformWorker.progress.completed / transformWorker.progress.total) * 100}
+                  className={cn('h-2 flex-1', transformWorker.progress.completed === 0 && 'animate-pulse')}
+                />
+                <span className="whitespace-nowrap text-sm text-muted-foreground">
+                  {transformWorker.progress.operation}…
+                  {transformWorker.progress.total > 1 && ` ${transformWorker.progress.completed} of ${transformWorker.progress.total} files`}
+                </span>
+                <Button variant="ghost" size="sm" onClick={handleCancelTransform}>
+                  <X className="mr-2 h-4 w-4" /> Cancel
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
       
-      <Card className="mt-4">
-        <CardContent className="p-6 flex items-center justify-center">
-          <Button variant="outline" onClick={() => setAdvancedDialogOpen(true)}>
-            <Wrench className="mr-2 h-4 w-4" /> Advanced Tools
-          </Button>
-        </CardContent>
-      </Card>
+        <Card className="mt-4">
+          <CardContent className="p-6 flex items-center justify-center">
+            <Button variant="outline" onClick={() => setAdvancedDialogOpen(true)}>
+              <Wrench className="mr-2 h-4 w-4" /> Advanced Tools
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+
+      <BatchReportDialog
+        report={batchReport}
+        open={reportDialogOpen}
+        onOpenChange={setReportDialogOpen}
+        onDownloadZip={handleDownloadWorkspace}
+      />
+
+      <PipelineDialog
+        open={pipelineDialogOpen}
+        onOpenChange={setPipelineDialogOpen}
+        pipelines={pipelines}
+        onPipelinesChange={updatePipelines}
+        code={inputCode}
+        dialect={dialect}
+        formatOptions={formatOptions}
+        wrapLines={wrapLines}
+        onRun={showPipelineResult}
+      />
 
       <Dialog open={advancedDialogOpen} onOpenChange={setAdvancedDialogOpen}>
         <DialogContent className="max-w-4xl">
@@ -460,15 +1207,15 @@ export function LuaEditor() {
                   <div>
                       <DialogTitle>Advanced Tools</DialogTitle>
                       <DialogDescription>
-                          Inspect or selectively remove comments from your code.
+                          Inspect or selectively remove comments, check your code for problems, and migrate Lua 5.1 code to Lua 5.4.
                       </DialogDescription>
                   </div>
                   <div className="flex gap-2">
-                      <Button variant="outline" size="icon" className="h-8 w-8" onClick={handleUndo} disabled={historyIndex === 0}>
+                      <Button variant="outline" size="icon" className="h-8 w-8" onClick={handleUndo} disabled={historyIndex === 0} title={`Undo ${history[historyIndex].label}`}>
                           <Undo className="h-4 w-4" />
                           <span className="sr-only">Undo</span>
                       </Button>
-                      <Button variant="outline" size="icon" className="h-8 w-8" onClick={handleRedo} disabled={historyIndex >= history.length - 1}>
+                      <Button variant="outline" size="icon" className="h-8 w-8" onClick={handleRedo} disabled={historyIndex >= history.length - 1} title={historyIndex < history.length - 1 ? `Redo ${history[historyIndex + 1].label}` : undefined}>
                           <Redo className="h-4 w-4" />
                           <span className="sr-only">Redo</span>
                       </Button>
@@ -476,9 +1223,11 @@ export function LuaEditor() {
               </div>
           </DialogHeader>
           <Tabs defaultValue="custom-delete" className="w-full">
-              <TabsList className="grid w-full grid-cols-2">
+              <TabsList className="grid w-full grid-cols-4">
                 <TabsTrigger value="custom-delete">Custom Delete</TabsTrigger>
                 <TabsTrigger value="inspector">Comment Inspector</TabsTrigger>
+                <TabsTrigger value="diagnostics">Diagnostics</TabsTrigger>
+                <TabsTrigger value="migration">Migrate to 5.4</TabsTrigger>
               </TabsList>
               <TabsContent value="custom-delete" className="mt-4">
                   <Card>
@@ -507,6 +1256,16 @@ export function LuaEditor() {
                                       Delete multi-line block comments (e.g. --[[...]])
                                   </Label>
                               </div>
+                              <div className="flex items-center space-x-2">
+                                  <Checkbox
+                                    id="keepDirectives-dialog"
+                                    checked={deleteOptions.keepDirectives}
+                                    onCheckedChange={(checked) => setDeleteOptions(prev => ({...prev, keepDirectives: !!checked}))}
+                                  />
+                                  <Label htmlFor="keepDirectives-dialog" className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70">
+                                      Keep linter directives (e.g. -- luaforge-disable-next-line)
+                                  </Label>
+                              </div>
                           </div>
                       </CardContent>
                   </Card>
@@ -595,6 +1354,110 @@ export function LuaEditor() {
                       </CardContent>
                   </Card>
               </TabsContent>
+              <TabsContent value="diagnostics" className="mt-4">
+                <Card>
+                      <CardContent className="pt-6">
+                        <div className="flex flex-col space-y-4">
+                            <div className="flex items-center justify-between gap-2">
+                              <p className="text-sm text-muted-foreground">
+                                {lint.pending ? (
+                                  <>Linting… ({DIALECTS[dialect].label})</>
+                                ) : (
+                                  <>
+                                    {diagnostics.filter(d => d.severity === 'error').length} errors,{' '}
+                                    {diagnostics.filter(d => d.severity === 'warning').length} warnings,{' '}
+                                    {diagnostics.filter(d => d.severity === 'info').length} notes ({DIALECTS[dialect].label})
+                                  </>
+                                )}
+                              </p>
+                              <div className="flex gap-2">
+                                <LintSettingsPanel config={preferences.lint} onConfigChange={(lint) => updatePreferences({ lint })} />
+                                <Button size="sm" onClick={handleApplyAllLintFixes} disabled={!diagnostics.some(diagnostic => diagnostic.fix)}>
+                                  <Wand2 className="mr-2 h-4 w-4" /> Fix All
+                                </Button>
+                              </div>
+                            </div>
+                            <ScrollArea className="h-72 w-full rounded-md border">
+                              <div className="p-4 text-sm">
+                                {diagnostics.length > 0 ? (
+                                  diagnostics.map((diagnostic, index) => (
+                                    <div key={index} className="border-b p-2 flex items-center justify-between gap-2">
+                                        <div className="flex min-w-0 items-start gap-2">
+                                            <Badge variant={SEVERITY_BADGES[diagnostic.severity]} className="shrink-0 capitalize">{diagnostic.severity}</Badge>
+                                            <div className="min-w-0">
+                                                <span className="font-semibold text-muted-foreground">Line {diagnostic.line}:{diagnostic.column}</span>
+                                                <p>{diagnostic.message}</p>
+                                                <p className="font-code text-xs text-muted-foreground">{diagnostic.rule}</p>
+                                            </div>
+                                        </div>
+                                        <div className="flex shrink-0 items-center gap-1">
+                                            {diagnostic.fix && (
+                                              <Button variant="outline" size="sm" onClick={() => handleApplyLintFix(diagnostic)}>
+                                                  <Wand2 className="mr-2 h-4 w-4" /> Fix
+                                              </Button>
+                                            )}
+                                            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleJumpTo(diagnostic.range)}>
+                                                <Locate className="h-4 w-4" />
+                                                <span className="sr-only">Jump to line {diagnostic.line}</span>
+                                            </Button>
+                                        </div>
+                                    </div>
+                                  ))
+                                ) : (
+                                  <p className="text-muted-foreground text-center p-4">
+                                    {lint.pending ? 'Linting…' : 'No problems found.'}
+                                  </p>
+                                )}
+                              </div>
+                            </ScrollArea>
+                        </div>
+                      </CardContent>
+                  </Card>
+              </TabsContent>
+              <TabsContent value="migration" className="mt-4">
+                <Card>
+                      <CardContent className="pt-6">
+                        <div className="flex flex-col space-y-4">
+                            <div className="flex justify-between space-x-2">
+                              <Button onClick={handleFindMigrationIssues} variant="outline">
+                                <Search className="mr-2 h-4 w-4" />
+                                Find Issues
+                              </Button>
+                              <Button onClick={handleApplyAllMigrationFixes} disabled={!migrationIssues?.some(issue => issue.fix)}>
+                                <Wand2 className="mr-2 h-4 w-4" />
+                                Fix All
+                              </Button>
+                            </div>
+                            <ScrollArea className="h-72 w-full rounded-md border">
+                              <div className="p-4 text-sm">
+                                {migrationIssues && migrationIssues.length > 0 ? (
+                                  migrationIssues.map((issue, index) => (
+                                    <div key={index} className="border-b p-2 flex items-center justify-between gap-2">
+                                        <div className="min-w-0">
+                                            <span className="font-semibold text-muted-foreground">Line {issue.line}:</span>
+                                            <p className="font-code whitespace-pre-wrap">{issue.code}</p>
+                                            <p className="text-muted-foreground">{issue.message}</p>
+                                        </div>
+                                        {issue.fix ? (
+                                          <Button variant="outline" size="sm" className="shrink-0" onClick={() => handleApplyMigrationFix(issue)}>
+                                              <Wand2 className="mr-2 h-4 w-4" /> Fix
+                                          </Button>
+                                        ) : (
+                                          <Badge variant="outline" className="shrink-0">Manual</Badge>
+                                        )}
+                                    </div>
+                                  ))
+                                ) : (
+                                  <p className="text-muted-foreground text-center p-4">
+                                    {migrationIssues ? 'No Lua 5.1 incompatibilities found.' : 'Find issues to check the code for Lua 5.1 features removed in Lua 5.4.'}
+                                  </p>
+                                )}
+                              </div>
+                            </ScrollArea>
+                        </div>
+                      </CardContent>
+                  </Card>
+              </TabsContent>
             </Tabs>
         </DialogContent>
       </Dialog>
@@ -615,6 +1478,6 @@ export function LuaEditor() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
-    </>
+    </SidebarProvider>
   );
 }
@@ -0,0 +1,418 @@
+"use client";
+
+import { useMemo, useRef, useState } from 'react';
+import { AlertTriangle, ArrowDown, ArrowUp, CircleCheck, Download, Eye, Play, Save, Trash2, Upload, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { useAnalysis } from '@/hooks/use-transform-worker';
+import { cn } from '@/lib/utils';
+import type { FormatOptions } from '@/lib/lua-formatter';
+import type { LuaDialect } from '@/lib/lua-dialect';
+import {
+  createStep,
+  parsePipeline,
+  Pipeline,
+  PIPELINE_STEP_LABELS,
+  PipelineStep,
+  PipelineStepKind,
+  serializePipeline,
+} from '@/lib/pipelines';
+import { CodeEditor } from './code-editor';
+
+const NEW_PIPELINE = '__new';
+
+type PipelineDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  pipelines: Pipeline[];
+  onPipelinesChange: (pipelines: Pipeline[]) => void;
+  code: string;
+  dialect: LuaDialect;
+  /** The options a new Beautify step starts with. */
+  formatOptions: FormatOptions;
+  wrapLines: boolean;
+  onRun: (pipeline: Pipeline, output: string) => void;
+};
+
+type StepOptionsProps = {
+  id: string;
+  step: PipelineStep;
+  formatOptions: FormatOptions;
+  onStepChange: (step: PipelineStep) => void;
+};
+
+function KeepHeaderOption({ id, checked, onCheckedChange }: { id: string; checked: boolean; onCheckedChange: (checked: boolean) => void }) {
+  return (
+    <div className="flex items-center space-x-2">
+      <Checkbox id={`${id}-keep-header`} checked={checked} onCheckedChange={(value) => onCheckedChange(Boolean(value))} />
+      <Label htmlFor={`${id}-keep-header`} className="font-normal">Keep header comments</Label>
+    </div>
+  );
+}
+
+function StepOptions({ id, step, formatOptions, onStepChange }: StepOptionsProps) {
+  switch (step.kind) {
+    case 'beautify': {
+      const { indentType, indentWidth, columnWidth } = step.options;
+      return (
+        <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+          <span>{indentType === 'tabs' ? 'Tabs' : `${indentWidth} spaces`}, {columnWidth} columns</span>
+          <Button variant="ghost" size="sm" className="h-7" onClick={() => onStepChange({ ...step, options: formatOptions })}>
+            Use current formatter options
+          </Button>
+        </div>
+      );
+    }
+    case 'delete-comments':
+      return (
+        <div className="flex flex-wrap gap-4">
+          <KeepHeaderOption id={id} checked={step.keepHeader} onCheckedChange={(keepHeader) => onStepChange({ ...step, keepHeader })} />
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id={`${id}-keep-directives`}
+              checked={step.keepDirectives}
+              onCheckedChange={(checked) => onStepChange({ ...step, keepDirectives: Boolean(checked) })}
+            />
+            <Label htmlFor={`${id}-keep-directives`} className="font-normal">Keep linter directives</Label>
+          </div>
+        </div>
+      );
+    case 'custom-delete': {
+      const updateOptions = (changes: Partial<typeof step.options>) => onStepChange({ ...step, options: { ...step.options, ...changes } });
+      return (
+        <div className="grid gap-2">
+          <div className="flex flex-wrap gap-4">
+            <div className="flex items-center space-x-2">
+              <Checkbox id={`${id}-single`} checked={step.options.singleLine} onCheckedChange={(checked) => updateOptions({ singleLine: Boolean(checked) })} />
+              <Label htmlFor={`${id}-single`} className="font-normal">Single-line (--)</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox id={`${id}-multi`} checked={step.options.multiLine} onCheckedChange={(checked) => updateOptions({ multiLine: Boolean(checked) })} />
+              <Label htmlFor={`${id}-multi`} className="font-normal">Multi-line (--[[ ]])</Label>
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <Input aria-label="Single-line marker" placeholder="e.g. //" value={step.options.customSingle} onChange={(e) => updateOptions({ customSingle: e.target.value })} className="h-8" />
+            <Input aria-label="Block start marker" placeholder="e.g. /*" value={step.options.customMultiStart} onChange={(e) => updateOptions({ customMultiStart: e.target.value })} className="h-8" />
+            <Input aria-label="Block end marker" placeholder="e.g. */" value={step.options.customMultiEnd} onChange={(e) => updateOptions({ customMultiEnd: e.target.value })} className="h-8" />
+          </div>
+        </div>
+      );
+    }
+    case 'one-liner':
+      return (
+        <div className="flex items-center gap-4">
+          <Select value={step.comments} onValueChange={(value) => onStepChange({ ...step, comments: value as 'preserve' | 'delete' })}>
+            <SelectTrigger aria-label="Comments" className="h-8 w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="delete">Delete comments</SelectItem>
+              <SelectItem value="preserve">Preserve comments</SelectItem>
+            </SelectContent>
+          </Select>
+          <KeepHeaderOption id={id} checked={step.keepHeader} onCheckedChange={(keepHeader) => onStepChange({ ...step, keepHeader })} />
+        </div>
+      );
+    case 'minify':
+      return (
+        <KeepHeaderOption id={id} checked={step.keepHeader} onCheckedChange={(keepHeader) => onStepChange({ ...step, keepHeader })} />
+      );
+    case 'banner':
+      return (
+        <Textarea
+          aria-label="Banner"
+          placeholder="-- mylib v1.0.0 | MIT License"
+          value={step.text}
+          onChange={(e) => onStepChange({ ...step, text: e.target.value })}
+          className="min-h-[60px] font-code text-sm"
+        />
+      );
+    default:
+      return null;
+  }
+}
+
+export function PipelineDialog({
+  open,
+  onOpenChange,
+  pipelines,
+  onPipelinesChange,
+  code,
+  dialect,
+  formatOptions,
+  wrapLines,
+  onRun,
+}: PipelineDialogProps) {
+  const [draft, setDraft] = useState<Pipeline>({ name: '', steps: [] });
+  const [selected, setSelected] = useState(NEW_PIPELINE);
+  // The step whose output is previewed; the last step that succeeded when none is picked.
+  const [previewIndex, setPreviewIndex] = useState<number | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const previewAnalysis = useMemo(
+    () => (open ? { kind: 'pipeline' as const, code, steps: draft.steps, dialect } : null),
+    [open, code, draft.steps, dialect],
+  );
+  const preview = useAnalysis(previewAnalysis);
+  // The previews of the last run stay up while the edited pipeline runs; only its own output can be used.
+  const results = preview.latest?.result ?? [];
+  const current = preview.latest?.analysis === previewAnalysis;
+  const last = results[results.length - 1];
+  const output = current && last?.ok ? last.output : null;
+  const lastOk = last?.ok ? results.length - 1 : results.length - 2;
+  const shownIndex = previewIndex !== null && results[previewIndex]?.ok ? previewIndex : lastOk;
+  const shown = results[shownIndex];
+
+  const updateSteps = (steps: PipelineStep[]) => {
+    setDraft({ ...draft, steps });
+    if (previewIndex !== null && previewIndex >= steps.length) setPreviewIndex(null);
+  };
+
+  const updateStep = (index: number, step: PipelineStep) => {
+    updateSteps(draft.steps.map((s, i) => (i === index ? step : s)));
+  };
+
+  const moveStep = (index: number, delta: number) => {
+    const steps = [...draft.steps];
+    [steps[index], steps[index + delta]] = [steps[index + delta], steps[index]];
+    updateSteps(steps);
+  };
+
+  const handleSelectPipeline = (name: string) => {
+    setSelected(name);
+    setPreviewIndex(null);
+    const pipeline = pipelines.find(p => p.name === name);
+    setDraft(pipeline ? { ...pipeline, steps: [...pipeline.steps] } : { name: '', steps: [] });
+  };
+
+  const handleSave = () => {
+    const name = draft.name.trim();
+    if (!name) return;
+    const pipeline = { ...draft, name };
+    const index = pipelines.findIndex(p => p.name === name);
+    onPipelinesChange(index === -1 ? [...pipelines, pipeline] : pipelines.map((p, i) => (i === index ? pipeline : p)));
+    setDraft(pipeline);
+    setSelected(name);
+    toast({ title: 'Pipeline saved!', description: `"${name}" can now be run from the Pipelines menu.` });
+  };
+
+  const handleDelete = () => {
+    onPipelinesChange(pipelines.filter(p => p.name !== selected));
+    handleSelectPipeline(NEW_PIPELINE);
+    toast({ title: 'Pipeline deleted.' });
+  };
+
+  const handleExport = () => {
+    const name = draft.name.trim() || 'pipeline';
+    const blob = new Blob([serializePipeline({ ...draft, name })], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${name.replace(/[^\w.-]+/g, '_')}.luaforge-pipeline.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) {
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const pipeline = parsePipeline(e.target?.result as string);
+        onPipelinesChange([...pipelines.filter(p => p.name !== pipeline.name), pipeline]);
+        setDraft(pipeline);
+        setSelected(pipeline.name);
+        setPreviewIndex(null);
+        toast({ title: 'Pipeline imported!', description: `"${pipeline.name}" has been saved.` });
+      } catch (err) {
+        const error = err instanceof Error ? err.message : 'An unknown error occurred';
+        toast({ title: 'Could not import pipeline', description: error, variant: 'destructive' });
+      }
+    };
+    reader.readAsText(file);
+    event.target.value = '';
+  };
+
+  const handleRun = () => {
+    if (output === null) return;
+    onRun({ ...draft, name: draft.name.trim() || 'Pipeline' }, output);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Pipelines</DialogTitle>
+          <DialogDescription>
+            Chain transforms into one action, check what each step does to the input, and save the result by name.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2">
+          <Select value={selected} onValueChange={handleSelectPipeline}>
+            <SelectTrigger aria-label="Saved pipeline" className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NEW_PIPELINE}>New pipeline</SelectItem>
+              {pipelines.map(pipeline => (
+                <SelectItem key={pipeline.name} value={pipeline.name}>{pipeline.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            aria-label="Pipeline name"
+            placeholder="Pipeline name, e.g. Release"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className="w-56"
+          />
+          <Button variant="outline" size="icon" onClick={handleSave} disabled={!draft.name.trim()}>
+            <Save className="h-4 w-4" />
+            <span className="sr-only">Save pipeline</span>
+          </Button>
+          <Button variant="outline" size="icon" className="text-destructive" onClick={handleDelete} disabled={selected === NEW_PIPELINE}>
+            <Trash2 className="h-4 w-4" />
+            <span className="sr-only">Delete pipeline</span>
+          </Button>
+          <Button variant="outline" onClick={() => importInputRef.current?.click()}>
+            <Upload className="mr-2 h-4 w-4" /> Import
+          </Button>
+          <Button variant="outline" onClick={handleExport} disabled={draft.steps.length === 0}>
+            <Download className="mr-2 h-4 w-4" /> Export
+          </Button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={handleImport}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+          <div className="flex flex-col gap-2">
+            <ScrollArea className="h-[420px] rounded-md border">
+              <div className="space-y-2 p-2">
+                {draft.steps.length === 0 && (
+                  <p className="p-4 text-center text-sm text-muted-foreground">Add steps to build a pipeline.</p>
+                )}
+                {draft.steps.map((step, index) => {
+                  const result = results[index];
+                  return (
+                    <div
+                      key={index}
+                      className={cn('space-y-2 rounded-md border p-2', index === shownIndex && 'border-primary')}
+                    >
+                      <div className="flex items-center gap-2">
+                        {result?.ok && <CircleCheck className="h-4 w-4 shrink-0 text-emerald-600 dark:text-emerald-400" />}
+                        {result && !result.ok && <AlertTriangle className="h-4 w-4 shrink-0 text-destructive" />}
+                        <span className="flex-1 text-sm font-medium">
+                          {index + 1}. {PIPELINE_STEP_LABELS[step.kind]}
+                          {!result && (
+                            <span className="ml-2 font-normal text-muted-foreground">{preview.pending ? 'Running…' : 'Not run'}</span>
+                          )}
+                        </span>
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setPreviewIndex(index)} disabled={!result?.ok}>
+                          <Eye className="h-4 w-4" />
+                          <span className="sr-only">Preview output</span>
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => moveStep(index, -1)} disabled={index === 0}>
+                          <ArrowUp className="h-4 w-4" />
+                          <span className="sr-only">Move up</span>
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => moveStep(index, 1)} disabled={index === draft.steps.length - 1}>
+                          <ArrowDown className="h-4 w-4" />
+                          <span className="sr-only">Move down</span>
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => updateSteps(draft.steps.filter((_, i) => i !== index))}>
+                          <X className="h-4 w-4" />
+                          <span className="sr-only">Remove step</span>
+                        </Button>
+                      </div>
+                      <StepOptions
+                        id={`pipeline-step-${index}`}
+                        step={step}
+                        formatOptions={formatOptions}
+                        onStepChange={(updated) => updateStep(index, updated)}
+                      />
+                      {result && !result.ok && <p className="text-sm text-destructive">{result.error}</p>}
+                    </div>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+            <Select value="" onValueChange={(kind) => updateSteps([...draft.steps, createStep(kind as PipelineStepKind, formatOptions)])}>
+              <SelectTrigger aria-label="Add step">
+                <SelectValue placeholder="Add step…" />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PIPELINE_STEP_LABELS) as PipelineStepKind[]).map(kind => (
+                  <SelectItem key={kind} value={kind}>{PIPELINE_STEP_LABELS[kind]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="pipeline-preview">
+              {shown?.ok ? `Output of step ${shownIndex + 1}` : 'Step output'}
+            </Label>
+            <CodeEditor
+              id="pipeline-preview"
+              value={shown?.ok ? shown.output : ''}
+              readOnly
+              wrapLines={wrapLines}
+              dialect={dialect}
+              placeholder="The output of each step can be previewed here."
+              className="h-[420px]"
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="items-center">
+          {preview.progress && (
+            <div className="flex flex-1 items-center gap-3" role="status">
+              <Progress value={(preview.progress.completed / preview.progress.total) * 100} className="h-2 flex-1" />
+              <span className="whitespace-nowrap text-sm text-muted-foreground">
+                Running step {preview.progress.completed + 1} of {preview.progress.total}…
+              </span>
+            </div>
+          )}
+          <Button onClick={handleRun} disabled={output === null}>
+            <Play className="mr-2 h-4 w-4" /> Run
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
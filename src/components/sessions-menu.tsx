@@ -0,0 +1,166 @@
+"use client";
+
+import { useState } from 'react';
+import { Archive, RotateCcw, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import {
+  deleteSnapshot,
+  listSnapshots,
+  loadSnapshot,
+  Session,
+  saveSnapshot,
+  SnapshotInfo,
+} from '@/lib/session-store';
+
+type SessionsMenuProps = {
+  /** The session as it is now, saved when the user takes a snapshot. */
+  session: Session;
+  onRestore: (session: Session, name: string) => void;
+};
+
+export function SessionsMenu({ session, onRestore }: SessionsMenuProps) {
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([]);
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const { toast } = useToast();
+
+  const showError = (error: unknown) => {
+    toast({
+      title: 'An error occurred',
+      description: error instanceof Error ? error.message : 'The snapshot could not be accessed.',
+      variant: 'destructive',
+    });
+  };
+
+  // Another tab may have saved snapshots, so the list is read each time the menu opens.
+  const refreshSnapshots = async () => {
+    try {
+      setSnapshots(await listSnapshots());
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    try {
+      await saveSnapshot(trimmed, session);
+      setSaveDialogOpen(false);
+      toast({ title: 'Snapshot saved', description: `"${trimmed}" can be restored from the Sessions menu.` });
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleRestore = async (snapshotName: string) => {
+    try {
+      onRestore(await loadSnapshot(snapshotName), snapshotName);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleDelete = async (snapshotName: string) => {
+    try {
+      await deleteSnapshot(snapshotName);
+      setSnapshots(prev => prev.filter(snapshot => snapshot.name !== snapshotName));
+      toast({ title: 'Snapshot deleted', description: `"${snapshotName}" was deleted.` });
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu onOpenChange={(open) => open && refreshSnapshots()}>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline">
+            <Archive className="mr-2 h-4 w-4" /> Sessions
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuItem
+            onSelect={() => {
+              setName(new Date().toLocaleString());
+              setSaveDialogOpen(true);
+            }}
+          >
+            <Save className="mr-2 h-4 w-4" /> Save snapshot…
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel>Snapshots</DropdownMenuLabel>
+          {snapshots.length === 0 && (
+            <DropdownMenuItem disabled>No saved snapshots</DropdownMenuItem>
+          )}
+          {snapshots.map(snapshot => (
+            <DropdownMenuSub key={snapshot.name}>
+              <DropdownMenuSubTrigger>
+                <span className="truncate">{snapshot.name}</span>
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                <DropdownMenuLabel className="font-normal text-xs text-muted-foreground">
+                  {snapshot.fileCount} {snapshot.fileCount === 1 ? 'file' : 'files'}, saved {new Date(snapshot.savedAt).toLocaleString()}
+                </DropdownMenuLabel>
+                <DropdownMenuItem onSelect={() => handleRestore(snapshot.name)}>
+                  <RotateCcw className="mr-2 h-4 w-4" /> Restore
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => handleDelete(snapshot.name)} className="text-destructive">
+                  <Trash2 className="mr-2 h-4 w-4" /> Delete
+                </DropdownMenuItem>
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={saveDialogOpen} onOpenChange={setSaveDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save snapshot</DialogTitle>
+            <DialogDescription>
+              Saves every open file with its history, and the editor settings. A snapshot with the same name is replaced.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="grid gap-2"
+            onSubmit={(event) => {
+              event.preventDefault();
+              handleSave();
+            }}
+          >
+            <Label htmlFor="snapshot-name">Name</Label>
+            <Input id="snapshot-name" value={name} onChange={(e) => setName(e.target.value)} autoFocus />
+            <DialogFooter className="mt-2">
+              <Button type="submit" disabled={!name.trim()}>
+                <Save className="mr-2 h-4 w-4" /> Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,207 @@
+"use client";
+
+import { useState } from 'react';
+import { ChevronRight, Download, FileBarChart, FileCode, FilePlus, Folder, MoreHorizontal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSub,
+} from '@/components/ui/sidebar';
+import { cn } from '@/lib/utils';
+import { buildFileTree, filesInNode, FileTreeNode, WorkspaceFile } from '@/lib/workspace';
+
+type WorkspaceSidebarProps = {
+  files: WorkspaceFile[];
+  activeFileId: string;
+  selectedFileIds: string[];
+  onOpenFile: (id: string) => void;
+  onSelectionChange: (ids: string[]) => void;
+  onNewFile: () => void;
+  /** Returns whether the file was renamed; a taken or empty path is refused. */
+  onRenameFile: (id: string, path: string) => boolean;
+  onCloseFile: (id: string) => void;
+  onDownloadZip: () => void;
+  /** Shows the report of the last transform run on several files, if there was one. */
+  onShowReport?: () => void;
+  className?: string;
+};
+
+type TreeProps = Omit<WorkspaceSidebarProps, 'files' | 'onNewFile' | 'onDownloadZip' | 'onShowReport' | 'className'> & {
+  nodes: FileTreeNode[];
+  canClose: boolean;
+};
+
+function FileTree({ nodes, ...props }: TreeProps) {
+  const { activeFileId, selectedFileIds, onOpenFile, onSelectionChange, onRenameFile, onCloseFile, canClose } = props;
+  const [renaming, setRenaming] = useState<{ id: string; path: string } | null>(null);
+
+  const setSelected = (ids: string[], selected: boolean) => {
+    const rest = selectedFileIds.filter(id => !ids.includes(id));
+    onSelectionChange(selected ? [...rest, ...ids] : rest);
+  };
+
+  const finishRename = () => {
+    if (renaming && onRenameFile(renaming.id, renaming.path)) setRenaming(null);
+  };
+
+  return (
+    <>
+      {nodes.map(node => {
+        const ids = filesInNode(node).map(file => file.id);
+        const selectedCount = ids.filter(id => selectedFileIds.includes(id)).length;
+        const checkbox = (
+          <Checkbox
+            aria-label={`Select ${node.name}`}
+            checked={selectedCount === ids.length ? true : selectedCount > 0 ? 'indeterminate' : false}
+            onCheckedChange={(checked) => setSelected(ids, checked === true)}
+            className="shrink-0"
+          />
+        );
+
+        if (node.kind === 'folder') {
+          return (
+            <Collapsible key={node.path} defaultOpen asChild className="group/folder">
+              <SidebarMenuItem>
+                <div className="flex items-center gap-1 pl-1">
+                  {checkbox}
+                  <CollapsibleTrigger asChild>
+                    <SidebarMenuButton>
+                      <ChevronRight className="transition-transform group-data-[state=open]/folder:rotate-90" />
+                      <Folder />
+                      <span>{node.name}</span>
+                    </SidebarMenuButton>
+                  </CollapsibleTrigger>
+                </div>
+                <CollapsibleContent>
+                  <SidebarMenuSub className="mr-0 pr-0">
+                    <FileTree nodes={node.children} {...props} />
+                  </SidebarMenuSub>
+                </CollapsibleContent>
+              </SidebarMenuItem>
+            </Collapsible>
+          );
+        }
+
+        const { file } = node;
+        if (renaming?.id === file.id) {
+          return (
+            <SidebarMenuItem key={file.id}>
+              <SidebarInput
+                autoFocus
+                aria-label="File path"
+                value={renaming.path}
+                onChange={(e) => setRenaming({ ...renaming, path: e.target.value })}
+                onBlur={() => {
+                  onRenameFile(renaming.id, renaming.path);
+                  setRenaming(null);
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') finishRename();
+                  if (e.key === 'Escape') setRenaming(null);
+                }}
+              />
+            </SidebarMenuItem>
+          );
+        }
+        return (
+          <SidebarMenuItem key={file.id}>
+            <div className="flex items-center gap-1 pl-1">
+              {checkbox}
+              <SidebarMenuButton
+                isActive={file.id === activeFileId}
+                onClick={() => onOpenFile(file.id)}
+                onDoubleClick={() => setRenaming({ id: file.id, path: file.path })}
+                title={file.path}
+              >
+                <FileCode />
+                <span>{node.name}</span>
+              </SidebarMenuButton>
+            </div>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <SidebarMenuAction showOnHover>
+                  <MoreHorizontal />
+                  <span className="sr-only">More</span>
+                </SidebarMenuAction>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent side="right" align="start">
+                <DropdownMenuItem onSelect={() => setRenaming({ id: file.id, path: file.path })}>Rename</DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => onCloseFile(file.id)} disabled={!canClose}>Close</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </SidebarMenuItem>
+        );
+      })}
+    </>
+  );
+}
+
+export function WorkspaceSidebar({ files, onNewFile, onDownloadZip, onShowReport, className, ...props }: WorkspaceSidebarProps) {
+  const tree = buildFileTree(files);
+  const { selectedFileIds, onSelectionChange } = props;
+
+  return (
+    <Sidebar collapsible="none" className={cn('rounded-lg border', className)}>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>Workspace</SidebarGroupLabel>
+          <SidebarGroupAction onClick={onNewFile} title="New file">
+            <FilePlus />
+            <span className="sr-only">New file</span>
+          </SidebarGroupAction>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              <FileTree nodes={tree} canClose={files.length > 1} {...props} />
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+      <SidebarFooter className="text-xs text-muted-foreground">
+        <div className="flex items-center justify-between">
+          <span>
+            {files.length} {files.length === 1 ? 'file' : 'files'}
+            {selectedFileIds.length > 0 && `, ${selectedFileIds.length} selected`}
+          </span>
+          {selectedFileIds.length > 0 ? (
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => onSelectionChange([])}>
+              Clear
+            </Button>
+          ) : (
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => onSelectionChange(files.map(file => file.id))}>
+              Select all
+            </Button>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" className="h-7 flex-1 text-xs" onClick={onDownloadZip}>
+            <Download className="mr-1 h-3 w-3" /> Download ZIP
+          </Button>
+          {onShowReport && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={onShowReport}>
+              <FileBarChart className="mr-1 h-3 w-3" /> Report
+            </Button>
+          )}
+        </div>
+      </SidebarFooter>
+    </Sidebar>
+  );
+}
@@ -0,0 +1,200 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { LuaDialect } from '@/lib/lua-dialect';
+import type { Analysis, AnalysisResult, Transform, TransformRequest, TransformResponse, TransformResult } from '@/lib/transforms';
+
+// Runs that finish sooner than this show no progress, so quick transforms don't flash a bar.
+const PROGRESS_DELAY = 300;
+// Typing pauses this long before the input is analyzed again.
+const ANALYSIS_DELAY = 150;
+
+export class TransformCancelledError extends Error {
+  constructor() {
+    super('The transform was cancelled.');
+    this.name = 'TransformCancelledError';
+  }
+}
+
+export type TransformProgress = {
+  operation: string;
+  completed: number;
+  total: number;
+};
+
+type TransformJob = {
+  transform: Transform;
+  /** The code of each file to transform. */
+  files: string[];
+  dialect: LuaDialect;
+  mapped?: boolean;
+};
+
+const createWorker = () => new Worker(new URL('../lib/transforms.worker.ts', import.meta.url));
+
+let requestCounter = 0;
+
+/**
+ * Runs transforms in a web worker, one at a time. Starting a run cancels the one in progress.
+ * @returns `run`, which resolves with one result per file and rejects with a
+ * `TransformCancelledError` when cancelled; `cancel`; and the progress of a slow run.
+ */
+export function useTransformWorker() {
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef<{ reject: (error: Error) => void; timeout: ReturnType<typeof setTimeout> } | null>(null);
+  const [progress, setProgress] = useState<TransformProgress | null>(null);
+  const [showProgress, setShowProgress] = useState(false);
+
+  const finish = useCallback(() => {
+    if (pendingRef.current) clearTimeout(pendingRef.current.timeout);
+    pendingRef.current = null;
+    setProgress(null);
+    setShowProgress(false);
+  }, []);
+
+  // The worker is busy with the run, so it is stopped and replaced.
+  const cancel = useCallback(() => {
+    const pending = pendingRef.current;
+    if (!pending) return;
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    finish();
+    pending.reject(new TransformCancelledError());
+  }, [finish]);
+
+  const run = useCallback((operation: string, { transform, files, dialect, mapped = false }: TransformJob) => {
+    cancel();
+    return new Promise<TransformResult[]>((resolve, reject) => {
+      const id = ++requestCounter;
+      const worker = (workerRef.current ??= createWorker());
+      pendingRef.current = { reject, timeout: setTimeout(() => setShowProgress(true), PROGRESS_DELAY) };
+      setProgress({ operation, completed: 0, total: files.length });
+      worker.onmessage = (event: MessageEvent<TransformResponse>) => {
+        const response = event.data;
+        if (response.id !== id) return;
+        if (response.type === 'progress') {
+          setProgress({ operation, completed: response.completed, total: response.total });
+        } else if (response.type === 'done') {
+          finish();
+          resolve(response.results);
+        }
+      };
+      worker.onerror = (event) => {
+        event.preventDefault();
+        workerRef.current?.terminate();
+        workerRef.current = null;
+        finish();
+        reject(new Error(event.message || 'The transform could not be run.'));
+      };
+      const request: TransformRequest = { type: 'transform', id, transform, files, dialect, mapped };
+      worker.postMessage(request);
+    });
+  }, [cancel, finish]);
+
+  useEffect(() => () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
+
+  return { run, cancel, progress: showProgress ? progress : null };
+}
+
+export type AnalysisState<A extends Analysis> = {
+  /** The last analysis that finished and its result, which may be for older code. */
+  latest: { analysis: A; result: AnalysisResult<A> } | null;
+  /** Whether the analysis asked for has not finished yet. */
+  pending: boolean;
+  /** How far a slow analysis has got, for those that report progress. */
+  progress: { completed: number; total: number } | null;
+};
+
+/**
+ * Keeps an analysis of the code being edited up to date in a web worker, since running it on every
+ * render would freeze the page on large files. Typing pauses before the code is analyzed again,
+ * and an analysis of older code still running is cancelled.
+ * @param analysis What to analyze, memoized by the caller; `null` stops analyzing.
+ * @returns The last result, which callers compare by `analysis` to tell whether it is current.
+ */
+export function useAnalysis<A extends Analysis>(analysis: A | null): AnalysisState<A> {
+  const workerRef = useRef<Worker | null>(null);
+  const pendingIdRef = useRef<number | null>(null);
+  const progressTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [latest, setLatest] = useState<AnalysisState<A>['latest']>(null);
+  const [failed, setFailed] = useState<A | null>(null);
+  const [progress, setProgress] = useState<AnalysisState<A>['progress']>(null);
+  const [showProgress, setShowProgress] = useState(false);
+
+  const finish = useCallback(() => {
+    if (progressTimeoutRef.current) clearTimeout(progressTimeoutRef.current);
+    progressTimeoutRef.current = null;
+    pendingIdRef.current = null;
+    setProgress(null);
+    setShowProgress(false);
+  }, []);
+
+  // The worker is busy with an analysis that is no longer wanted, so it is stopped and replaced.
+  const cancel = useCallback(() => {
+    if (pendingIdRef.current === null) return;
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    finish();
+  }, [finish]);
+
+  useEffect(() => {
+    if (!analysis) {
+      cancel();
+      return;
+    }
+    const timeout = setTimeout(() => {
+      cancel();
+      const id = ++requestCounter;
+      const worker = (workerRef.current ??= createWorker());
+      pendingIdRef.current = id;
+      progressTimeoutRef.current = setTimeout(() => setShowProgress(true), PROGRESS_DELAY);
+      worker.onmessage = (event: MessageEvent<TransformResponse>) => {
+        const response = event.data;
+        if (response.id !== id) return;
+        if (response.type === 'progress') {
+          setProgress({ completed: response.completed, total: response.total });
+        } else if (response.type === 'analysis') {
+          finish();
+          setLatest({ analysis, result: response.result as AnalysisResult<A> });
+        }
+      };
+      worker.onerror = (event) => {
+        event.preventDefault();
+        workerRef.current?.terminate();
+        workerRef.current = null;
+        finish();
+        setFailed(analysis);
+      };
+      const request: TransformRequest = { type: 'analyze', id, analysis };
+      worker.postMessage(request);
+    }, ANALYSIS_DELAY);
+    return () => clearTimeout(timeout);
+  }, [analysis, cancel, finish]);
+
+  useEffect(() => () => {
+    if (progressTimeoutRef.current) clearTimeout(progressTimeoutRef.current);
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    pendingIdRef.current = null;
+  }, []);
+
+  return {
+    latest,
+    pending: analysis !== null && latest?.analysis !== analysis && failed !== analysis,
+    progress: showProgress ? progress : null,
+  };
+}
+
+/**
+ * Finds out in a web worker whether code has comments.
+ * @param code The code to analyze.
+ * @param dialect The Lua dialect of the code.
+ * @returns Whether the code has comments, as of the last finished analysis, or `null` before the first.
+ */
+export function useHasComments(code: string, dialect: LuaDialect): boolean | null {
+  const analysis = useMemo(() => ({ kind: 'has-comments' as const, code, dialect }), [code, dialect]);
+  return useAnalysis(analysis).latest?.result ?? null;
+}
@@ -0,0 +1,31 @@
+export type CodeSavings = {
+  linesSaved: number;
+  /** In bytes of UTF-8. */
+  sizeSaved: number;
+};
+
+/**
+ * Measures how much shorter a transform made the code. Negative numbers mean it grew.
+ * @param input The code before the transform.
+ * @param output The code after the transform.
+ * @returns The lines and bytes saved.
+ */
+export function measureSavings(input: string, output: string): CodeSavings {
+  const linesBefore = input.split('\n').length;
+  const linesAfter = output.split('\n').length;
+  const sizeBefore = new Blob([input]).size;
+  const sizeAfter = new Blob([output]).size;
+  return {
+    linesSaved: linesBefore - linesAfter,
+    sizeSaved: sizeBefore - sizeAfter,
+  };
+}
+
+export function formatBytes(bytes: number, decimals = 2): string {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const dm = decimals < 0 ? 0 : decimals;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(Math.abs(bytes)) / Math.log(k));
+  return `${parseFloat((bytes / Math.pow(k, i)).toFixed(dm))} ${sizes[i]}`;
+}
@@ -0,0 +1,91 @@
+import { z } from 'zod';
+import { DEFAULT_FORMAT_OPTIONS, type FormatOptions } from './lua-formatter';
+
+export type FormatProfile = {
+  name: string;
+  options: FormatOptions;
+};
+
+const PROFILES_KEY = 'luaforge.formatProfiles';
+const ACTIVE_PROFILE_KEY = 'luaforge.activeFormatProfile';
+
+export const DEFAULT_PROFILE_NAME = 'Default';
+
+export const formatOptionsSchema = z.object({
+  indentType: z.enum(['tabs', 'spaces']),
+  indentWidth: z.number().int().min(1).max(16),
+  columnWidth: z.number().int().min(20).max(1000),
+  quoteStyle: z.enum(['autoPreferDouble', 'autoPreferSingle', 'forceDouble', 'forceSingle']),
+  callParentheses: z.enum(['always', 'noSingleString', 'noSingleTable', 'none', 'input']),
+  trailingSeparator: z.enum(['always', 'never', 'multiline']),
+  maxBlankLines: z.number().int().min(0).max(10),
+  lineEndings: z.enum(['unix', 'windows']),
+});
+
+// Missing options fall back to the defaults so that older or hand-written profiles still load.
+const profileSchema = z.object({
+  name: z.string().trim().min(1),
+  options: formatOptionsSchema.partial().transform(options => ({ ...DEFAULT_FORMAT_OPTIONS, ...options })),
+});
+
+/**
+ * Loads the saved formatter profiles from localStorage. The built-in default profile is always first.
+ * @returns The saved profiles.
+ */
+export function loadProfiles(): FormatProfile[] {
+  const defaults: FormatProfile = { name: DEFAULT_PROFILE_NAME, options: DEFAULT_FORMAT_OPTIONS };
+  try {
+    const stored = JSON.parse(localStorage.getItem(PROFILES_KEY) ?? '[]');
+    const profiles = z.array(profileSchema).parse(stored);
+    return [defaults, ...profiles.filter(profile => profile.name !== DEFAULT_PROFILE_NAME)];
+  } catch {
+    return [defaults];
+  }
+}
+
+/**
+ * Saves the user's profiles to localStorage. The built-in default profile is not stored.
+ * @param profiles All profiles, as returned by `loadProfiles`.
+ */
+export function saveProfiles(profiles: FormatProfile[]): void {
+  const custom = profiles.filter(profile => profile.name !== DEFAULT_PROFILE_NAME);
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(custom));
+}
+
+export function loadActiveProfileName(): string {
+  return localStorage.getItem(ACTIVE_PROFILE_KEY) ?? DEFAULT_PROFILE_NAME;
+}
+
+export function saveActiveProfileName(name: string): void {
+  localStorage.setItem(ACTIVE_PROFILE_KEY, name);
+}
+
+/**
+ * Parses an exported profile file.
+ * @param json The contents of the file.
+ * @returns The profile it describes.
+ * @throws {Error} When the file is not a valid profile.
+ */
+export function parseProfile(json: string): FormatProfile {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const result = profileSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid profile: ${issue.path.join('.') || 'root'} ${issue.message.toLowerCase()}.`);
+  }
+  return result.data;
+}
+
+/**
+ * Serializes a profile for export.
+ * @param profile The profile to export.
+ * @returns Pretty-printed JSON.
+ */
+export function serializeProfile(profile: FormatProfile): string {
+  return JSON.stringify(profile, null, 2);
+}
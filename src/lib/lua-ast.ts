@@ -0,0 +1,496 @@
+// Node types produced by the Lua parser (see `lua-parser.ts`).
+// Every node carries its source range and line/column location. Comments are attached to the
+// nearest node as leading, trailing or inner comments, and the full list is kept on the chunk.
+
+import type { SourceLocation, Token } from './lua-lexer';
+
+/** A comment token (`-- ...` or `--[[ ... ]]`). */
+export type Comment = Token;
+
+export interface BaseNode {
+  type: string;
+  /** Start (inclusive) and end (exclusive) offsets into the source. */
+  range: [number, number];
+  loc: SourceLocation;
+  /** Comments on the lines before the node, or directly before it on the same line. */
+  leadingComments?: Comment[];
+  /** Comments after the node, before the next node. */
+  trailingComments?: Comment[];
+  /** Comments inside a node that has no children to attach them to, e.g. an empty block or table. */
+  innerComments?: Comment[];
+}
+
+// ---------------------------------------------------------------------------
+// Program structure
+// ---------------------------------------------------------------------------
+
+export interface Chunk extends BaseNode {
+  type: 'Chunk';
+  body: Block;
+  /** Every comment in the source, in order. */
+  comments: Comment[];
+  /** The `#!...` line, if the source starts with one. */
+  shebang?: Token;
+}
+
+export interface Block extends BaseNode {
+  type: 'Block';
+  body: Statement[];
+}
+
+// ---------------------------------------------------------------------------
+// Statements
+// ---------------------------------------------------------------------------
+
+export type Statement =
+  | LocalStatement
+  | AssignmentStatement
+  | CallStatement
+  | DoStatement
+  | WhileStatement
+  | RepeatStatement
+  | IfStatement
+  | NumericForStatement
+  | GenericForStatement
+  | FunctionStatement
+  | LocalFunctionStatement
+  | ReturnStatement
+  | BreakStatement
+  | GotoStatement
+  | LabelStatement
+  | EmptyStatement
+  | ContinueStatement
+  | CompoundAssignmentStatement
+  | TypeAliasStatement;
+
+export interface LocalStatement extends BaseNode {
+  type: 'LocalStatement';
+  variables: Identifier[];
+  init: Expression[];
+}
+
+export interface AssignmentStatement extends BaseNode {
+  type: 'AssignmentStatement';
+  targets: AssignmentTarget[];
+  init: Expression[];
+}
+
+export type AssignmentTarget = Identifier | MemberExpression | IndexExpression;
+
+export interface CallStatement extends BaseNode {
+  type: 'CallStatement';
+  expression: CallExpression;
+}
+
+export interface DoStatement extends BaseNode {
+  type: 'DoStatement';
+  body: Block;
+}
+
+export interface WhileStatement extends BaseNode {
+  type: 'WhileStatement';
+  condition: Expression;
+  body: Block;
+}
+
+export interface RepeatStatement extends BaseNode {
+  type: 'RepeatStatement';
+  body: Block;
+  condition: Expression;
+}
+
+export interface IfStatement extends BaseNode {
+  type: 'IfStatement';
+  clauses: IfClause[];
+}
+
+export interface IfClause extends BaseNode {
+  type: 'IfClause';
+  kind: 'if' | 'elseif' | 'else';
+  /** Absent for the `else` clause. */
+  condition?: Expression;
+  body: Block;
+}
+
+export interface NumericForStatement extends BaseNode {
+  type: 'NumericForStatement';
+  variable: Identifier;
+  start: Expression;
+  end: Expression;
+  step?: Expression;
+  body: Block;
+}
+
+export interface GenericForStatement extends BaseNode {
+  type: 'GenericForStatement';
+  variables: Identifier[];
+  iterators: Expression[];
+  body: Block;
+}
+
+/** Parameters and body shared by every kind of function. */
+export interface FunctionBody {
+  parameters: Identifier[];
+  /** Whether the parameter list ends with `...`. */
+  isVararg: boolean;
+  body: Block;
+  /** Luau: the generic parameters, e.g. `<T, U...>`. */
+  typeParameters?: TypeAnnotation;
+  /** Luau: the type of `...`. */
+  varargAnnotation?: TypeAnnotation;
+  /** Luau: the declared return type. */
+  returnType?: TypeAnnotation;
+}
+
+export interface FunctionStatement extends BaseNode, FunctionBody {
+  type: 'FunctionStatement';
+  name: FunctionName;
+}
+
+/** The `a.b.c:d` part of `function a.b.c:d() end`. */
+export interface FunctionName extends BaseNode {
+  type: 'FunctionName';
+  base: Identifier;
+  path: Identifier[];
+  method?: Identifier;
+}
+
+export interface LocalFunctionStatement extends BaseNode, FunctionBody {
+  type: 'LocalFunctionStatement';
+  name: Identifier;
+}
+
+export interface ReturnStatement extends BaseNode {
+  type: 'ReturnStatement';
+  arguments: Expression[];
+}
+
+export interface BreakStatement extends BaseNode {
+  type: 'BreakStatement';
+}
+
+export interface GotoStatement extends BaseNode {
+  type: 'GotoStatement';
+  label: Identifier;
+}
+
+export interface LabelStatement extends BaseNode {
+  type: 'LabelStatement';
+  label: Identifier;
+}
+
+/** A lone `;`. */
+export interface EmptyStatement extends BaseNode {
+  type: 'EmptyStatement';
+}
+
+// ---------------------------------------------------------------------------
+// Luau
+// ---------------------------------------------------------------------------
+
+export interface ContinueStatement extends BaseNode {
+  type: 'ContinueStatement';
+}
+
+export type CompoundOperator = '+' | '-' | '*' | '/' | '//' | '%' | '^' | '..';
+
+/** `target op= value`, e.g. `count += 1`. */
+export interface CompoundAssignmentStatement extends BaseNode {
+  type: 'CompoundAssignmentStatement';
+  operator: CompoundOperator;
+  target: AssignmentTarget;
+  value: Expression;
+}
+
+/** `[export] type Name<T> = Type` */
+export interface TypeAliasStatement extends BaseNode {
+  type: 'TypeAliasStatement';
+  exported: boolean;
+  name: Identifier;
+  typeParameters?: TypeAnnotation;
+  value: TypeAnnotation;
+}
+
+/**
+ * A Luau type, kept as the source text with its whitespace collapsed. Types have no effect at
+ * runtime, so they are not part of `getChildren`.
+ */
+export interface TypeAnnotation extends BaseNode {
+  type: 'TypeAnnotation';
+  text: string;
+}
+
+/** `if a then b elseif c then d else e` */
+export interface IfExpression extends BaseNode {
+  type: 'IfExpression';
+  /** The `if` and `elseif` conditions, each paired with the value at the same index. */
+  conditions: Expression[];
+  values: Expression[];
+  alternate: Expression;
+}
+
+/** `` `text {expression} text` `` */
+export interface InterpolatedString extends BaseNode {
+  type: 'InterpolatedString';
+  /** The string pieces as written, delimiters included; one more than `expressions`. */
+  raw: string[];
+  /** The decoded text of each piece. See `decodeString`. */
+  strings: string[];
+  expressions: Expression[];
+}
+
+/** `expression :: Type` */
+export interface TypeCastExpression extends BaseNode {
+  type: 'TypeCastExpression';
+  expression: Expression;
+  annotation: TypeAnnotation;
+}
+
+// ---------------------------------------------------------------------------
+// Expressions
+// ---------------------------------------------------------------------------
+
+export type Expression =
+  | Identifier
+  | NilLiteral
+  | BooleanLiteral
+  | NumericLiteral
+  | StringLiteral
+  | VarargLiteral
+  | FunctionExpression
+  | TableConstructor
+  | BinaryExpression
+  | UnaryExpression
+  | ParenthesizedExpression
+  | MemberExpression
+  | IndexExpression
+  | CallExpression
+  | IfExpression
+  | InterpolatedString
+  | TypeCastExpression;
+
+export interface Identifier extends BaseNode {
+  type: 'Identifier';
+  name: string;
+  /** The `<const>` / `<close>` attribute of a local variable (Lua 5.4). */
+  attribute?: string;
+  /** Luau: the declared type of a local, parameter or loop variable. */
+  typeAnnotation?: TypeAnnotation;
+}
+
+export interface NilLiteral extends BaseNode {
+  type: 'NilLiteral';
+}
+
+export interface BooleanLiteral extends BaseNode {
+  type: 'BooleanLiteral';
+  value: boolean;
+}
+
+export interface NumericLiteral extends BaseNode {
+  type: 'NumericLiteral';
+  /** The number as written in the source. */
+  raw: string;
+  value: number;
+}
+
+export interface StringLiteral extends BaseNode {
+  type: 'StringLiteral';
+  /** The string as written in the source, including quotes or long brackets. */
+  raw: string;
+  /** The decoded contents as a byte string (one char per byte). See `decodeString`. */
+  value: string;
+}
+
+export interface VarargLiteral extends BaseNode {
+  type: 'VarargLiteral';
+}
+
+export interface FunctionExpression extends BaseNode, FunctionBody {
+  type: 'FunctionExpression';
+}
+
+export interface TableConstructor extends BaseNode {
+  type: 'TableConstructor';
+  fields: TableField[];
+}
+
+export type TableField = TableKeyField | TableNameField | TableValueField;
+
+/** `[key] = value` */
+export interface TableKeyField extends BaseNode {
+  type: 'TableKeyField';
+  key: Expression;
+  value: Expression;
+}
+
+/** `name = value` */
+export interface TableNameField extends BaseNode {
+  type: 'TableNameField';
+  key: Identifier;
+  value: Expression;
+}
+
+/** A positional `value`. */
+export interface TableValueField extends BaseNode {
+  type: 'TableValueField';
+  value: Expression;
+}
+
+export type BinaryOperator =
+  | 'or' | 'and'
+  | '<' | '>' | '<=' | '>=' | '~=' | '=='
+  | '|' | '~' | '&' | '<<' | '>>'
+  | '..'
+  | '+' | '-' | '*' | '/' | '//' | '%'
+  | '^';
+
+export type UnaryOperator = 'not' | '#' | '-' | '~';
+
+export interface BinaryExpression extends BaseNode {
+  type: 'BinaryExpression';
+  operator: BinaryOperator;
+  left: Expression;
+  right: Expression;
+}
+
+export interface UnaryExpression extends BaseNode {
+  type: 'UnaryExpression';
+  operator: UnaryOperator;
+  argument: Expression;
+}
+
+/** `(expression)`, which also truncates multiple results to one. */
+export interface ParenthesizedExpression extends BaseNode {
+  type: 'ParenthesizedExpression';
+  expression: Expression;
+}
+
+/** `base.identifier` */
+export interface MemberExpression extends BaseNode {
+  type: 'MemberExpression';
+  base: Expression;
+  identifier: Identifier;
+}
+
+/** `base[index]` */
+export interface IndexExpression extends BaseNode {
+  type: 'IndexExpression';
+  base: Expression;
+  index: Expression;
+}
+
+/** `base(args)`, `base "str"`, `base {…}` or, with `method`, `base:method(args)`. */
+export interface CallExpression extends BaseNode {
+  type: 'CallExpression';
+  base: Expression;
+  method?: Identifier;
+  arguments: Expression[];
+  /** How the arguments were written in the source. */
+  argumentStyle: 'parentheses' | 'string' | 'table';
+}
+
+export type Node =
+  | Chunk
+  | Block
+  | Statement
+  | IfClause
+  | FunctionName
+  | Expression
+  | TableField
+  | TypeAnnotation;
+
+/**
+ * Returns the direct child nodes of a node, in source order.
+ * @param node Any AST node.
+ * @returns The node's children.
+ */
+export function getChildren(node: Node): Node[] {
+  switch (node.type) {
+    case 'Chunk':
+      return [node.body];
+    case 'Block':
+      return node.body;
+    case 'LocalStatement':
+      return [...node.variables, ...node.init];
+    case 'AssignmentStatement':
+      return [...node.targets, ...node.init];
+    case 'CallStatement':
+      return [node.expression];
+    case 'DoStatement':
+      return [node.body];
+    case 'WhileStatement':
+      return [node.condition, node.body];
+    case 'RepeatStatement':
+      return [node.body, node.condition];
+    case 'IfStatement':
+      return node.clauses;
+    case 'IfClause':
+      return node.condition ? [node.condition, node.body] : [node.body];
+    case 'NumericForStatement':
+      return [node.variable, node.start, node.end, ...(node.step ? [node.step] : []), node.body];
+    case 'GenericForStatement':
+      return [...node.variables, ...node.iterators, node.body];
+    case 'FunctionStatement':
+      return [node.name, ...node.parameters, node.body];
+    case 'FunctionName':
+      return [node.base, ...node.path, ...(node.method ? [node.method] : [])];
+    case 'LocalFunctionStatement':
+      return [node.name, ...node.parameters, node.body];
+    case 'ReturnStatement':
+      return node.arguments;
+    case 'GotoStatement':
+    case 'LabelStatement':
+      return [node.label];
+    case 'FunctionExpression':
+      return [...node.parameters, node.body];
+    case 'TableConstructor':
+      return node.fields;
+    case 'TableKeyField':
+    case 'TableNameField':
+      return [node.key, node.value];
+    case 'TableValueField':
+      return [node.value];
+    case 'BinaryExpression':
+      return [node.left, node.right];
+    case 'UnaryExpression':
+      return [node.argument];
+    case 'ParenthesizedExpression':
+      return [node.expression];
+    case 'MemberExpression':
+      return [node.base, node.identifier];
+    case 'IndexExpression':
+      return [node.base, node.index];
+    case 'CallExpression':
+      return [node.base, ...(node.method ? [node.method] : []), ...node.arguments];
+    case 'CompoundAssignmentStatement':
+      return [node.target, node.value];
+    case 'TypeAliasStatement':
+      return [node.name];
+    case 'IfExpression':
+      return [...node.conditions.flatMap((condition, i) => [condition, node.values[i]]), node.alternate];
+    case 'InterpolatedString':
+      return node.expressions;
+    case 'TypeCastExpression':
+      return [node.expression];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Walks the tree depth-first, calling `enter` before a node's children and `leave` after them.
+ * Returning `false` from `enter` skips the node's children.
+ */
+export function walk(
+  node: Node,
+  enter: (node: Node, parent: Node | null) => boolean | void,
+  leave?: (node: Node, parent: Node | null) => void,
+  parent: Node | null = null,
+): void {
+  if (enter(node, parent) === false) return;
+  for (const child of getChildren(node)) {
+    walk(child, enter, leave, node);
+  }
+  leave?.(node, parent);
+}
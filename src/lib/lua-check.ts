@@ -0,0 +1,91 @@
+// Guards the comment and whitespace transforms: their output must still parse and must contain
+// exactly the same code tokens as their input. A transform that eats an operator or splits a
+// string is caught here instead of being handed to the user.
+
+import { DEFAULT_DIALECT, type LuaDialect } from './lua-dialect';
+import { decodeString, LuaSyntaxError, tokenize, type Position, type Token } from './lua-lexer';
+import { parse } from './lua-parser';
+
+export interface TransformDiagnostic {
+  /** A description that includes the location. */
+  message: string;
+  /** Where the problem is in the output. */
+  position: Position;
+}
+
+// Strings are compared by their contents, so re-quoting or re-bracketing a string is allowed.
+function sameToken(a: Token, b: Token): boolean {
+  if (a.type !== b.type) return false;
+  if (a.type === 'string' || a.type === 'interpolation') return decodeString(a.value) === decodeString(b.value);
+  return a.value === b.value;
+}
+
+function describe(token: Token | undefined): string {
+  if (!token || token.type === 'eof') return 'the end of the code';
+  return `'${token.value.length > 40 ? token.value.slice(0, 40) + '…' : token.value}'`;
+}
+
+function syntaxDiagnostic(error: unknown): TransformDiagnostic {
+  if (error instanceof LuaSyntaxError) {
+    return {
+      message: `The result is not valid Lua: ${error.message}`,
+      position: { line: error.line, column: error.column },
+    };
+  }
+  throw error;
+}
+
+/**
+ * Checks that a transform which only removes comments or changes whitespace kept the code intact.
+ * Input that cannot be lexed is not checked; output only has to parse when the input did.
+ * @param input The code before the transform.
+ * @param output The code after the transform.
+ * @param dialect The Lua dialect of both.
+ * @returns `null` when the output is safe to use, otherwise what went wrong and where.
+ */
+export function checkTransformOutput(
+  input: string,
+  output: string,
+  dialect: LuaDialect = DEFAULT_DIALECT,
+): TransformDiagnostic | null {
+  let inputTokens: Token[];
+  try {
+    inputTokens = tokenize(input, dialect);
+  } catch {
+    return null;
+  }
+
+  let outputTokens: Token[];
+  try {
+    outputTokens = tokenize(output, dialect);
+  } catch (e) {
+    return syntaxDiagnostic(e);
+  }
+
+  let inputParses = true;
+  try {
+    parse(input, dialect);
+  } catch {
+    inputParses = false;
+  }
+  if (inputParses) {
+    try {
+      parse(output, dialect);
+    } catch (e) {
+      return syntaxDiagnostic(e);
+    }
+  }
+
+  const expected = inputTokens.filter(token => token.type !== 'comment');
+  const actual = outputTokens.filter(token => token.type !== 'comment');
+  for (let i = 0; i < expected.length; i++) {
+    if (actual[i] && sameToken(expected[i], actual[i])) continue;
+    const found = actual[i] ?? actual[actual.length - 1];
+    return {
+      message: `The result changes the code at line ${found.loc.start.line}, column ${found.loc.start.column + 1}: `
+        + `expected ${describe(expected[i])} (input line ${expected[i].loc.start.line}) but found ${describe(actual[i])}.`,
+      position: found.loc.start,
+    };
+  }
+  return null;
+}
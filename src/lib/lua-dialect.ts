@@ -0,0 +1,92 @@
+// The Lua dialects LuaForge understands and the syntax each of them adds or removes.
+// The lexer and parser consult these flags, so every operation built on them follows the
+// dialect the user picked.
+
+export type LuaDialect = 'lua51' | 'lua52' | 'lua53' | 'lua54' | 'luajit' | 'luau';
+
+export interface DialectFeatures {
+  /** `goto name` and `::label::` (5.2+, LuaJIT). */
+  goto: boolean;
+  /** A `;` on its own; before 5.2 a `;` may only end a statement. */
+  emptyStatements: boolean;
+  /** Floor division `//` (5.3+, Luau). */
+  floorDivision: boolean;
+  /** The bitwise operators `& | ~ << >>` (5.3+). */
+  bitwiseOperators: boolean;
+  /** Integers and floats as distinct number subtypes, so `1` and `1.0` print differently (5.3+). */
+  integers: boolean;
+  /** `local x <const>` and `<close>` (5.4). */
+  attributes: boolean;
+  /** `0b1010` binary literals (LuaJIT 2.1, Luau). */
+  binaryNumbers: boolean;
+  /** `1_000_000` digit separators (Luau). */
+  numberSeparators: boolean;
+  /** `123LL`, `123ULL` and `12i` number suffixes (LuaJIT). */
+  numberSuffixes: boolean;
+  /** Luau's `continue`, compound assignment, if-expressions, `` `interpolated {strings}` `` and type annotations. */
+  luau: boolean;
+}
+
+export interface DialectInfo {
+  label: string;
+  keywords: ReadonlySet<string>;
+  features: DialectFeatures;
+}
+
+const LUA51_KEYWORDS = [
+  'and', 'break', 'do', 'else', 'elseif', 'end', 'false', 'for', 'function', 'if',
+  'in', 'local', 'nil', 'not', 'or', 'repeat', 'return', 'then', 'true', 'until', 'while',
+];
+
+const BASE_FEATURES: DialectFeatures = {
+  goto: false,
+  emptyStatements: true,
+  floorDivision: false,
+  bitwiseOperators: false,
+  integers: false,
+  attributes: false,
+  binaryNumbers: false,
+  numberSeparators: false,
+  numberSuffixes: false,
+  luau: false,
+};
+
+export const DIALECTS: Record<LuaDialect, DialectInfo> = {
+  lua51: {
+    label: 'Lua 5.1',
+    keywords: new Set(LUA51_KEYWORDS),
+    features: { ...BASE_FEATURES, emptyStatements: false },
+  },
+  lua52: {
+    label: 'Lua 5.2',
+    keywords: new Set([...LUA51_KEYWORDS, 'goto']),
+    features: { ...BASE_FEATURES, goto: true },
+  },
+  lua53: {
+    label: 'Lua 5.3',
+    keywords: new Set([...LUA51_KEYWORDS, 'goto']),
+    features: { ...BASE_FEATURES, goto: true, floorDivision: true, bitwiseOperators: true, integers: true },
+  },
+  lua54: {
+    label: 'Lua 5.4',
+    keywords: new Set([...LUA51_KEYWORDS, 'goto']),
+    features: { ...BASE_FEATURES, goto: true, floorDivision: true, bitwiseOperators: true, integers: true, attributes: true },
+  },
+  luajit: {
+    label: 'LuaJIT',
+    keywords: new Set([...LUA51_KEYWORDS, 'goto']),
+    features: { ...BASE_FEATURES, goto: true, binaryNumbers: true, numberSuffixes: true },
+  },
+  luau: {
+    label: 'Luau',
+    // `continue`, `type` and `export` are contextual in Luau and stay valid names.
+    keywords: new Set(LUA51_KEYWORDS),
+    features: { ...BASE_FEATURES, floorDivision: true, binaryNumbers: true, numberSeparators: true, luau: true },
+  },
+};
+
+export const DEFAULT_DIALECT: LuaDialect = 'lua54';
+
+export function isLuaDialect(value: string): value is LuaDialect {
+  return Object.prototype.hasOwnProperty.call(DIALECTS, value);
+}
@@ -0,0 +1,50 @@
+// Comments that configure LuaForge from inside the code, e.g.
+//   -- luaforge-disable-next-line unused-variable, shadowed-local
+// Without rule names a directive applies to every rule. Text after ` -- ` is a free-form reason.
+
+import type { Token } from './lua-lexer';
+
+export type DirectiveKind = 'disable-next-line' | 'disable-line' | 'disable' | 'enable';
+
+export interface Directive {
+  kind: DirectiveKind;
+  /** The rules the directive applies to; empty for all rules. */
+  rules: string[];
+  /** The line the comment starts on. */
+  line: number;
+  /** The line the comment ends on; `disable-next-line` applies to the line after it. */
+  endLine: number;
+  /** The offset of the comment, which orders `disable` and `enable`. */
+  offset: number;
+}
+
+const DIRECTIVE = /^\s*luaforge-(disable-next-line|disable-line|disable|enable)(?=\s|$)([\s\S]*)/;
+
+// The text of a comment without `--` and, for block comments, the brackets.
+function commentBody(comment: Token): string {
+  const text = comment.value.slice(2);
+  if (comment.level === undefined) return text;
+  return text.slice(comment.level + 2, text.length - comment.level - 2);
+}
+
+/**
+ * Reads a LuaForge directive from a comment token.
+ * @param comment A token of type `comment`.
+ * @returns The directive, or `null` for an ordinary comment.
+ */
+export function parseDirective(comment: Token): Directive | null {
+  const match = DIRECTIVE.exec(commentBody(comment));
+  if (!match) return null;
+  const rules = match[2].split(/\s--\s/)[0].split(/[\s,]+/).filter(Boolean);
+  return {
+    kind: match[1] as DirectiveKind,
+    rules,
+    line: comment.loc.start.line,
+    endLine: comment.loc.end.line,
+    offset: comment.range[0],
+  };
+}
+
+export function isDirectiveComment(comment: Token): boolean {
+  return parseDirective(comment) !== null;
+}
@@ -0,0 +1,196 @@
+// A small document IR and line-fitting printer in the style of Wadler's "prettier printer".
+// The formatter describes code as nested groups of text and line breaks; the printer then
+// decides, group by group, whether it fits on the current line or has to be broken up.
+
+export type Doc = string | Doc[] | DocCommand;
+
+type DocCommand =
+  | { kind: 'line'; mode: 'line' | 'soft' | 'hard' }
+  | { kind: 'indent'; contents: Doc }
+  | { kind: 'group'; contents: Doc }
+  | { kind: 'ifBreak'; breakContents: Doc; flatContents: Doc }
+  | { kind: 'breakParent' };
+
+type Group = Extract<DocCommand, { kind: 'group' }>;
+
+/** A space when its group fits on one line, otherwise a line break. */
+export const line: Doc = { kind: 'line', mode: 'line' };
+/** Nothing when its group fits on one line, otherwise a line break. */
+export const softline: Doc = { kind: 'line', mode: 'soft' };
+/** Always a line break; also breaks every enclosing group. */
+export const hardline: Doc = { kind: 'line', mode: 'hard' };
+/** Forces the enclosing groups to break without printing anything. */
+export const breakParent: Doc = { kind: 'breakParent' };
+
+export function indent(contents: Doc): Doc {
+  return { kind: 'indent', contents };
+}
+
+export function group(contents: Doc): Doc {
+  return { kind: 'group', contents };
+}
+
+/** Prints `breakContents` if the enclosing group is broken, `flatContents` otherwise. */
+export function ifBreak(breakContents: Doc, flatContents: Doc = ''): Doc {
+  return { kind: 'ifBreak', breakContents, flatContents };
+}
+
+export function join(separator: Doc, docs: Doc[]): Doc[] {
+  const result: Doc[] = [];
+  docs.forEach((doc, index) => {
+    if (index > 0) result.push(separator);
+    result.push(doc);
+  });
+  return result;
+}
+
+export interface DocPrintOptions {
+  /** Maximum line width the printer tries to respect. */
+  width: number;
+  /** The text used for one level of indentation, e.g. '\t' or '    '. */
+  indentUnit: string;
+  /** How many columns one level of indentation counts for. */
+  indentWidth: number;
+}
+
+type Mode = 'break' | 'flat';
+type Command = { indent: number; mode: Mode; doc: Doc };
+
+// Finds the groups that must break because they contain a hard line break.
+function findBrokenGroups(doc: Doc): Set<Group> {
+  const broken = new Set<Group>();
+  const visit = (doc: Doc, groups: Group[]): boolean => {
+    if (typeof doc === 'string') return false;
+    if (Array.isArray(doc)) {
+      let found = false;
+      for (const part of doc) {
+        found = visit(part, groups) || found;
+      }
+      return found;
+    }
+    switch (doc.kind) {
+      case 'line':
+        if (doc.mode !== 'hard') return false;
+        groups.forEach(group => broken.add(group));
+        return true;
+      case 'breakParent':
+        groups.forEach(group => broken.add(group));
+        return true;
+      case 'indent':
+        return visit(doc.contents, groups);
+      case 'group':
+        return visit(doc.contents, [...groups, doc]);
+      case 'ifBreak':
+        return visit(doc.breakContents, groups) || visit(doc.flatContents, groups);
+    }
+  };
+  visit(doc, []);
+  return broken;
+}
+
+/**
+ * Lays out a document, breaking groups that do not fit within the configured width.
+ * @param doc The document to print.
+ * @param options Width and indentation settings.
+ * @returns The printed text. Trailing whitespace is removed from every line.
+ */
+export function printDoc(doc: Doc, options: DocPrintOptions): string {
+  const broken = findBrokenGroups(doc);
+  const out: string[] = [];
+  let column = 0;
+
+  // Whether the command, followed by the rest of the current line, fits in `width` columns.
+  const fits = (next: Command, rest: Command[], width: number): boolean => {
+    const commands: Array<{ mode: Mode; doc: Doc }> = [next];
+    let restIndex = rest.length - 1;
+    while (width >= 0) {
+      const command = commands.pop();
+      if (!command) {
+        if (restIndex < 0) return true;
+        commands.push(rest[restIndex--]);
+        continue;
+      }
+      const { mode, doc } = command;
+      if (typeof doc === 'string') {
+        const newline = doc.indexOf('\n');
+        if (newline !== -1) {
+          return width - newline >= 0;
+        }
+        width -= doc.length;
+      } else if (Array.isArray(doc)) {
+        for (let i = doc.length - 1; i >= 0; i--) {
+          commands.push({ mode, doc: doc[i] });
+        }
+      } else {
+        switch (doc.kind) {
+          case 'indent':
+            commands.push({ mode, doc: doc.contents });
+            break;
+          case 'group':
+            commands.push({ mode: broken.has(doc) ? 'break' : mode, doc: doc.contents });
+            break;
+          case 'ifBreak':
+            commands.push({ mode, doc: mode === 'break' ? doc.breakContents : doc.flatContents });
+            break;
+          case 'line':
+            if (mode === 'break' || doc.mode === 'hard') return true;
+            width -= doc.mode === 'line' ? 1 : 0;
+            break;
+          case 'breakParent':
+            break;
+        }
+      }
+    }
+    return false;
+  };
+
+  const stack: Command[] = [{ indent: 0, mode: 'break', doc }];
+  while (stack.length > 0) {
+    const { indent, mode, doc } = stack.pop()!;
+    if (typeof doc === 'string') {
+      out.push(doc);
+      const newline = doc.lastIndexOf('\n');
+      column = newline === -1 ? column + doc.length : doc.length - newline - 1;
+    } else if (Array.isArray(doc)) {
+      for (let i = doc.length - 1; i >= 0; i--) {
+        stack.push({ indent, mode, doc: doc[i] });
+      }
+    } else {
+      switch (doc.kind) {
+        case 'indent':
+          stack.push({ indent: indent + 1, mode, doc: doc.contents });
+          break;
+        case 'group': {
+          const flat: Command = { indent, mode: 'flat', doc: doc.contents };
+          if (mode === 'flat' || (!broken.has(doc) && fits(flat, stack, options.width - column))) {
+            stack.push(flat);
+          } else {
+            stack.push({ indent, mode: 'break', doc: doc.contents });
+          }
+          break;
+        }
+        case 'ifBreak':
+          stack.push({ indent, mode, doc: mode === 'break' ? doc.breakContents : doc.flatContents });
+          break;
+        case 'line':
+          if (mode === 'flat' && doc.mode !== 'hard') {
+            if (doc.mode === 'line') {
+              out.push(' ');
+              column++;
+            }
+          } else {
+            // Drop trailing whitespace before starting the new line.
+            while (out.length > 0 && /^[ \t]*$/.test(out[out.length - 1])) out.pop();
+            if (out.length > 0) out[out.length - 1] = out[out.length - 1].replace(/[ \t]+$/, '');
+            out.push('\n' + options.indentUnit.repeat(indent));
+            column = indent * options.indentWidth;
+          }
+          break;
+        case 'breakParent':
+          break;
+      }
+    }
+  }
+
+  return out.join('');
+}
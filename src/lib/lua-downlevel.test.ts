@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { luauToLua51, stripTypes } from './lua-downlevel';
+
+describe('luauToLua51', () => {
+  it('reaches math.floor and tostring through aliases when a local hides them', () => {
+    expect(luauToLua51('local math = {}\nprint(7 // 2)')).toBe(
+      'local __floor = math.floor local math = {}\nprint(__floor(7 / 2))',
+    );
+    expect(luauToLua51('#!/usr/bin/env lua\nlocal function f(tostring) return `{tostring}!` end')).toBe(
+      '#!/usr/bin/env lua\nlocal __tostring = tostring local function f(tostring) return (__tostring(tostring) .. "!") end',
+    );
+    expect(luauToLua51('local x = 7 // 2')).toBe('local x = math.floor(7 / 2)');
+  });
+});
+
+describe('luauToLua51 rewrites', () => {
+  it('lowers compound assignment, continue, if-expressions and Luau numbers', () => {
+    const code = [
+      'local t = {}',
+      't.x += 1',
+      'for i = 1, 3 do if i == 2 then continue end print(i) end',
+      'local s = if t.x > 1 then "a" else "b"',
+      'local n = 0b101 + 1_000',
+    ].join('\n');
+    expect(luauToLua51(code)).toBe([
+      'local t = {}',
+      't.x = t.x + 1',
+      'for i = 1, 3 do repeat if i == 2 then do break end end print(i) until true end',
+      'local s = ((t.x > 1) and "a" or "b")',
+      'local n = 5 + 1000',
+    ].join('\n'));
+  });
+
+  it('refuses a continue whose repeat condition uses a local of the loop body', () => {
+    expect(() => luauToLua51('repeat local done = true if x then continue end until done')).toThrow(
+      "the 'until' condition",
+    );
+  });
+});
+
+describe('stripTypes', () => {
+  it('removes annotations, type declarations and casts', () => {
+    expect(stripTypes('type P = {x: number}\nlocal function f(a: number): string return tostring(a :: any) end')).toBe(
+      '\nlocal function f(a) return tostring(a) end',
+    );
+  });
+});
@@ -0,0 +1,388 @@
+// Turns Luau into code that runs on a plain Lua 5.1 interpreter. Type annotations, type
+// declarations and casts are removed, and Luau-only syntax is rewritten in place: everything
+// else, comments and layout included, is left exactly as written.
+
+import {
+  getChildren,
+  type AssignmentTarget,
+  type Block,
+  type Expression,
+  type FunctionBody,
+  type IfExpression,
+  type InterpolatedString,
+  type Node,
+  type Statement,
+  type TypeAnnotation,
+} from './lua-ast';
+import { tokenize } from './lua-lexer';
+import { parse } from './lua-parser';
+import { analyzeScopes } from './lua-scope';
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+type Loop = Extract<Statement, { type: 'WhileStatement' | 'RepeatStatement' | 'NumericForStatement' | 'GenericForStatement' }>;
+
+// Expressions that can be used as an operand without parentheses.
+const ATOMIC_EXPRESSIONS: ReadonlySet<Node['type']> = new Set([
+  'Identifier', 'NilLiteral', 'BooleanLiteral', 'NumericLiteral', 'StringLiteral', 'VarargLiteral',
+  'FunctionExpression', 'TableConstructor', 'ParenthesizedExpression', 'MemberExpression',
+  'IndexExpression', 'CallExpression', 'InterpolatedString',
+]);
+
+// Values that are never `nil` or `false`, so `c and v or w` picks `v` whenever `c` holds.
+const TRUTHY_EXPRESSIONS: ReadonlySet<Node['type']> = new Set([
+  'NumericLiteral', 'StringLiteral', 'FunctionExpression', 'TableConstructor', 'InterpolatedString',
+]);
+
+function isLoop(node: Node): node is Loop {
+  return node.type === 'WhileStatement' || node.type === 'RepeatStatement'
+    || node.type === 'NumericForStatement' || node.type === 'GenericForStatement';
+}
+
+// Calls `visit` for every node below `node` that is not inside a nested function, or a nested
+// loop when `skipLoops` is set.
+function walkBody(node: Node, visit: (node: Node) => void, skipLoops: boolean): void {
+  for (const child of getChildren(node)) {
+    visit(child);
+    if (child.type === 'FunctionExpression' || child.type === 'FunctionStatement' || child.type === 'LocalFunctionStatement') {
+      continue;
+    }
+    if (skipLoops && isLoop(child)) continue;
+    walkBody(child, visit, skipLoops);
+  }
+}
+
+// Encodes decoded string contents as a double-quoted Lua 5.1 literal. Valid UTF-8 is kept
+// as text; other bytes and control characters are written as decimal escapes.
+function quoteBytes(bytes: string): string {
+  const escapes: Record<string, string> = { '\\': '\\\\', '"': '\\"', '\n': '\\n', '\r': '\\r', '\t': '\\t' };
+  const decoder = new TextDecoder('utf-8', { fatal: true });
+  let result = '"';
+  for (let i = 0; i < bytes.length;) {
+    const code = bytes.charCodeAt(i);
+    if (code >= 0x80) {
+      let end = i;
+      while (end < bytes.length && bytes.charCodeAt(end) >= 0x80) end++;
+      const run = Uint8Array.from(bytes.slice(i, end), ch => ch.charCodeAt(0));
+      try {
+        result += decoder.decode(run);
+      } catch {
+        result += Array.from(run, byte => `\\${byte}`).join('');
+      }
+      i = end;
+      continue;
+    }
+    const ch = bytes[i];
+    if (ch in escapes) {
+      result += escapes[ch];
+    } else if (code < 0x20 || code === 0x7f) {
+      // Padded so that a following digit is not read as part of the escape.
+      result += `\\${String(code).padStart(3, '0')}`;
+    } else {
+      result += ch;
+    }
+    i++;
+  }
+  return result + '"';
+}
+
+class Downleveler {
+  private edits: Edit[] = [];
+  private readonly usedNames: Set<string>;
+  // Aliases of the globals the rewrites call, by the global they stand for.
+  private readonly aliases = new Map<string, string>();
+
+  constructor(
+    private readonly source: string,
+    private readonly lower: boolean,
+    /** The names of every local in the code. */
+    private readonly locals: ReadonlySet<string>,
+  ) {
+    this.usedNames = new Set(tokenize(source, 'luau').filter(token => token.type === 'name').map(token => token.value));
+  }
+
+  // A global the rewrites call, such as `math.floor`. Where a local of the code hides it, it is
+  // reached through an alias declared at the top of the chunk instead.
+  private global(path: string): string {
+    if (!this.locals.has(path.split('.')[0])) return path;
+    let alias = this.aliases.get(path);
+    if (!alias) {
+      alias = this.freshName(`__${path.split('.').pop()}`);
+      this.aliases.set(path, alias);
+    }
+    return alias;
+  }
+
+  // Declares the aliases on the first line of code, after any shebang, so that line numbers stay the same.
+  declareAliases(): void {
+    if (this.aliases.size === 0) return;
+    const declaration = `local ${[...this.aliases.values()].join(', ')} = ${[...this.aliases.keys()].join(', ')} `;
+    if (!this.source.startsWith('#')) {
+      this.replace(0, 0, declaration);
+      return;
+    }
+    const lineEnd = this.source.indexOf('\n');
+    if (lineEnd === -1) this.replace(this.source.length, this.source.length, `\n${declaration}`);
+    else this.replace(lineEnd + 1, lineEnd + 1, declaration);
+  }
+
+  // A name that appears nowhere in the source, so it cannot capture or shadow anything.
+  private freshName(base: string): string {
+    let name = base;
+    for (let i = 2; this.usedNames.has(name); i++) name = `${base}${i}`;
+    this.usedNames.add(name);
+    return name;
+  }
+
+  private replace(start: number, end: number, text: string): void {
+    this.edits.push({ start, end, text });
+  }
+
+  // Returns the source of a range with the edits inside it applied, and takes those edits out
+  // of the list so an enclosing rewrite can reuse the text.
+  render(start: number, end: number): string {
+    const inside = this.edits
+      .filter(edit => edit.start >= start && edit.end <= end)
+      .sort((a, b) => a.start - b.start || a.end - b.end);
+    this.edits = this.edits.filter(edit => !inside.includes(edit));
+    let result = '';
+    let position = start;
+    for (const edit of inside) {
+      result += this.source.slice(position, edit.start) + edit.text;
+      position = edit.end;
+    }
+    return result + this.source.slice(position, end);
+  }
+
+  private text(node: Node): string {
+    return this.render(node.range[0], node.range[1]);
+  }
+
+  private operand(node: Expression): string {
+    return ATOMIC_EXPRESSIONS.has(node.type) ? this.text(node) : `(${this.text(node)})`;
+  }
+
+  // Removes a `: Type` annotation, starting from the colon before it.
+  private removeAnnotation(annotation: TypeAnnotation): void {
+    let colon = annotation.range[0] - 1;
+    while (colon > 0 && /\s/.test(this.source[colon])) colon--;
+    this.replace(colon, annotation.range[1], '');
+  }
+
+  private stripFunctionTypes(fn: FunctionBody): void {
+    if (fn.typeParameters) this.replace(fn.typeParameters.range[0], fn.typeParameters.range[1], '');
+    if (fn.varargAnnotation) this.removeAnnotation(fn.varargAnnotation);
+    if (fn.returnType) this.removeAnnotation(fn.returnType);
+  }
+
+  // Children are visited first, so a rewrite of a node can build on the rewritten text of its children.
+  visit(node: Node): void {
+    getChildren(node).forEach(child => this.visit(child));
+
+    switch (node.type) {
+      case 'Identifier':
+        if (node.typeAnnotation) this.replace(node.range[0] + node.name.length, node.range[1], '');
+        break;
+      case 'FunctionStatement':
+      case 'LocalFunctionStatement':
+      case 'FunctionExpression':
+        this.stripFunctionTypes(node);
+        break;
+      case 'TypeAliasStatement':
+        this.replace(node.range[0], node.range[1], '');
+        break;
+      case 'TypeCastExpression':
+        this.replace(node.expression.range[1], node.range[1], '');
+        break;
+    }
+    if (!this.lower) return;
+
+    switch (node.type) {
+      case 'CompoundAssignmentStatement':
+        this.lowerCompoundAssignment(node.range, node.operator, node.target, node.value);
+        break;
+      case 'BinaryExpression':
+        if (node.operator === '//') {
+          const left = this.text(node.left);
+          const right = this.text(node.right);
+          this.replace(node.range[0], node.range[1], `${this.global('math.floor')}(${left} / ${right})`);
+        }
+        break;
+      case 'NumericLiteral':
+        if (/^0[bB]/.test(node.raw)) this.replace(node.range[0], node.range[1], String(node.value));
+        else if (node.raw.includes('_')) this.replace(node.range[0], node.range[1], node.raw.replace(/_/g, ''));
+        break;
+      case 'IfExpression':
+        this.lowerIfExpression(node);
+        break;
+      case 'InterpolatedString':
+        this.lowerInterpolatedString(node);
+        break;
+      case 'WhileStatement':
+      case 'RepeatStatement':
+      case 'NumericForStatement':
+      case 'GenericForStatement':
+        this.lowerContinue(node);
+        break;
+    }
+  }
+
+  // `t.x += v` becomes `t.x = t.x + v`. Targets whose base or key could have side effects are
+  // evaluated once, into temporaries.
+  private lowerCompoundAssignment(range: [number, number], operator: string, target: AssignmentTarget, value: Expression): void {
+    const combine = (current: string, rhs: string) =>
+      operator === '//' ? `${this.global('math.floor')}(${current} / ${rhs})` : `${current} ${operator} ${rhs}`;
+    const isSimple = (node: Expression) =>
+      node.type === 'Identifier' || node.type === 'StringLiteral' || node.type === 'NumericLiteral';
+
+    if (target.type === 'Identifier'
+      || (target.type === 'MemberExpression' && isSimple(target.base))
+      || (target.type === 'IndexExpression' && isSimple(target.base) && isSimple(target.index))) {
+      const lhs = this.text(target);
+      const rhs = this.operand(value);
+      this.replace(range[0], range[1], `${lhs} = ${combine(lhs, rhs)}`);
+      return;
+    }
+
+    const base = this.freshName('__base');
+    if (target.type === 'MemberExpression') {
+      const object = this.text(target.base);
+      const rhs = this.operand(value);
+      const lhs = `${base}.${target.identifier.name}`;
+      this.replace(range[0], range[1], `do local ${base} = ${object} ${lhs} = ${combine(lhs, rhs)} end`);
+    } else {
+      const key = this.freshName('__key');
+      const object = this.text(target.base);
+      const index = this.text(target.index);
+      const rhs = this.operand(value);
+      const lhs = `${base}[${key}]`;
+      this.replace(range[0], range[1], `do local ${base}, ${key} = ${object}, ${index} ${lhs} = ${combine(lhs, rhs)} end`);
+    }
+  }
+
+  // `if c then a else b` becomes `(c and a or b)` when `a` can never be falsy, and a function
+  // call otherwise.
+  private lowerIfExpression(node: IfExpression): void {
+    // An if-expression has exactly one value, so calls and `...` are truncated with parentheses.
+    const single = (value: Expression) =>
+      value.type === 'CallExpression' || value.type === 'VarargLiteral' ? `(${this.text(value)})` : this.operand(value);
+    const conditions = node.conditions.map(condition => this.operand(condition));
+    const values = node.values.map(single);
+    const alternate = single(node.alternate);
+
+    if (node.values.every(value => TRUTHY_EXPRESSIONS.has(value.type))) {
+      const branches = conditions.map((condition, i) => `${condition} and ${values[i]}`);
+      this.replace(node.range[0], node.range[1], `(${branches.join(' or ')} or ${alternate})`);
+      return;
+    }
+
+    // `...` is not visible inside the new function, so it is passed along.
+    let usesVararg = false;
+    walkBody(node, child => { usesVararg ||= child.type === 'VarargLiteral'; }, false);
+    const vararg = usesVararg ? '...' : '';
+    const branches = conditions.map((condition, i) =>
+      `${i === 0 ? 'if' : 'elseif'} ${condition} then return ${values[i]}`);
+    this.replace(
+      node.range[0],
+      node.range[1],
+      `(function(${vararg}) ${branches.join(' ')} else return ${alternate} end end)(${vararg})`,
+    );
+  }
+
+  // `` `a {b} c` `` becomes `("a " .. tostring(b) .. " c")`.
+  private lowerInterpolatedString(node: InterpolatedString): void {
+    const parts: string[] = [];
+    node.strings.forEach((text, i) => {
+      if (text || (i === 0 && node.expressions.length === 0)) parts.push(quoteBytes(text));
+      if (i < node.expressions.length) parts.push(`${this.global('tostring')}(${this.text(node.expressions[i])})`);
+    });
+    this.replace(node.range[0], node.range[1], `(${parts.join(' .. ')})`);
+  }
+
+  // Lua 5.1 has no `continue` or `goto`, so the loop body is wrapped in `repeat ... until true`
+  // and `continue` becomes a `break` out of that inner loop. A real `break` sets a flag that is
+  // checked after the inner loop.
+  private lowerContinue(loop: Loop): void {
+    const continues: Node[] = [];
+    const breaks: Node[] = [];
+    walkBody(loop.body, child => {
+      if (child.type === 'ContinueStatement') continues.push(child);
+      if (child.type === 'BreakStatement') breaks.push(child);
+    }, true);
+    if (continues.length === 0) return;
+
+    if (loop.type === 'RepeatStatement') {
+      this.checkRepeatCondition(loop.body, loop.condition, continues[0]);
+    }
+
+    const body: Block = loop.body;
+    continues.forEach(statement => this.replace(statement.range[0], statement.range[1], 'do break end'));
+    if (breaks.length === 0) {
+      this.replace(body.range[0], body.range[0], ' repeat');
+      this.replace(body.range[1], body.range[1], 'until true ');
+      return;
+    }
+    const flag = this.freshName('__break');
+    breaks.forEach(statement => this.replace(statement.range[0], statement.range[1], `do ${flag} = true break end`));
+    this.replace(body.range[0], body.range[0], ` local ${flag} = false repeat`);
+    this.replace(body.range[1], body.range[1], `until true if ${flag} then break end `);
+  }
+
+  // Wrapping the body hides its locals from the `until` condition, so such loops are refused.
+  private checkRepeatCondition(body: Block, condition: Expression, statement: Node): void {
+    const locals = new Set<string>();
+    for (const child of body.body) {
+      if (child.type === 'LocalStatement') child.variables.forEach(variable => locals.add(variable.name));
+      if (child.type === 'LocalFunctionStatement') locals.add(child.name.name);
+    }
+    const visit = (node: Node) => {
+      if (node.type === 'Identifier' && locals.has(node.name)) {
+        throw new Error(
+          `Cannot rewrite 'continue' at line ${statement.loc.start.line}: the 'until' condition at line `
+            + `${node.loc.start.line} uses '${node.name}', a local of the loop body.`,
+        );
+      }
+    };
+    visit(condition);
+    walkBody(condition, visit, false);
+  }
+}
+
+function transform(code: string, lower: boolean): string {
+  const chunk = parse(code, 'luau');
+  const locals = new Set(analyzeScopes(chunk).variables.map(variable => variable.name));
+  const downleveler = new Downleveler(code, lower, locals);
+  downleveler.visit(chunk);
+  downleveler.declareAliases();
+  return downleveler.render(0, code.length);
+}
+
+/**
+ * Removes Luau type annotations, `type` and `export type` declarations, and `::` casts.
+ * The result is still Luau, with only the types gone.
+ * @param code The Luau code.
+ * @returns The code without types.
+ * @throws {LuaSyntaxError} When the code cannot be parsed as Luau.
+ */
+export function stripTypes(code: string): string {
+  return transform(code, false);
+}
+
+/**
+ * Converts Luau to Lua 5.1: types are removed, and compound assignment, `continue`, `//`,
+ * if-expressions, string interpolation and binary or underscored numbers are rewritten.
+ * @param code The Luau code.
+ * @returns Code that parses as Lua 5.1.
+ * @throws {LuaSyntaxError} When the code cannot be parsed as Luau.
+ * @throws {Error} When a `continue` cannot be rewritten.
+ */
+export function luauToLua51(code: string): string {
+  const result = transform(code, true);
+  // Anything the rewrite missed would only surface when the code is run, so check it here.
+  parse(result, 'lua51');
+  return result;
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { checkEquivalence } from './lua-equivalence';
+
+describe('checkEquivalence', () => {
+  it('tells integers from floats from Lua 5.3 on', () => {
+    expect(checkEquivalence('print(1.0)', 'print(1)', {}, 'lua54').status).toBe('different');
+    expect(checkEquivalence('print(100)', 'print(1e2)', {}, 'lua53').status).toBe('different');
+    expect(checkEquivalence('print(0x10)', 'print(16)', {}, 'lua54').status).toBe('equivalent');
+    expect(checkEquivalence('print(1.0)', 'print(1.)', {}, 'lua54').status).toBe('equivalent');
+    expect(checkEquivalence('print(1.0)', 'print(1)', {}, 'lua51').status).toBe('equivalent');
+  });
+
+  it('finds changed operators and names', () => {
+    expect(checkEquivalence('print(a + b)', 'print(a - b)').status).toBe('different');
+    expect(checkEquivalence('local a = 1 print(a)', 'local b = 1 print(b)').status).toBe('different');
+    expect(checkEquivalence('local a = 1 print(a)', 'local b = 1 print(b)', { allowRenamedLocals: true }).status).toBe('equivalent');
+    expect(checkEquivalence('local a = 1 print(a)', 'local b = 1 print(a)', { allowRenamedLocals: true }).status).toBe('different');
+  });
+
+  it('ignores layout, comments and parentheses-free calls', () => {
+    expect(checkEquivalence('-- hi\nprint "x"', 'print("x")').status).toBe('equivalent');
+  });
+
+  it('cannot verify code that does not parse', () => {
+    expect(checkEquivalence('print(', 'print()').status).toBe('unverifiable');
+  });
+});
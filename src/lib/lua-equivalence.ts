@@ -0,0 +1,216 @@
+// Checks that two pieces of Lua code behave the same by comparing their syntax trees after
+// normalisation: comments, whitespace, quoting, number spelling, call-argument style and empty
+// statements are ignored, and local variables can be matched by binding instead of by name.
+
+import { getChildren, type Node } from './lua-ast';
+import { DEFAULT_DIALECT, DIALECTS, type LuaDialect } from './lua-dialect';
+import type { Position } from './lua-lexer';
+import { parse } from './lua-parser';
+import { analyzeScopes, type Variable } from './lua-scope';
+
+export interface EquivalenceOptions {
+  /** Treat consistently renamed locals as equal, as produced by the minifier. */
+  allowRenamedLocals?: boolean;
+}
+
+export type EquivalenceResult =
+  | { status: 'equivalent' }
+  | {
+      status: 'different';
+      /** What differs, including both locations. */
+      message: string;
+      input: Position;
+      output: Position;
+    }
+  | {
+      /** One side does not parse, so the two cannot be compared. */
+      status: 'unverifiable';
+      message: string;
+    };
+
+// Splits `TableKeyField` into "table key field".
+function describeType(node: Node): string {
+  return node.type.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+}
+
+// Whether a numeral reads as an integer or a float. Decimal integers too large for 64 bits are floats.
+function numberSubtype(raw: string): 'i' | 'f' {
+  if (/^0x/i.test(raw)) return /[.p]/i.test(raw) ? 'f' : 'i';
+  if (/[.e]/i.test(raw)) return 'f';
+  const digits = raw.replace(/^0+(?=\d)/, '');
+  return digits.length < 19 || (digits.length === 19 && digits <= '9223372036854775807') ? 'i' : 'f';
+}
+
+// The properties of a node that are not child nodes, as a comparable string. With `integers`, a
+// number's subtype counts as well as its value.
+function signature(node: Node, integers: boolean): string {
+  switch (node.type) {
+    case 'LocalStatement':
+      return `${node.variables.length}=${node.init.length}`;
+    case 'AssignmentStatement':
+      return `${node.targets.length}=${node.init.length}`;
+    case 'IfClause':
+      return node.kind;
+    case 'NumericForStatement':
+      return node.step ? 'step' : '';
+    case 'GenericForStatement':
+      return `${node.variables.length} in ${node.iterators.length}`;
+    case 'FunctionStatement':
+    case 'LocalFunctionStatement':
+    case 'FunctionExpression':
+      return `${node.parameters.length}${node.isVararg ? '...' : ''}`;
+    case 'FunctionName':
+      return `${node.path.length}${node.method ? ':' : ''}`;
+    case 'Identifier':
+      return node.attribute ?? '';
+    case 'BooleanLiteral':
+      return String(node.value);
+    case 'NumericLiteral':
+      return integers ? `${numberSubtype(node.raw)}:${node.value}` : String(node.value);
+    case 'StringLiteral':
+      return JSON.stringify(node.value);
+    case 'BinaryExpression':
+    case 'UnaryExpression':
+      return node.operator;
+    case 'CallExpression':
+      return `${node.method ? ':' : ''}${node.arguments.length}`;
+    case 'CompoundAssignmentStatement':
+      return node.operator;
+    case 'IfExpression':
+      return String(node.conditions.length);
+    case 'InterpolatedString':
+      return JSON.stringify(node.strings);
+    default:
+      return '';
+  }
+}
+
+// Type aliases and casts only matter to the type checker.
+function children(node: Node): Node[] {
+  const nodes = getChildren(node)
+    .map(child => (child.type === 'TypeCastExpression' ? child.expression : child));
+  return node.type === 'Block'
+    ? nodes.filter(child => child.type !== 'EmptyStatement' && child.type !== 'TypeAliasStatement')
+    : nodes;
+}
+
+class EquivalenceChecker {
+  private readonly inputBindings = new Map<Node, Variable>();
+  private readonly outputBindings = new Map<Node, Variable>();
+  // Renamed locals must correspond one-to-one.
+  private readonly forward = new Map<Variable, Variable>();
+  private readonly backward = new Map<Variable, Variable>();
+
+  constructor(
+    private readonly input: string,
+    private readonly output: string,
+    private readonly options: EquivalenceOptions,
+    private readonly integers: boolean,
+    inputVariables: Variable[],
+    outputVariables: Variable[],
+  ) {
+    this.bind(inputVariables, this.inputBindings);
+    this.bind(outputVariables, this.outputBindings);
+  }
+
+  private bind(variables: Variable[], bindings: Map<Node, Variable>): void {
+    for (const variable of variables) {
+      if (variable.declaration) bindings.set(variable.declaration, variable);
+      variable.references.forEach(reference => bindings.set(reference.identifier, variable));
+    }
+  }
+
+  private snippet(source: string, node: Node): string {
+    const text = source.slice(node.range[0], node.range[1]).replace(/\s+/g, ' ');
+    return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+  }
+
+  private difference(a: Node, b: Node, what: string): EquivalenceResult {
+    return {
+      status: 'different',
+      message: `${what}: \`${this.snippet(this.input, a)}\` (input ${a.loc.start.line}:${a.loc.start.column + 1}) `
+        + `vs \`${this.snippet(this.output, b)}\` (output ${b.loc.start.line}:${b.loc.start.column + 1})`,
+      input: a.loc.start,
+      output: b.loc.start,
+    };
+  }
+
+  private sameName(a: Node & { name: string }, b: Node & { name: string }): boolean {
+    const inputVariable = this.inputBindings.get(a);
+    const outputVariable = this.outputBindings.get(b);
+    if (!inputVariable || !outputVariable || !this.options.allowRenamedLocals) {
+      // Globals, fields and labels are compared by name, and a local never matches a global.
+      return a.name === b.name && !inputVariable === !outputVariable;
+    }
+    const mapped = this.forward.get(inputVariable);
+    const reverse = this.backward.get(outputVariable);
+    if (!mapped && !reverse) {
+      this.forward.set(inputVariable, outputVariable);
+      this.backward.set(outputVariable, inputVariable);
+      return true;
+    }
+    return mapped === outputVariable && reverse === inputVariable;
+  }
+
+  compare(a: Node, b: Node): EquivalenceResult {
+    if (a.type !== b.type) {
+      return this.difference(a, b, `Expected ${describeType(a)}, found ${describeType(b)}`);
+    }
+    if (signature(a, this.integers) !== signature(b, this.integers)) {
+      return this.difference(a, b, `Different ${describeType(a)}`);
+    }
+    if (a.type === 'Identifier' && b.type === 'Identifier' && !this.sameName(a, b)) {
+      return this.difference(a, b, a.name === b.name ? 'Refers to a different variable' : 'Different name');
+    }
+
+    const left = children(a);
+    const right = children(b);
+    for (let i = 0; i < Math.min(left.length, right.length); i++) {
+      const result = this.compare(left[i], right[i]);
+      if (result.status !== 'equivalent') return result;
+    }
+    if (left.length !== right.length) {
+      const items = a.type === 'Block' ? 'statements' : 'elements';
+      return this.difference(a, b, `Expected ${left.length} ${items} in this ${describeType(a)}, found ${right.length}`);
+    }
+    return { status: 'equivalent' };
+  }
+}
+
+/**
+ * Compares two pieces of Lua code for equivalent behaviour.
+ * @param input The original code.
+ * @param output The transformed code.
+ * @param options Whether renamed locals count as equal.
+ * @param dialect The Lua dialect of both.
+ * @returns Whether the code is equivalent, or the first node that differs.
+ */
+export function checkEquivalence(
+  input: string,
+  output: string,
+  options: EquivalenceOptions = {},
+  dialect: LuaDialect = DEFAULT_DIALECT,
+): EquivalenceResult {
+  let inputChunk;
+  let outputChunk;
+  try {
+    inputChunk = parse(input, dialect);
+  } catch (e) {
+    return { status: 'unverifiable', message: `The input does not parse: ${e instanceof Error ? e.message : e}` };
+  }
+  try {
+    outputChunk = parse(output, dialect);
+  } catch (e) {
+    return { status: 'unverifiable', message: `The output does not parse: ${e instanceof Error ? e.message : e}` };
+  }
+
+  const checker = new EquivalenceChecker(
+    input,
+    output,
+    options,
+    DIALECTS[dialect].features.integers,
+    analyzeScopes(inputChunk).variables,
+    analyzeScopes(outputChunk).variables,
+  );
+  return checker.compare(inputChunk, outputChunk);
+}
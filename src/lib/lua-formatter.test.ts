@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import type { LuaDialect } from './lua-dialect';
+import { checkEquivalence } from './lua-equivalence';
+import { formatCode } from './lua-formatter';
+
+const SAMPLES: Array<[LuaDialect, string]> = [
+  ['lua51', 'local t={1,2,3;x=4,["y"]=5} for i,v in ipairs(t)do print(i,v)end'],
+  ['lua51', 'local function f(...) local a,b=... return a and b or select("#",...) end print(f(1,2))'],
+  ['lua54', 'local x <const> = 10 // 3 ~ 1 goto skip print(x) ::skip:: return x'],
+  ['lua54', 'local s = [[\nlong\n]] .. "a" .. (\'b\'):upper() repeat x = (x or 0) + 1 until x > 3'],
+  ['luau', 'local function f(a: number, b: string?): string if a > 1 then return b or "" end return `{a}` end x += 1'],
+];
+
+describe('formatCode', () => {
+  it('keeps the code equivalent and is stable when run again', () => {
+    for (const [dialect, code] of SAMPLES) {
+      const formatted = formatCode(code, {}, dialect);
+      expect(checkEquivalence(code, formatted, {}, dialect), code).toEqual({ status: 'equivalent' });
+      expect(formatCode(formatted, {}, dialect), code).toBe(formatted);
+    }
+  });
+
+  it('lays out blocks and tables', () => {
+    expect(formatCode('local t={1,2,3} if t[1]then print"x" end', {}, 'lua54')).toBe(
+      'local t = { 1, 2, 3 }\nif t[1] then\n    print("x")\nend\n',
+    );
+  });
+});
@@ -0,0 +1,604 @@
+// The Lua beautifier: parses code, turns the AST into a document (see `lua-doc.ts`) and lays it
+// out with consistent indentation, spacing and line wrapping. Comments are kept where they were.
+
+import { parse } from './lua-parser';
+import { DEFAULT_DIALECT, type LuaDialect } from './lua-dialect';
+import {
+  Doc,
+  breakParent,
+  group,
+  hardline,
+  ifBreak,
+  indent,
+  join,
+  line,
+  printDoc,
+  softline,
+} from './lua-doc';
+import type {
+  BinaryExpression,
+  Block,
+  CallExpression,
+  Chunk,
+  Comment,
+  Expression,
+  FunctionBody,
+  IfExpression,
+  IfStatement,
+  InterpolatedString,
+  Node,
+  Statement,
+  TableConstructor,
+  TableField,
+} from './lua-ast';
+
+export interface FormatOptions {
+  /** Indent with tabs or spaces. */
+  indentType: 'tabs' | 'spaces';
+  /** Columns per indentation level (the number of spaces, or the width of a tab). */
+  indentWidth: number;
+  /** The line width the formatter tries to stay within. */
+  columnWidth: number;
+  /** Which quotes to use for short strings. The `auto` styles switch quotes when that avoids escapes. */
+  quoteStyle: QuoteStyle;
+  /** When to keep the parentheses of calls whose only argument is a string or table. */
+  callParentheses: CallParentheses;
+  /** When to put a separator after the last field of a table. */
+  trailingSeparator: TrailingSeparator;
+  /** The number of consecutive blank lines kept from the source. 0 removes all blank lines. */
+  maxBlankLines: number;
+  /** Line break style of the output. */
+  lineEndings: 'unix' | 'windows';
+}
+
+export type QuoteStyle = 'autoPreferDouble' | 'autoPreferSingle' | 'forceDouble' | 'forceSingle';
+
+export type CallParentheses = 'always' | 'noSingleString' | 'noSingleTable' | 'none' | 'input';
+
+export type TrailingSeparator = 'always' | 'never' | 'multiline';
+
+export const DEFAULT_FORMAT_OPTIONS: FormatOptions = {
+  indentType: 'spaces',
+  indentWidth: 4,
+  columnWidth: 120,
+  quoteStyle: 'autoPreferDouble',
+  callParentheses: 'always',
+  trailingSeparator: 'multiline',
+  maxBlankLines: 1,
+  lineEndings: 'unix',
+};
+
+/**
+ * Rewrites a short string literal to use the quotes selected by `style`, adding and removing
+ * escapes as needed. Long strings (`[[...]]`) are returned unchanged.
+ * @param raw The string as written in the source, including its quotes.
+ * @param style The preferred quote style.
+ * @returns The re-quoted string literal.
+ */
+export function requoteString(raw: string, style: QuoteStyle): string {
+  const current = raw[0];
+  if (current !== '"' && current !== "'") return raw;
+
+  const content = raw.slice(1, -1);
+  const count = (quote: string) => content.split(quote).length - 1;
+  let quote: string;
+  switch (style) {
+    case 'forceDouble':
+      quote = '"';
+      break;
+    case 'forceSingle':
+      quote = "'";
+      break;
+    case 'autoPreferDouble':
+      quote = count('"') > count("'") ? "'" : '"';
+      break;
+    case 'autoPreferSingle':
+      quote = count("'") > count('"') ? '"' : "'";
+      break;
+  }
+  if (quote === current) return raw;
+
+  let result = '';
+  for (let i = 0; i < content.length; i++) {
+    const ch = content[i];
+    if (ch === '\\') {
+      const next = content[i + 1];
+      // An escaped quote only needs its backslash if it matches the new delimiter.
+      result += next === current && next !== quote ? next : ch + next;
+      i++;
+    } else {
+      result += ch === quote ? '\\' + ch : ch;
+    }
+  }
+  return quote + result + quote;
+}
+
+function isShortComment(comment: Comment): boolean {
+  return comment.level === undefined;
+}
+
+function commentText(comment: Comment): string {
+  return isShortComment(comment) ? comment.value.trimEnd() : comment.value;
+}
+
+// The last line a node (including its trailing comments) occupies in the source.
+function lastLine(node: Node): number {
+  const trailing = node.trailingComments;
+  return trailing?.length ? trailing[trailing.length - 1].loc.end.line : node.loc.end.line;
+}
+
+// The expression a statement starts with, used to detect statements beginning with `(`.
+function leftmostExpression(expression: Expression): Expression {
+  switch (expression.type) {
+    case 'BinaryExpression':
+      return leftmostExpression(expression.left);
+    case 'MemberExpression':
+    case 'IndexExpression':
+    case 'CallExpression':
+      return leftmostExpression(expression.base);
+    default:
+      return expression;
+  }
+}
+
+function startsWithParenthesis(statement: Statement): boolean {
+  if (statement.type === 'CallStatement') {
+    return leftmostExpression(statement.expression).type === 'ParenthesizedExpression';
+  }
+  if (statement.type === 'AssignmentStatement') {
+    return leftmostExpression(statement.targets[0]).type === 'ParenthesizedExpression';
+  }
+  return false;
+}
+
+class Printer {
+  constructor(private readonly options: FormatOptions) {}
+
+  printChunk(chunk: Chunk): Doc {
+    const parts: Doc[] = [];
+    if (chunk.shebang) {
+      parts.push(chunk.shebang.value.trimEnd(), hardline);
+    }
+    const body = this.printBlock(chunk.body);
+    if (body.length > 0) {
+      parts.push(body, hardline);
+    }
+    return parts;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Comments
+  // ---------------------------------------------------------------------------
+
+  // Line breaks between two items of a block, keeping blank lines from the source.
+  private separator(previousLine: number | null, nextLine: number): Doc {
+    if (previousLine === null) return '';
+    const blankLines = Math.min(Math.max(nextLine - previousLine - 1, 0), this.options.maxBlankLines);
+    return [hardline, ...Array<Doc>(blankLines).fill(hardline)];
+  }
+
+  // Comments before an expression-level node. Short comments run to the end of the line,
+  // so they must be followed by a line break.
+  private printLeadingComments(node: Node): Doc {
+    return (node.leadingComments ?? []).map(comment =>
+      isShortComment(comment) ? [commentText(comment), breakParent, hardline] : [commentText(comment), ' ']
+    );
+  }
+
+  private printTrailingComments(node: Node, breakAfter = true): Doc {
+    return (node.trailingComments ?? []).map(comment =>
+      isShortComment(comment)
+        ? [' ', commentText(comment), breakParent, ...(breakAfter ? [hardline] : [])]
+        : [' ', commentText(comment)]
+    );
+  }
+
+  // Comments inside an otherwise empty construct, e.g. `{ --[[ nothing ]] }`, one per line.
+  private printInnerComments(node: Node): Doc {
+    return join(hardline, (node.innerComments ?? []).map(commentText));
+  }
+
+  // Prints a node with the comments attached around it.
+  private print(node: Node): Doc {
+    return [this.printLeadingComments(node), this.printNode(node), this.printTrailingComments(node)];
+  }
+
+  // Prints the elements of a comma-separated list so that trailing comments come after the comma.
+  private printList(nodes: Node[], trailingSeparator: Doc = ''): Doc[] {
+    return nodes.map((node, index) => {
+      const isLast = index === nodes.length - 1;
+      return [
+        this.printLeadingComments(node),
+        this.printNode(node),
+        isLast ? trailingSeparator : ',',
+        this.printTrailingComments(node, false),
+        isLast ? '' : line,
+      ];
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Blocks and statements
+  // ---------------------------------------------------------------------------
+
+  private printBlock(block: Block): Doc[] {
+    const parts: Doc[] = [];
+    let previousLine: number | null = null;
+
+    const pushComment = (comment: Comment) => {
+      parts.push(this.separator(previousLine, comment.loc.start.line), commentText(comment));
+      previousLine = comment.loc.end.line;
+    };
+
+    (block.leadingComments ?? []).forEach(pushComment);
+
+    for (const statement of block.body) {
+      const leading = statement.leadingComments ?? [];
+      let inlinePrefix: Doc = '';
+      for (const comment of leading) {
+        if (!isShortComment(comment) && comment.loc.end.line === statement.loc.start.line) {
+          // A block comment directly before the statement on the same line stays there.
+          parts.push(this.separator(previousLine, comment.loc.start.line));
+          inlinePrefix = [commentText(comment), ' '];
+          previousLine = null;
+        } else {
+          pushComment(comment);
+        }
+      }
+
+      if (statement.type === 'EmptyStatement') {
+        (statement.trailingComments ?? []).forEach(pushComment);
+        continue;
+      }
+
+      parts.push(
+        this.separator(previousLine, statement.loc.start.line),
+        inlinePrefix,
+        parts.length > 0 && startsWithParenthesis(statement) ? ';' : '',
+        this.printStatement(statement),
+      );
+      for (const comment of statement.trailingComments ?? []) {
+        if (comment.loc.start.line === statement.loc.end.line) {
+          parts.push(' ', commentText(comment));
+        } else {
+          parts.push(hardline, commentText(comment));
+        }
+      }
+      previousLine = lastLine(statement);
+    }
+
+    (block.innerComments ?? []).forEach(pushComment);
+    return parts;
+  }
+
+  // Prints a block indented between a header and its closing keyword.
+  private printBody(block: Block): Doc {
+    const body = this.printBlock(block);
+    return body.length > 0 ? [indent([hardline, body]), hardline] : ' ';
+  }
+
+  private printStatement(statement: Statement): Doc {
+    switch (statement.type) {
+      case 'LocalStatement': {
+        const variables = join(', ', statement.variables.map(variable => [
+          this.print(variable),
+          variable.attribute ? ` <${variable.attribute}>` : '',
+        ]));
+        if (statement.init.length === 0) {
+          return ['local ', variables];
+        }
+        return ['local ', variables, ' =', this.printAssignedValues(statement.init)];
+      }
+      case 'AssignmentStatement':
+        return [
+          join(', ', statement.targets.map(target => this.print(target))),
+          ' =',
+          this.printAssignedValues(statement.init),
+        ];
+      case 'CallStatement':
+        return this.print(statement.expression);
+      case 'DoStatement':
+        return ['do', this.printBody(statement.body), 'end'];
+      case 'WhileStatement':
+        return ['while ', this.print(statement.condition), ' do', this.printBody(statement.body), 'end'];
+      case 'RepeatStatement':
+        return ['repeat', this.printBody(statement.body), 'until ', this.print(statement.condition)];
+      case 'IfStatement':
+        return this.printIfStatement(statement);
+      case 'NumericForStatement':
+        return [
+          'for ', this.print(statement.variable), ' = ',
+          this.print(statement.start), ', ', this.print(statement.end),
+          statement.step ? [', ', this.print(statement.step)] : '',
+          ' do', this.printBody(statement.body), 'end',
+        ];
+      case 'GenericForStatement':
+        return [
+          'for ', join(', ', statement.variables.map(variable => this.print(variable))),
+          ' in ', join(', ', statement.iterators.map(iterator => this.print(iterator))),
+          ' do', this.printBody(statement.body), 'end',
+        ];
+      case 'FunctionStatement':
+        return ['function ', this.print(statement.name), this.printFunctionBody(statement)];
+      case 'LocalFunctionStatement':
+        return ['local function ', this.print(statement.name), this.printFunctionBody(statement)];
+      case 'ReturnStatement':
+        if (statement.arguments.length === 0) {
+          return 'return';
+        }
+        return ['return ', this.printExpressionList(statement.arguments)];
+      case 'BreakStatement':
+        return 'break';
+      case 'GotoStatement':
+        return ['goto ', this.print(statement.label)];
+      case 'LabelStatement':
+        return ['::', this.print(statement.label), '::'];
+      case 'EmptyStatement':
+        return '';
+      case 'ContinueStatement':
+        return 'continue';
+      case 'CompoundAssignmentStatement':
+        return [this.print(statement.target), ' ', statement.operator, '= ', this.print(statement.value)];
+      case 'TypeAliasStatement':
+        return [
+          statement.exported ? 'export ' : '',
+          'type ', this.print(statement.name), statement.typeParameters?.text ?? '',
+          ' = ', statement.value.text,
+        ];
+    }
+  }
+
+  private printAssignedValues(values: Expression[]): Doc {
+    if (values.length === 1) {
+      return [' ', this.print(values[0])];
+    }
+    return group(indent([line, this.printExpressionList(values)]));
+  }
+
+  private printExpressionList(expressions: Expression[]): Doc {
+    return group(this.printList(expressions));
+  }
+
+  private printIfStatement(statement: IfStatement): Doc {
+    const parts: Doc[] = [];
+    for (const clause of statement.clauses) {
+      for (const comment of clause.leadingComments ?? []) {
+        parts.push(commentText(comment), hardline);
+      }
+      if (clause.kind === 'else') {
+        parts.push('else');
+      } else {
+        parts.push(clause.kind, ' ', this.print(clause.condition!), ' then');
+      }
+      const body = this.printBlock(clause.body);
+      if (body.length > 0) {
+        parts.push(indent([hardline, body]));
+      }
+      parts.push(hardline);
+    }
+    parts.push('end');
+    return parts;
+  }
+
+  private printFunctionBody(fn: FunctionBody): Doc {
+    const parameters: Node[] = [...fn.parameters];
+    const printed = this.printList(parameters);
+    if (fn.isVararg) {
+      const vararg = fn.varargAnnotation ? `...: ${fn.varargAnnotation.text}` : '...';
+      printed.push(parameters.length > 0 ? [',', line, vararg] : vararg);
+    }
+    return [
+      fn.typeParameters?.text ?? '',
+      group(['(', indent([softline, printed]), softline, ')']),
+      fn.returnType ? [': ', fn.returnType.text] : '',
+      this.printBody(fn.body),
+      'end',
+    ];
+  }
+
+  // ---------------------------------------------------------------------------
+  // Expressions
+  // ---------------------------------------------------------------------------
+
+  private printNode(node: Node): Doc {
+    switch (node.type) {
+      case 'Identifier':
+        return node.typeAnnotation ? [node.name, ': ', node.typeAnnotation.text] : node.name;
+      case 'FunctionName':
+        return [
+          this.print(node.base),
+          node.path.map(part => ['.', this.print(part)]),
+          node.method ? [':', this.print(node.method)] : '',
+        ];
+      case 'NilLiteral':
+        return 'nil';
+      case 'BooleanLiteral':
+        return node.value ? 'true' : 'false';
+      case 'NumericLiteral':
+        return node.raw;
+      case 'StringLiteral':
+        return requoteString(node.raw, this.options.quoteStyle);
+      case 'VarargLiteral':
+        return '...';
+      case 'FunctionExpression':
+        return ['function', this.printFunctionBody(node)];
+      case 'TableConstructor':
+        return this.printTable(node);
+      case 'BinaryExpression':
+        return this.printBinaryExpression(node);
+      case 'UnaryExpression': {
+        const argument = this.print(node.argument);
+        if (node.operator === 'not') {
+          return ['not ', argument];
+        }
+        // `- -x` must not turn into the comment `--x`.
+        const needsSpace = node.operator === '-' && node.argument.type === 'UnaryExpression' && node.argument.operator === '-';
+        return [node.operator, needsSpace ? ' ' : '', argument];
+      }
+      case 'ParenthesizedExpression':
+        return ['(', this.print(node.expression), ')'];
+      case 'MemberExpression':
+        return [this.print(node.base), '.', this.print(node.identifier)];
+      case 'IndexExpression': {
+        // `t[ [[key]] ]` needs the spaces so the brackets don't form a long string.
+        const index = this.print(node.index);
+        const padding = node.index.type === 'StringLiteral' && node.index.raw.startsWith('[') ? ' ' : '';
+        return [this.print(node.base), '[', padding, index, padding, ']'];
+      }
+      case 'CallExpression':
+        return this.printCall(node);
+      case 'TableKeyField':
+      case 'TableNameField':
+      case 'TableValueField':
+        return this.printTableField(node);
+      case 'IfExpression':
+        return this.printIfExpression(node);
+      case 'InterpolatedString':
+        return this.printInterpolatedString(node);
+      case 'TypeCastExpression':
+        return [this.print(node.expression), ' :: ', node.annotation.text];
+      default:
+        throw new Error(`Cannot print a ${node.type} node here.`);
+    }
+  }
+
+  private printBinaryExpression(node: BinaryExpression): Doc {
+    // Flatten chains of the same operator (`a + b + c`) so they wrap as one unit.
+    const operands: Expression[] = [];
+    const operator = node.operator;
+    let current: Expression = node;
+    while (
+      current.type === 'BinaryExpression' &&
+      current.operator === operator &&
+      (current === node || (!current.leadingComments && !current.trailingComments))
+    ) {
+      operands.unshift(current.right);
+      current = current.left;
+    }
+    operands.unshift(current);
+
+    const [first, ...rest] = operands;
+    return group([
+      this.print(first),
+      indent(rest.map(operand => [line, operator, ' ', this.print(operand)])),
+    ]);
+  }
+
+  private printIfExpression(node: IfExpression): Doc {
+    const branches = node.conditions.map((condition, i) => [
+      i === 0 ? 'if ' : [line, 'elseif '],
+      this.print(condition),
+      ' then',
+      indent([line, this.print(node.values[i])]),
+    ]);
+    return group([branches, line, 'else', indent([line, this.print(node.alternate)])]);
+  }
+
+  // The string pieces are kept as written; only the embedded expressions are formatted.
+  private printInterpolatedString(node: InterpolatedString): Doc {
+    const parts: Doc[] = [node.raw[0]];
+    node.expressions.forEach((expression, i) => {
+      // `{{` is reserved in Luau, so a table right after the opening brace needs a space.
+      const padding = expression.type === 'TableConstructor' ? ' ' : '';
+      parts.push(padding, this.print(expression), padding, node.raw[i + 1]);
+    });
+    return parts;
+  }
+
+  private printCall(node: CallExpression): Doc {
+    const callee: Doc = [
+      this.print(node.base),
+      node.method ? [':', this.print(node.method)] : '',
+    ];
+
+    if (this.omitsParentheses(node)) {
+      return [callee, ' ', this.print(node.arguments[0])];
+    }
+    return [callee, this.printArguments(node)];
+  }
+
+  // Whether a call with a single string or table argument is printed as `f "x"` / `f { ... }`.
+  private omitsParentheses(node: CallExpression): boolean {
+    const args = node.arguments;
+    if (args.length !== 1 || args[0].leadingComments || args[0].trailingComments) return false;
+    const isString = args[0].type === 'StringLiteral';
+    const isTable = args[0].type === 'TableConstructor';
+    switch (this.options.callParentheses) {
+      case 'always':
+        return false;
+      case 'noSingleString':
+        return isString;
+      case 'noSingleTable':
+        return isTable;
+      case 'none':
+        return isString || isTable;
+      case 'input':
+        return node.argumentStyle !== 'parentheses';
+    }
+  }
+
+  private printArguments(node: CallExpression): Doc {
+    const args = node.arguments;
+    if (args.length === 0) {
+      return node.innerComments ? ['(', this.printInnerComments(node), breakParent, hardline, ')'] : '()';
+    }
+
+    // `f(a, function() ... end)` and `f(a, { ... })` keep the opening bracket of the
+    // last argument on the call line instead of breaking every argument onto its own line.
+    const last = args[args.length - 1];
+    const hasComments = args.some(arg => arg.leadingComments || arg.trailingComments);
+    const canHug =
+      !hasComments &&
+      (last.type === 'FunctionExpression' || last.type === 'TableConstructor') &&
+      args.slice(0, -1).every(arg => arg.type !== 'FunctionExpression' && arg.type !== 'TableConstructor');
+    if (canHug) {
+      return ['(', join(', ', args.map(arg => this.print(arg))), ')'];
+    }
+
+    return group(['(', indent([softline, this.printList(args)]), softline, ')']);
+  }
+
+  private printTable(node: TableConstructor): Doc {
+    if (node.fields.length === 0) {
+      return node.innerComments ? ['{', indent([hardline, this.printInnerComments(node)]), hardline, '}'] : '{}';
+    }
+    const separator = { always: ',', never: '', multiline: ifBreak(',') }[this.options.trailingSeparator];
+    const fields = this.printList(node.fields, separator);
+    return group(['{', indent([line, fields]), line, '}']);
+  }
+
+  private printTableField(field: TableField): Doc {
+    switch (field.type) {
+      case 'TableKeyField': {
+        const padding = field.key.type === 'StringLiteral' && field.key.raw.startsWith('[') ? ' ' : '';
+        return ['[', padding, this.print(field.key), padding, '] = ', this.print(field.value)];
+      }
+      case 'TableNameField':
+        return [this.print(field.key), ' = ', this.print(field.value)];
+      case 'TableValueField':
+        return this.print(field.value);
+    }
+  }
+}
+
+/**
+ * Beautifies Lua code: re-indents blocks, normalises spacing and wraps long calls and tables.
+ * @param code The input Lua code.
+ * @param options Formatting settings; missing settings use `DEFAULT_FORMAT_OPTIONS`.
+ * @param dialect The Lua dialect of the code.
+ * @returns The formatted code.
+ * @throws {LuaSyntaxError} When the code cannot be parsed.
+ */
+export function formatCode(code: string, options: Partial<FormatOptions> = {}, dialect: LuaDialect = DEFAULT_DIALECT): string {
+  const settings = { ...DEFAULT_FORMAT_OPTIONS, ...options };
+  const chunk = parse(code, dialect);
+  const doc = new Printer(settings).printChunk(chunk);
+  const formatted = printDoc(doc, {
+    width: settings.columnWidth,
+    indentUnit: settings.indentType === 'tabs' ? '\t' : ' '.repeat(settings.indentWidth),
+    indentWidth: settings.indentWidth,
+  });
+  // Lua reads any line break inside long strings and comments the same way, so converting
+  // every line break is safe.
+  return settings.lineEndings === 'windows' ? formatted.replace(/\r?\n/g, '\r\n') : formatted;
+}
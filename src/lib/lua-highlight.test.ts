@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeForHighlighting, rebaseHighlighting } from './lua-highlight';
+
+const SOURCE = [
+  'local function greet(name)',
+  '  print("hello")',
+  '  print(name)',
+  'end',
+  '',
+  'for i = 1, 3 do',
+  '  greet(i)',
+  '  greet(i + 1)',
+  'end',
+].join('\n');
+
+const tokenSummary = (code: string, tokens: ReturnType<typeof analyzeForHighlighting>['tokens']) =>
+  tokens.map(token => [token.type, code.slice(token.range[0], token.range[1]), token.loc.start]);
+
+describe('rebaseHighlighting', () => {
+  it('moves the tokens and folds after an edit along with it', () => {
+    const edited = SOURCE.replace('  print(name)', '  local greeting = "hi"\n  print(name)');
+    const rebased = rebaseHighlighting(analyzeForHighlighting(SOURCE), SOURCE, edited);
+    const fresh = analyzeForHighlighting(edited);
+    expect(rebased.folds).toEqual(fresh.folds);
+    expect(rebased.pairs).toEqual([]);
+    const after = edited.indexOf('print(name)');
+    expect(tokenSummary(edited, rebased.tokens.filter(token => token.range[0] >= after))).toEqual(
+      tokenSummary(edited, fresh.tokens.filter(token => token.range[0] >= after)),
+    );
+  });
+
+  it('drops the tokens the edit touches and the folds it cuts through', () => {
+    const edited = SOURCE.replace('hello")\n  print(name)\nend', 'bye")');
+    const rebased = rebaseHighlighting(analyzeForHighlighting(SOURCE), SOURCE, edited);
+    expect(rebased.folds).toEqual(analyzeForHighlighting(edited).folds.filter(fold => fold.startLine > 1));
+    expect(rebased.tokens.every(token => edited.slice(token.range[0], token.range[1]) === token.value)).toBe(true);
+  });
+});
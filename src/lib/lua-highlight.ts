@@ -0,0 +1,180 @@
+// Token-level structure for the code editor: highlighting, matching brackets and block keywords,
+// and foldable regions. Code being typed is often invalid, so nothing here needs a parse: the
+// lexer runs until its first error and the rest of the code is shown as plain text.
+
+import { DEFAULT_DIALECT, DIALECTS, type LuaDialect } from './lua-dialect';
+import { Lexer, LuaSyntaxError, type Position, type Token } from './lua-lexer';
+import { createPatch } from './text-diff';
+
+export interface HighlightInfo {
+  /** The tokens up to the first lexical error, comments included. */
+  tokens: Token[];
+  /** Where the lexer gave up, or `null` when the whole code was tokenized. */
+  errorOffset: number | null;
+  /** Matching brackets and block keywords, e.g. `(` and `)` or `function` and `end`. */
+  pairs: Array<[Token, Token]>;
+  /** Blocks that span more than two lines, by the offset of their opening keyword. */
+  folds: FoldRegion[];
+}
+
+export interface FoldRegion {
+  /** The offset of the keyword that opens the block; identifies the region across edits. */
+  offset: number;
+  /** The line of the opening keyword, which stays visible. */
+  startLine: number;
+  /** The line of the closing keyword, which stays visible too. */
+  endLine: number;
+}
+
+const CLOSING_BRACKETS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+// Keywords that open a block, closed by `end` or, for `repeat`, by `until`.
+const BLOCK_OPENERS: ReadonlySet<string> = new Set(['function', 'if', 'do', 'while', 'for', 'repeat']);
+
+// Tokens after which a Luau `if` starts an expression rather than a statement.
+function startsExpression(previous: Token | null): boolean {
+  if (!previous) return false;
+  if (previous.type === 'keyword') return ['return', 'and', 'or', 'not', 'in', 'until'].includes(previous.value);
+  return previous.type === 'symbol' && ![')', ']', '}', ';', '...'].includes(previous.value);
+}
+
+function scanTokens(code: string, dialect: LuaDialect): { tokens: Token[]; errorOffset: number | null } {
+  const lexer = new Lexer(code, { dialect });
+  const tokens: Token[] = [];
+  try {
+    for (let token = lexer.next(); token.type !== 'eof'; token = lexer.next()) {
+      tokens.push(token);
+    }
+  } catch (e) {
+    if (!(e instanceof LuaSyntaxError)) throw e;
+    return { tokens, errorOffset: tokens.length > 0 ? tokens[tokens.length - 1].range[1] : 0 };
+  }
+  return { tokens, errorOffset: null };
+}
+
+interface OpenEntry {
+  token: Token;
+  /** A `while` or `for` whose `do` has not been seen yet. */
+  awaitingDo: boolean;
+}
+
+function matchPairs(tokens: Token[], dialect: LuaDialect): Array<[Token, Token]> {
+  const pairs: Array<[Token, Token]> = [];
+  const stack: OpenEntry[] = [];
+  const luau = DIALECTS[dialect].features.luau;
+  let previous: Token | null = null;
+
+  for (const token of tokens) {
+    if (token.type === 'comment' || token.type === 'shebang') continue;
+    const top = stack[stack.length - 1];
+    if (token.type === 'symbol') {
+      if (token.value === '(' || token.value === '[' || token.value === '{') {
+        stack.push({ token, awaitingDo: false });
+      } else if (token.value in CLOSING_BRACKETS && top?.token.value === CLOSING_BRACKETS[token.value]) {
+        pairs.push([stack.pop()!.token, token]);
+      }
+    } else if (token.type === 'keyword') {
+      if (token.value === 'do' && top?.awaitingDo) {
+        top.awaitingDo = false;
+      } else if (token.value === 'if' && luau && startsExpression(previous)) {
+        // A Luau if-expression has no `end`.
+      } else if (BLOCK_OPENERS.has(token.value)) {
+        stack.push({ token, awaitingDo: token.value === 'while' || token.value === 'for' });
+      } else if (token.value === 'end' && top && BLOCK_OPENERS.has(top.token.value) && top.token.value !== 'repeat') {
+        pairs.push([stack.pop()!.token, token]);
+      } else if (token.value === 'until' && top?.token.value === 'repeat') {
+        pairs.push([stack.pop()!.token, token]);
+      }
+    }
+    previous = token;
+  }
+  return pairs.sort((a, b) => a[0].range[0] - b[0].range[0]);
+}
+
+/**
+ * Analyzes code for display in the editor.
+ * @param code The code, which may be incomplete or invalid.
+ * @param dialect The Lua dialect of the code.
+ * @returns The tokens, bracket pairs and foldable blocks.
+ */
+export function analyzeForHighlighting(code: string, dialect: LuaDialect = DEFAULT_DIALECT): HighlightInfo {
+  const { tokens, errorOffset } = scanTokens(code, dialect);
+  const pairs = matchPairs(tokens, dialect);
+  const folds = pairs
+    .filter(([open, close]) => open.type === 'keyword' && close.loc.start.line - open.loc.start.line >= 2)
+    .map(([open, close]) => ({ offset: open.range[0], startLine: open.loc.start.line, endLine: close.loc.start.line }));
+  return { tokens, errorOffset, pairs, folds };
+}
+
+const countLines = (text: string) => text.split('\n').length - 1;
+
+const columnAt = (text: string, offset: number) => (offset === 0 ? 0 : offset - text.lastIndexOf('\n', offset - 1) - 1);
+
+/**
+ * Carries the analysis of earlier code over to an edited version of it, so that the editor can
+ * keep showing it while the edited code is analyzed again. Tokens after the edit are moved with it
+ * and those it touches are dropped; pairs are dropped, and so are folds the edit cuts through.
+ * @param info The analysis of the earlier code.
+ * @param previous The earlier code, with `\n` line breaks.
+ * @param code The edited code, with `\n` line breaks.
+ * @returns An approximate analysis of `code`.
+ */
+export function rebaseHighlighting(info: HighlightInfo, previous: string, code: string): HighlightInfo {
+  const { start, removed, inserted } = createPatch(previous, code);
+  const end = start + removed.length;
+  const delta = inserted.length - removed.length;
+  const startLine = countLines(previous.slice(0, start)) + 1;
+  const endLine = startLine + countLines(removed);
+  const lineDelta = countLines(inserted) - countLines(removed);
+  // Text after the edit on its last line moves sideways as well as down.
+  const columnDelta = columnAt(code, start + inserted.length) - columnAt(previous, end);
+  const movePosition = ({ line, column }: Position): Position => ({
+    line: line + lineDelta,
+    column: line === endLine ? column + columnDelta : column,
+  });
+
+  const tokens: Token[] = [];
+  for (const token of info.tokens) {
+    if (token.range[1] <= start) {
+      tokens.push(token);
+    } else if (token.range[0] >= end) {
+      tokens.push({
+        ...token,
+        range: [token.range[0] + delta, token.range[1] + delta],
+        loc: { start: movePosition(token.loc.start), end: movePosition(token.loc.end) },
+      });
+    }
+  }
+
+  const folds: FoldRegion[] = [];
+  for (const fold of info.folds) {
+    if (fold.offset >= end) {
+      folds.push({ offset: fold.offset + delta, startLine: fold.startLine + lineDelta, endLine: fold.endLine + lineDelta });
+    } else if (fold.offset < start && fold.endLine < startLine) {
+      folds.push(fold);
+    } else if (fold.offset < start && fold.endLine > endLine && fold.endLine + lineDelta - fold.startLine >= 2) {
+      folds.push({ ...fold, endLine: fold.endLine + lineDelta });
+    }
+  }
+
+  let errorOffset = info.errorOffset;
+  if (errorOffset !== null) errorOffset = errorOffset >= end ? errorOffset + delta : Math.min(errorOffset, start);
+  return { tokens, errorOffset, pairs: [], folds };
+}
+
+/**
+ * Finds the pair that a caret position touches, preferring the token just before the caret.
+ * @param pairs The pairs from `analyzeForHighlighting`.
+ * @param offset The caret offset.
+ * @returns The matching pair, or `null` when the caret is not next to a bracket or block keyword.
+ */
+export function findPairAt(pairs: Array<[Token, Token]>, offset: number): [Token, Token] | null {
+  let after: [Token, Token] | null = null;
+  for (const pair of pairs) {
+    for (const token of pair) {
+      if (token.range[1] === offset || (token.range[0] < offset && offset < token.range[1])) return pair;
+      if (token.range[0] === offset) after = pair;
+    }
+  }
+  return after;
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { tokenize } from './lua-lexer';
+
+const summary = (code: string, dialect: Parameters<typeof tokenize>[1]) =>
+  tokenize(code, dialect).filter(token => token.type !== 'eof').map(token => [token.type, token.value]);
+
+describe('tokenize', () => {
+  it('reads long strings and comments up to the closing bracket of their level', () => {
+    const tokens = tokenize('x = [==[a]]b]==] --[[c]]', 'lua54');
+    expect(tokens.map(token => [token.type, token.value, token.level])).toEqual([
+      ['name', 'x', undefined],
+      ['symbol', '=', undefined],
+      ['string', '[==[a]]b]==]', 2],
+      ['comment', '--[[c]]', 0],
+      ['eof', '', undefined],
+    ]);
+  });
+
+  it('reads `//` as one operator only where the dialect has floor division', () => {
+    expect(summary('a // b', 'lua53')).toEqual([['name', 'a'], ['symbol', '//'], ['name', 'b']]);
+    expect(summary('a // b', 'lua51')).toEqual([['name', 'a'], ['symbol', '/'], ['symbol', '/'], ['name', 'b']]);
+  });
+
+  it('reads binary numbers only where the dialect has them', () => {
+    expect(summary('x = 0b101', 'luau')).toEqual([['name', 'x'], ['symbol', '='], ['number', '0b101']]);
+    expect(() => tokenize('x = 0b101', 'lua54')).toThrow('malformed number');
+  });
+
+  it('reports where an unfinished string starts', () => {
+    expect(() => tokenize('x = "abc', 'lua54')).toThrow('[1:5] unfinished string');
+  });
+});
@@ -0,0 +1,601 @@
+// A hand-written Lua lexer that produces an exact token stream with source offsets.
+// Every higher-level operation (comment removal, one-liners, parsing) is built on top of it,
+// so it never has to guess where a string or comment starts or ends.
+
+import { DEFAULT_DIALECT, DIALECTS, type DialectFeatures, type LuaDialect } from './lua-dialect';
+
+export type TokenType =
+  | 'name'
+  | 'keyword'
+  | 'number'
+  | 'string'
+  /** A piece of a Luau interpolated string: `` `text{ ``, `}text{` or `` }text` ``, or a whole `` `text` ``. */
+  | 'interpolation'
+  | 'comment'
+  | 'symbol'
+  | 'shebang'
+  | 'eof';
+
+export interface Position {
+  /** 1-based line number. */
+  line: number;
+  /** 0-based column, counted in UTF-16 code units. */
+  column: number;
+}
+
+export interface SourceLocation {
+  start: Position;
+  end: Position;
+}
+
+export interface Token {
+  type: TokenType;
+  /** The exact source text of the token. */
+  value: string;
+  /** Start (inclusive) and end (exclusive) offsets into the source. */
+  range: [number, number];
+  loc: SourceLocation;
+  /** Bracket level of long strings and comments (`[==[` is level 2). Undefined for short forms. */
+  level?: number;
+}
+
+export class LuaSyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly offset: number,
+    public readonly line: number,
+    public readonly column: number,
+  ) {
+    super(`[${line}:${column + 1}] ${message}`);
+    this.name = 'LuaSyntaxError';
+  }
+}
+
+/** The reserved words of Lua 5.4. See `DIALECTS` for the keywords of each dialect. */
+export const KEYWORDS: ReadonlySet<string> = DIALECTS.lua54.keywords;
+
+const BASE_SYMBOLS = [
+  '...', '..', '==', '~=', '<=', '>=',
+  '+', '-', '*', '/', '%', '^', '#', '<', '>', '=',
+  '(', ')', '{', '}', '[', ']', ';', ':', ',', '.',
+];
+
+// The symbols a dialect's lexer recognises, longest first so that the greedy match
+// picks `...` over `..` over `.`.
+function symbolsFor(features: DialectFeatures): string[] {
+  const symbols = [...BASE_SYMBOLS];
+  if (features.goto) symbols.push('::');
+  if (features.floorDivision) symbols.push('//');
+  if (features.bitwiseOperators) symbols.push('<<', '>>', '&', '~', '|');
+  if (features.luau) {
+    // Compound assignment, type syntax (`->`, `?`, `|`, `&`) and type assertions (`::`).
+    symbols.push('+=', '-=', '*=', '/=', '//=', '%=', '^=', '..=', '->', '?', '|', '&', '::');
+  }
+  return [...new Set(symbols)].sort((a, b) => b.length - a.length);
+}
+
+const DECIMAL_NUMBER = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+const HEX_NUMBER = /^0[xX]([0-9a-fA-F]+\.?[0-9a-fA-F]*|\.[0-9a-fA-F]+)([pP][+-]?\d+)?$/;
+const BINARY_NUMBER = /^0[bB][01]+$/;
+const NUMBER_SUFFIX = /([uU]?[lL][lL]|[iI])$/;
+
+function isNameStart(ch: string): boolean {
+  return /[A-Za-z_]/.test(ch);
+}
+
+function isNameChar(ch: string): boolean {
+  return /[A-Za-z0-9_]/.test(ch);
+}
+
+function isDigit(ch: string): boolean {
+  return ch >= '0' && ch <= '9';
+}
+
+function isWhitespace(ch: string): boolean {
+  return ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r' || ch === '\f' || ch === '\v';
+}
+
+/**
+ * Computes the offsets at which each line of the source starts.
+ * `\r\n`, `\n` and a lone `\r` each count as a single line break.
+ */
+export function computeLineStarts(source: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === '\r') {
+      if (source[i + 1] === '\n') i++;
+      starts.push(i + 1);
+    } else if (ch === '\n') {
+      starts.push(i + 1);
+    }
+  }
+  return starts;
+}
+
+/**
+ * Converts a source offset into a line/column position using a precomputed line table.
+ */
+export function positionAt(lineStarts: number[], offset: number): Position {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (lineStarts[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return { line: low + 1, column: offset - lineStarts[low] };
+}
+
+export interface LexerOptions {
+  /** Treat a first line starting with `#` as a shebang line. Defaults to true. */
+  shebang?: boolean;
+  /** The dialect whose keywords, symbols and literals are recognised. Defaults to Lua 5.4. */
+  dialect?: LuaDialect;
+}
+
+/**
+ * Reads tokens one at a time from a Lua source string.
+ * Whitespace is skipped; comments are returned as tokens so callers can decide what to do with them.
+ */
+export class Lexer {
+  private pos = 0;
+  private pending: Token | null = null;
+  private readonly lineStarts: number[];
+  private readonly keywords: ReadonlySet<string>;
+  private readonly features: DialectFeatures;
+  private readonly symbols: string[];
+  // One entry per open interpolated string: how many `{` are open inside its current expression.
+  private braces: number[] = [];
+
+  constructor(private readonly source: string, options: LexerOptions = {}) {
+    this.lineStarts = computeLineStarts(source);
+    const dialect = DIALECTS[options.dialect ?? DEFAULT_DIALECT];
+    this.keywords = dialect.keywords;
+    this.features = dialect.features;
+    this.symbols = symbolsFor(dialect.features);
+    // A first line starting with '#' (e.g. `#!/usr/bin/lua`) is skipped by the Lua loader.
+    if (options.shebang !== false && source.startsWith('#')) {
+      this.pending = this.readShebang();
+    }
+  }
+
+  /** The offset the next call to `next()` will start scanning from. */
+  get offset(): number {
+    return this.pending ? this.pending.range[0] : this.pos;
+  }
+
+  /** Whether the lexer is inside the expression part of an interpolated string. */
+  get inInterpolation(): boolean {
+    return this.braces.length > 0;
+  }
+
+  /** Moves the lexer to an arbitrary offset, which must be at a token boundary outside interpolated strings. */
+  seek(offset: number): void {
+    this.pending = null;
+    this.pos = offset;
+    this.braces = [];
+  }
+
+  positionAt(offset: number): Position {
+    return positionAt(this.lineStarts, offset);
+  }
+
+  /**
+   * Returns the next token, or an `eof` token at the end of the source.
+   * @throws {LuaSyntaxError} When the source contains a malformed token.
+   */
+  next(): Token {
+    if (this.pending) {
+      const token = this.pending;
+      this.pending = null;
+      return token;
+    }
+
+    const src = this.source;
+    while (this.pos < src.length && isWhitespace(src[this.pos])) {
+      this.pos++;
+    }
+
+    const start = this.pos;
+    if (start >= src.length) {
+      return this.makeToken('eof', start, start);
+    }
+
+    const ch = src[start];
+
+    if (ch === '-' && src[start + 1] === '-') {
+      return this.readComment(start);
+    }
+    if (isNameStart(ch)) {
+      let end = start + 1;
+      while (end < src.length && isNameChar(src[end])) end++;
+      this.pos = end;
+      const word = src.slice(start, end);
+      return this.makeToken(this.keywords.has(word) ? 'keyword' : 'name', start, end);
+    }
+    if (isDigit(ch) || (ch === '.' && isDigit(src[start + 1] ?? ''))) {
+      return this.readNumber(start);
+    }
+    if (ch === '"' || ch === "'") {
+      return this.readShortString(start);
+    }
+    if (this.features.luau) {
+      const depth = this.braces.length - 1;
+      if (ch === '`' || (ch === '}' && this.braces[depth] === 0)) {
+        return this.readInterpolation(start);
+      }
+      if (ch === '{' && depth >= 0) this.braces[depth]++;
+      if (ch === '}' && depth >= 0) this.braces[depth]--;
+    }
+    if (ch === '[') {
+      const level = this.longBracketLevel(start);
+      if (level >= 0) {
+        const end = this.findLongBracketEnd(start, level, 'unfinished long string');
+        this.pos = end;
+        return this.makeToken('string', start, end, level);
+      }
+      if (src[start + 1] === '=') {
+        this.fail('invalid long string delimiter', start);
+      }
+    }
+
+    for (const symbol of this.symbols) {
+      if (src.startsWith(symbol, start)) {
+        this.pos = start + symbol.length;
+        return this.makeToken('symbol', start, this.pos);
+      }
+    }
+
+    this.fail(`unexpected symbol near '${ch}'`, start);
+  }
+
+  private makeToken(type: TokenType, start: number, end: number, level?: number): Token {
+    const token: Token = {
+      type,
+      value: this.source.slice(start, end),
+      range: [start, end],
+      loc: { start: this.positionAt(start), end: this.positionAt(end) },
+    };
+    if (level !== undefined) {
+      token.level = level;
+    }
+    return token;
+  }
+
+  private fail(message: string, offset: number): never {
+    const { line, column } = this.positionAt(offset);
+    throw new LuaSyntaxError(message, offset, line, column);
+  }
+
+  private readShebang(): Token {
+    let end = 0;
+    while (end < this.source.length && this.source[end] !== '\n' && this.source[end] !== '\r') end++;
+    this.pos = end;
+    return this.makeToken('shebang', 0, end);
+  }
+
+  // Returns the level of a long bracket opening at `offset` (`[[` is 0, `[=[` is 1), or -1.
+  private longBracketLevel(offset: number): number {
+    let i = offset + 1;
+    while (this.source[i] === '=') i++;
+    return this.source[i] === '[' ? i - offset - 1 : -1;
+  }
+
+  private findLongBracketEnd(start: number, level: number, error: string): number {
+    const close = `]${'='.repeat(level)}]`;
+    const index = this.source.indexOf(close, start + level + 2);
+    if (index === -1) {
+      this.fail(error, start);
+    }
+    return index + close.length;
+  }
+
+  private readComment(start: number): Token {
+    const src = this.source;
+    if (src[start + 2] === '[') {
+      const level = this.longBracketLevel(start + 2);
+      if (level >= 0) {
+        const end = this.findLongBracketEnd(start + 2, level, 'unfinished long comment');
+        this.pos = end;
+        return this.makeToken('comment', start, end, level);
+      }
+    }
+    let end = start + 2;
+    while (end < src.length && src[end] !== '\n' && src[end] !== '\r') end++;
+    this.pos = end;
+    return this.makeToken('comment', start, end);
+  }
+
+  // Reads one piece of an interpolated string, starting at its opening '`' or at the '}' that
+  // closes an embedded expression, up to the '{' that opens the next expression or the closing '`'.
+  private readInterpolation(start: number): Token {
+    const src = this.source;
+    let i = start + 1;
+    while (i < src.length) {
+      const ch = src[i];
+      if (ch === '`' || ch === '{') {
+        if (src[start] === '`' && ch === '{') this.braces.push(0);
+        if (src[start] === '}' && ch === '`') this.braces.pop();
+        this.pos = i + 1;
+        return this.makeToken('interpolation', start, i + 1);
+      }
+      if (ch === '\n' || ch === '\r') {
+        break;
+      }
+      if (ch === '\\') {
+        i = this.skipEscape(i);
+      } else {
+        i++;
+      }
+    }
+    this.fail('unfinished string', start);
+  }
+
+  // Whether a number literal is valid in the current dialect.
+  private isValidNumber(text: string): boolean {
+    if (this.features.numberSeparators) {
+      text = text.replace(/_/g, '');
+    }
+    if (this.features.numberSuffixes) {
+      text = text.replace(NUMBER_SUFFIX, '');
+    }
+    if (this.features.binaryNumbers && BINARY_NUMBER.test(text)) {
+      return true;
+    }
+    return DECIMAL_NUMBER.test(text) || HEX_NUMBER.test(text);
+  }
+
+  private readNumber(start: number): Token {
+    const src = this.source;
+    let end = start;
+    let exponent = 'Ee';
+    if (src[start] === '0' && (src[start + 1] === 'x' || src[start + 1] === 'X')) {
+      exponent = 'Pp';
+      end += 2;
+    }
+    // Like the reference lexer, read greedily and validate afterwards.
+    while (end < src.length) {
+      const ch = src[end];
+      if (exponent.includes(ch) && (src[end + 1] === '+' || src[end + 1] === '-')) {
+        end += 2;
+      } else if (isNameChar(ch) || ch === '.') {
+        end++;
+      } else {
+        break;
+      }
+    }
+    const text = src.slice(start, end);
+    if (!this.isValidNumber(text)) {
+      this.fail(`malformed number near '${text}'`, start);
+    }
+    this.pos = end;
+    return this.makeToken('number', start, end);
+  }
+
+  private readShortString(start: number): Token {
+    const src = this.source;
+    const quote = src[start];
+    let i = start + 1;
+    while (i < src.length) {
+      const ch = src[i];
+      if (ch === quote) {
+        this.pos = i + 1;
+        return this.makeToken('string', start, i + 1);
+      }
+      if (ch === '\n' || ch === '\r') {
+        break;
+      }
+      if (ch === '\\') {
+        i = this.skipEscape(i);
+      } else {
+        i++;
+      }
+    }
+    this.fail('unfinished string', start);
+  }
+
+  // Validates the escape sequence at `offset` (pointing at the backslash) and returns the offset after it.
+  private skipEscape(offset: number): number {
+    const src = this.source;
+    const ch = src[offset + 1];
+    if (ch === undefined) {
+      this.fail('unfinished string', offset);
+    }
+    if ('abfnrtv\\"\''.includes(ch) || (this.features.luau && (ch === '`' || ch === '{'))) {
+      return offset + 2;
+    }
+    if (ch === '\r' || ch === '\n') {
+      // An escaped line break (`\` followed by \n, \r, \r\n or \n\r) continues the string.
+      const other = ch === '\r' ? '\n' : '\r';
+      return src[offset + 2] === other ? offset + 3 : offset + 2;
+    }
+    if (ch === 'z') {
+      // `\z` skips the following span of whitespace, including line breaks.
+      let i = offset + 2;
+      while (i < src.length && isWhitespace(src[i])) i++;
+      return i;
+    }
+    if (ch === 'x') {
+      if (!/^[0-9a-fA-F]{2}$/.test(src.slice(offset + 2, offset + 4))) {
+        this.fail('hexadecimal digit expected', offset);
+      }
+      return offset + 4;
+    }
+    if (ch === 'u') {
+      const match = /^\{([0-9a-fA-F]+)\}/.exec(src.slice(offset + 2, offset + 16));
+      if (!match || parseInt(match[1], 16) > 0x7fffffff) {
+        this.fail('invalid UTF-8 escape sequence', offset);
+      }
+      return offset + 2 + match[0].length;
+    }
+    if (isDigit(ch)) {
+      let i = offset + 1;
+      while (i < offset + 4 && isDigit(src[i] ?? '')) i++;
+      if (parseInt(src.slice(offset + 1, i), 10) > 255) {
+        this.fail('decimal escape too large', offset);
+      }
+      return i;
+    }
+    this.fail('invalid escape sequence', offset);
+  }
+}
+
+/**
+ * Splits Lua source code into tokens, including comments and a leading shebang line.
+ * The returned array always ends with an `eof` token.
+ * @param source The Lua source code.
+ * @param dialect The dialect to lex; defaults to Lua 5.4.
+ * @returns The token stream.
+ * @throws {LuaSyntaxError} When the source contains a malformed token.
+ */
+export function tokenize(source: string, dialect: LuaDialect = DEFAULT_DIALECT): Token[] {
+  const lexer = new Lexer(source, { dialect });
+  const tokens: Token[] = [];
+  let token: Token;
+  do {
+    token = lexer.next();
+    tokens.push(token);
+  } while (token.type !== 'eof');
+  return tokens;
+}
+
+/**
+ * Whether printing two tokens directly next to each other would change how they are lexed,
+ * e.g. `local` + `x` or `-` + `-`. Used when whitespace between tokens is removed.
+ */
+export function needsSeparator(left: Token, right: Token, dialect: LuaDialect = DEFAULT_DIALECT): boolean {
+  if (left.type === 'comment' && left.level === undefined) {
+    // A short comment runs to the end of the line.
+    return true;
+  }
+  if (left.type === 'interpolation' || right.type === 'interpolation') {
+    // Interpolated string pieces start and end with a delimiter and cannot be re-lexed on their own,
+    // but `{{` is reserved inside them.
+    return left.value.endsWith('{') && right.value === '{';
+  }
+  const joined = left.value + right.value;
+  try {
+    const lexer = new Lexer(joined, { shebang: false, dialect });
+    const first = lexer.next();
+    if (first.value !== left.value) return true;
+    return lexer.next().value !== right.value;
+  } catch {
+    return true;
+  }
+}
+
+// Appends the UTF-8 encoding of a code point to a byte string. Lua's `\u{...}` escape
+// allows code points up to 2^31, which need the historical 5- and 6-byte forms.
+function appendUtf8(bytes: string[], codePoint: number): void {
+  if (codePoint < 0x80) {
+    bytes.push(String.fromCharCode(codePoint));
+    return;
+  }
+  const continuation: number[] = [];
+  let limit = 0x3f;
+  while (codePoint > limit) {
+    continuation.unshift(0x80 | (codePoint & 0x3f));
+    codePoint = Math.floor(codePoint / 64);
+    limit >>= 1;
+  }
+  const lead = ((0xff << (7 - continuation.length)) & 0xff) | codePoint;
+  bytes.push(String.fromCharCode(lead), ...continuation.map(byte => String.fromCharCode(byte)));
+}
+
+/**
+ * Decodes the contents of a string token into a byte string, where each character is one byte
+ * (0-255) as Lua would see it. Source characters are taken to be UTF-8 encoded.
+ * @param raw The string token as written, including quotes or long brackets. The text of an
+ *   interpolated string piece is decoded the same way, without its delimiters.
+ * @returns The decoded value.
+ */
+export function decodeString(raw: string): string {
+  const bytes: string[] = [];
+  const appendText = (text: string) => {
+    for (const ch of text) {
+      appendUtf8(bytes, ch.codePointAt(0)!);
+    }
+  };
+
+  if (raw[0] === '[') {
+    const level = raw.indexOf('[', 1) - 1;
+    const content = raw
+      .slice(level + 2, raw.length - level - 2)
+      // A line break directly after the opening bracket is skipped, and every
+      // line break sequence inside a long string reads as a single '\n'.
+      .replace(/^(\r\n|\n\r|\n|\r)/, '')
+      .replace(/\r\n|\n\r|\n|\r/g, '\n');
+    appendText(content);
+    return bytes.join('');
+  }
+
+  // '`' and '{' can only be escaped in Luau interpolated strings.
+  const simpleEscapes: Record<string, string> = {
+    a: '\x07', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t', v: '\v', '\\': '\\', '"': '"', "'": "'", '`': '`', '{': '{',
+  };
+  let i = 1;
+  const end = raw.length - 1;
+  while (i < end) {
+    const next = raw.indexOf('\\', i);
+    if (next === -1 || next >= end) {
+      appendText(raw.slice(i, end));
+      break;
+    }
+    appendText(raw.slice(i, next));
+    const ch = raw[next + 1];
+    if (ch in simpleEscapes) {
+      bytes.push(simpleEscapes[ch]);
+      i = next + 2;
+    } else if (ch === '\n' || ch === '\r') {
+      bytes.push('\n');
+      const other = ch === '\r' ? '\n' : '\r';
+      i = raw[next + 2] === other ? next + 3 : next + 2;
+    } else if (ch === 'z') {
+      i = next + 2;
+      while (i < end && isWhitespace(raw[i])) i++;
+    } else if (ch === 'x') {
+      bytes.push(String.fromCharCode(parseInt(raw.slice(next + 2, next + 4), 16)));
+      i = next + 4;
+    } else if (ch === 'u') {
+      const close = raw.indexOf('}', next);
+      appendUtf8(bytes, parseInt(raw.slice(next + 3, close), 16));
+      i = close + 1;
+    } else {
+      let j = next + 1;
+      while (j < next + 4 && isDigit(raw[j] ?? '')) j++;
+      bytes.push(String.fromCharCode(parseInt(raw.slice(next + 1, j), 10)));
+      i = j;
+    }
+  }
+  return bytes.join('');
+}
+
+/**
+ * Parses a number token into its numeric value, including hexadecimal floats like `0x1.8p3`,
+ * Luau's `0b101` and `1_000`, and LuaJIT's `10LL` (the suffix is ignored).
+ * @param raw The number as written in the source.
+ * @returns The value of the number.
+ */
+export function parseNumber(raw: string): number {
+  raw = raw.replace(/_/g, '').replace(NUMBER_SUFFIX, '');
+  if (BINARY_NUMBER.test(raw)) {
+    return parseInt(raw.slice(2), 2);
+  }
+  if (!/^0[xX]/.test(raw)) {
+    return Number(raw);
+  }
+  const match = /^0[xX]([0-9a-fA-F]*)(?:\.([0-9a-fA-F]*))?(?:[pP]([+-]?\d+))?$/.exec(raw);
+  if (!match) {
+    return NaN;
+  }
+  const [, whole, fraction = '', exponent = '0'] = match;
+  let value = 0;
+  for (const digit of whole + fraction) {
+    value = value * 16 + parseInt(digit, 16);
+  }
+  return value * Math.pow(2, parseInt(exponent, 10) - 4 * fraction.length);
+}
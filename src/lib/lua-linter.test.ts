@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { applyAllLintFixes, lintCode } from './lua-linter';
+import { parse } from './lua-parser';
+
+describe('lintCode', () => {
+  it('reports unused locals and undefined globals', () => {
+    const diagnostics = lintCode('local unused = 1\nprint(undefinedThing)', 'lua54');
+    expect(diagnostics.map(diagnostic => [diagnostic.rule, diagnostic.line])).toEqual([
+      ['unused-variable', 1],
+      ['undefined-global', 2],
+    ]);
+  });
+
+  it('knows the globals of each dialect and the configured ones', () => {
+    expect(lintCode('print(unpack({}))', 'lua51')).toEqual([]);
+    expect(lintCode('print(unpack({}))', 'lua54').map(diagnostic => diagnostic.rule)).toEqual(['undefined-global']);
+    expect(lintCode('love.draw()', 'lua54', { rules: {}, globals: ['love'] })).toEqual([]);
+  });
+});
+
+describe('applyAllLintFixes', () => {
+  it('removes the `;` after a removed statement', () => {
+    const fixed = applyAllLintFixes('local a = 1; local a = 2; print(a)', 'lua51');
+    expect(fixed).toBe('local a = 2; print(a)');
+    expect(() => parse(fixed, 'lua51')).not.toThrow();
+  });
+});
@@ -0,0 +1,516 @@
+// Static checks over the AST: unused and shadowed variables, accidental and undefined globals,
+// unreachable code, duplicate table keys and invalid `goto` jumps. Variables come from the
+// scope analysis, everything else from a walk over the syntax tree. Rules can be configured,
+// and silenced in the code with `-- luaforge-disable-next-line rule` (see `lua-directives.ts`).
+// Some diagnostics come with a fix, offered only where the rewrite cannot change what the code does.
+
+import {
+  getChildren,
+  type Block,
+  type Expression,
+  type Identifier,
+  type Node,
+  type Statement,
+  type TableConstructor,
+} from './lua-ast';
+import { DEFAULT_DIALECT, type LuaDialect } from './lua-dialect';
+import { parseDirective, type Directive } from './lua-directives';
+import { LuaSyntaxError, tokenize } from './lua-lexer';
+import { parse } from './lua-parser';
+import { analyzeScopes, type ScopeAnalysis, type Variable } from './lua-scope';
+import { applyTextEdits, type TextEdit } from './text-edits';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export type LintRule =
+  | 'syntax-error'
+  | 'unused-variable'
+  | 'unused-parameter'
+  | 'global-assignment'
+  | 'undefined-global'
+  | 'shadowed-local'
+  | 'unreachable-code'
+  | 'duplicate-key'
+  | 'invalid-goto';
+
+export interface LintDiagnostic {
+  rule: LintRule;
+  severity: LintSeverity;
+  message: string;
+  line: number;
+  column: number;
+  /** The offending code, for jumping to it in the editor. */
+  range: [number, number];
+  /** The rewrite, when a safe one exists. */
+  fix?: TextEdit[];
+}
+
+export type LintRuleSetting = LintSeverity | 'off';
+
+export interface LintConfig {
+  /** Overrides the default severity of a rule, or turns it off. */
+  rules: Partial<Record<LintRule, LintRuleSetting>>;
+  /** Globals defined by the host environment, e.g. `love` or `vim`. */
+  globals: string[];
+}
+
+export const DEFAULT_LINT_CONFIG: LintConfig = { rules: {}, globals: [] };
+
+/** The globals of common host environments, for adding to `LintConfig.globals`. */
+export const GLOBAL_PRESETS: Record<string, string[]> = {
+  'LÖVE': ['love'],
+  Neovim: ['vim'],
+  OpenResty: ['ngx', 'ndk'],
+  Roblox: ['game', 'workspace', 'script', 'plugin', 'shared', 'Instance', 'Enum', 'Vector3', 'Vector2', 'CFrame', 'Color3', 'UDim', 'UDim2', 'BrickColor', 'Ray', 'TweenInfo', 'task', 'tick', 'time', 'wait', 'warn', 'spawn', 'delay'],
+};
+
+export const LINT_SEVERITIES: Record<LintRule, LintSeverity> = {
+  'syntax-error': 'error',
+  'unused-variable': 'warning',
+  'unused-parameter': 'info',
+  'global-assignment': 'warning',
+  'undefined-global': 'warning',
+  'shadowed-local': 'warning',
+  'unreachable-code': 'warning',
+  'duplicate-key': 'warning',
+  'invalid-goto': 'error',
+};
+
+const BASE_GLOBALS = [
+  '_G', '_VERSION', 'arg', 'assert', 'collectgarbage', 'dofile', 'error', 'getmetatable', 'ipairs',
+  'load', 'loadfile', 'next', 'pairs', 'pcall', 'print', 'rawequal', 'rawget', 'rawset', 'require',
+  'select', 'setmetatable', 'tonumber', 'tostring', 'type', 'xpcall',
+  'coroutine', 'debug', 'io', 'math', 'os', 'package', 'string', 'table',
+];
+
+const LUA51_GLOBALS = [...BASE_GLOBALS, 'gcinfo', 'getfenv', 'loadstring', 'module', 'newproxy', 'setfenv', 'unpack'];
+
+// The globals each dialect's standard library defines.
+const STANDARD_GLOBALS: Record<LuaDialect, ReadonlySet<string>> = {
+  lua51: new Set(LUA51_GLOBALS),
+  lua52: new Set([...BASE_GLOBALS, 'bit32', 'rawlen']),
+  lua53: new Set([...BASE_GLOBALS, 'rawlen', 'utf8']),
+  lua54: new Set([...BASE_GLOBALS, 'rawlen', 'utf8', 'warn']),
+  luajit: new Set([...LUA51_GLOBALS, 'bit', 'jit']),
+  luau: new Set([...LUA51_GLOBALS, 'bit32', 'buffer', 'rawlen', 'typeof', 'utf8', 'vector']),
+};
+
+const KIND_NAMES: Record<Variable['kind'], string> = {
+  local: 'variable',
+  function: 'function',
+  parameter: 'parameter',
+  for: 'loop variable',
+  self: 'variable',
+};
+
+// Statements after which the rest of the block cannot run.
+function terminates(statement: Statement): boolean {
+  switch (statement.type) {
+    case 'ReturnStatement':
+    case 'BreakStatement':
+    case 'GotoStatement':
+    case 'ContinueStatement':
+      return true;
+    case 'DoStatement':
+      return blockTerminates(statement.body);
+    case 'IfStatement':
+      return statement.clauses.some(clause => clause.kind === 'else')
+        && statement.clauses.every(clause => blockTerminates(clause.body));
+    default:
+      return false;
+  }
+}
+
+// Whether the end of a block is unreachable. A label can be jumped to, so it makes the code after it reachable again.
+function blockTerminates(block: Block): boolean {
+  let terminated = false;
+  for (const statement of block.body) {
+    if (statement.type === 'LabelStatement') terminated = false;
+    else if (terminates(statement)) terminated = true;
+  }
+  return terminated;
+}
+
+// A statement that does nothing, which Lua 5.4 allows after a label at the end of a block.
+function isVoid(statement: Statement): boolean {
+  return statement.type === 'LabelStatement' || statement.type === 'EmptyStatement';
+}
+
+// Describes a constant table key, so that `a = 1`, `["a"] = 1` and the first positional value of
+// `{ x, [1] = y }` can be compared.
+function keyOf(field: TableConstructor['fields'][number], position: number): string | null {
+  switch (field.type) {
+    case 'TableNameField':
+      return JSON.stringify(field.key.name);
+    case 'TableValueField':
+      return String(position);
+    case 'TableKeyField':
+      if (field.key.type === 'StringLiteral') return JSON.stringify(field.key.value);
+      if (field.key.type === 'NumericLiteral') return String(field.key.value);
+      if (field.key.type === 'BooleanLiteral') return `<${field.key.value}>`;
+      return null;
+  }
+}
+
+// Expressions whose evaluation has no effect, so dropping them changes nothing.
+function isPure(expression: Expression): boolean {
+  switch (expression.type) {
+    case 'NilLiteral':
+    case 'BooleanLiteral':
+    case 'NumericLiteral':
+    case 'StringLiteral':
+    case 'VarargLiteral':
+    case 'FunctionExpression':
+    case 'Identifier':
+      return true;
+    case 'ParenthesizedExpression':
+      return isPure(expression.expression);
+    case 'TableConstructor':
+      return expression.fields.every(field => isPure(field.value) && (field.type !== 'TableKeyField' || isPure(field.key)));
+    default:
+      return false;
+  }
+}
+
+// An edit that deletes [start, end) along with the spaces after it. When that leaves the line
+// empty, the whole line goes.
+function removal(code: string, start: number, end: number): TextEdit {
+  const isBlank = (ch: string) => ch === ' ' || ch === '\t';
+  while (end < code.length && isBlank(code[end])) end++;
+  let lineStart = start;
+  while (lineStart > 0 && isBlank(code[lineStart - 1])) lineStart--;
+  const atLineStart = lineStart === 0 || code[lineStart - 1] === '\n';
+  const atLineEnd = end === code.length || code[end] === '\n' || code[end] === '\r';
+  if (!atLineEnd) return { range: [start, end], text: '' };
+  if (!atLineStart) return { range: [lineStart, end], text: '' };
+  if (code[end] === '\r') end++;
+  if (code[end] === '\n') end++;
+  return { range: [lineStart, end], text: '' };
+}
+
+// Deletes a statement along with the `;` that ends it, which Lua 5.1 does not accept on its own.
+function statementRemoval(code: string, [start, end]: [number, number]): TextEdit {
+  const separator = /[ \t]*;/y;
+  separator.lastIndex = end;
+  return removal(code, start, separator.test(code) ? separator.lastIndex : end);
+}
+
+interface BlockFrame {
+  block: Block;
+  /** The index of the statement currently being visited. */
+  index: number;
+}
+
+// Whether directives in the code silence a diagnostic. `disable` and `enable` apply from their
+// position on; the `-line` forms only to one line.
+function isSuppressed(diagnostic: LintDiagnostic, directives: Directive[]): boolean {
+  const covers = (directive: Directive) => directive.rules.length === 0 || directive.rules.includes(diagnostic.rule);
+  let disabled = false;
+  for (const directive of directives) {
+    if (!covers(directive)) continue;
+    switch (directive.kind) {
+      case 'disable-line':
+        if (directive.line === diagnostic.line) return true;
+        break;
+      case 'disable-next-line':
+        if (directive.endLine + 1 === diagnostic.line) return true;
+        break;
+      case 'disable':
+      case 'enable':
+        if (directive.offset < diagnostic.range[0]) disabled = directive.kind === 'disable';
+        break;
+    }
+  }
+  return disabled;
+}
+
+class Linter {
+  readonly diagnostics: LintDiagnostic[] = [];
+  private readonly knownGlobals: ReadonlySet<string>;
+  // Filled in by `visit`, which therefore runs before the checks that offer fixes.
+  private readonly parents = new Map<Node, Node>();
+
+  constructor(
+    private readonly source: string,
+    private readonly dialect: LuaDialect,
+    private readonly config: LintConfig,
+  ) {
+    this.knownGlobals = new Set([...STANDARD_GLOBALS[dialect], ...config.globals]);
+  }
+
+  private report(rule: LintRule, node: Node, message: string, fix?: TextEdit[]): void {
+    const severity = this.config.rules[rule] ?? LINT_SEVERITIES[rule];
+    if (severity === 'off') return;
+    this.diagnostics.push({
+      rule,
+      severity,
+      message,
+      line: node.loc.start.line,
+      column: node.loc.start.column + 1,
+      range: node.range,
+      ...(fix ? { fix } : {}),
+    });
+  }
+
+  checkVariables(analysis: ScopeAnalysis): void {
+    // Renaming `x` to `_x` is only safe when nothing called `_x` could be captured.
+    const names = new Set([...analysis.variables.map(variable => variable.name), ...analysis.globals.keys()]);
+    for (const variable of analysis.variables) {
+      const { declaration } = variable;
+      if (!declaration || variable.kind === 'self' || variable.name.startsWith('_')) continue;
+
+      const kind = KIND_NAMES[variable.kind];
+      const rule = variable.kind === 'parameter' ? 'unused-parameter' : 'unused-variable';
+      const prefixFix = (variable.kind === 'parameter' || variable.kind === 'for') && !names.has(`_${variable.name}`)
+        ? [declaration, ...variable.references.map(reference => reference.identifier)]
+          .map(identifier => ({ range: [identifier.range[0], identifier.range[0]] as [number, number], text: '_' }))
+        : undefined;
+      if (variable.references.length === 0) {
+        this.report(rule, declaration, `Unused ${kind} '${variable.name}'.`, prefixFix ?? this.removeDeclarationFix(declaration));
+      } else if (variable.references.every(reference => reference.write)) {
+        this.report(rule, declaration, `The ${kind} '${variable.name}' is assigned but never read.`, prefixFix);
+      }
+
+      const shadowed = variable.shadows;
+      if (shadowed && shadowed.kind !== 'self') {
+        const where = shadowed.declaration ? ` on line ${shadowed.declaration.loc.start.line}` : '';
+        this.report('shadowed-local', declaration, `The ${kind} '${variable.name}' shadows a local${where}.`);
+      }
+    }
+  }
+
+  // Deletes the declaration of a local that is never referenced, keeping the call that initializes it.
+  private removeDeclarationFix(declaration: Identifier): TextEdit[] | undefined {
+    const statement = this.parents.get(declaration);
+    if (statement?.type === 'LocalFunctionStatement') {
+      return [statementRemoval(this.source, statement.range)];
+    }
+    if (statement?.type !== 'LocalStatement' || statement.variables.length !== 1 || declaration.attribute) {
+      return undefined;
+    }
+    if (statement.init.every(isPure)) {
+      return [statementRemoval(this.source, statement.range)];
+    }
+    const [init] = statement.init;
+    const call = this.source.slice(init.range[0], init.range[1]);
+    // A statement starting with `(` could continue the previous one as a call.
+    if (statement.init.length === 1 && init.type === 'CallExpression' && !call.startsWith('(')) {
+      return [{ range: statement.range, text: call }];
+    }
+    return undefined;
+  }
+
+  // Declares an assigned global as a local in place, when every other use of the name comes after
+  // the assignment in the same block, so that all of them would see the local instead.
+  private declareLocalFix(identifier: Identifier, others: Identifier[]): TextEdit[] | undefined {
+    let statement = this.parents.get(identifier);
+    if (statement?.type === 'FunctionName') {
+      const name = statement;
+      statement = this.parents.get(statement);
+      if (name.path.length > 0 || name.method || statement?.type !== 'FunctionStatement') return undefined;
+    } else if (statement?.type !== 'AssignmentStatement' || statement.targets.length !== 1) {
+      return undefined;
+    }
+    const block = this.parents.get(statement);
+    if (block?.type !== 'Block') return undefined;
+    const [, blockEnd] = block.range;
+    const end = statement.range[1];
+    if (!others.every(other => other.range[0] >= end && other.range[1] <= blockEnd)) return undefined;
+    // A `goto` to a later label would now jump into the scope of the local.
+    const index = block.body.indexOf(statement as Statement);
+    if (block.body.slice(index + 1).some(s => s.type === 'LabelStatement')) return undefined;
+    return [{ range: [statement.range[0], statement.range[0]], text: 'local ' }];
+  }
+
+  checkGlobals({ globals }: ScopeAnalysis): void {
+    for (const [name, references] of globals) {
+      if (this.knownGlobals.has(name)) continue;
+      const assigned = references.some(reference => reference.write);
+      const first = references.find(reference => reference.write);
+      for (const { identifier, write } of references) {
+        if (write) {
+          const others = references.filter(reference => reference.identifier !== identifier).map(reference => reference.identifier);
+          const fix = identifier === first?.identifier ? this.declareLocalFix(identifier, others) : undefined;
+          this.report('global-assignment', identifier, `Assignment to the global '${name}'; did you mean to declare it 'local'?`, fix);
+        } else if (!assigned) {
+          this.report('undefined-global', identifier, `The global '${name}' is not defined.`);
+        }
+      }
+    }
+  }
+
+  // Walks the tree, keeping the chain of enclosing blocks of the current function for `goto` checks.
+  visit(node: Node, frames: BlockFrame[]): void {
+    for (const child of getChildren(node)) this.parents.set(child, node);
+    switch (node.type) {
+      case 'Block':
+      case 'Chunk': {
+        const block = node.type === 'Chunk' ? node.body : node;
+        this.checkReachability(block);
+        const frame: BlockFrame = { block, index: 0 };
+        block.body.forEach((statement, index) => {
+          this.parents.set(statement, block);
+          frame.index = index;
+          this.visit(statement, [...frames, frame]);
+        });
+        return;
+      }
+      case 'FunctionExpression':
+      case 'FunctionStatement':
+      case 'LocalFunctionStatement':
+        // Labels are not visible across function boundaries.
+        getChildren(node).forEach(child => this.visit(child, []));
+        return;
+      case 'GotoStatement':
+        this.checkGoto(node.label.name, node, frames);
+        break;
+      case 'TableConstructor':
+        this.checkDuplicateKeys(node);
+        break;
+    }
+    getChildren(node).forEach(child => this.visit(child, frames));
+  }
+
+  private checkReachability(block: Block): void {
+    const statements = block.body;
+    for (let i = 0; i < statements.length - 1; i++) {
+      if (!terminates(statements[i])) continue;
+      // A label after the jump can be reached by another `goto`.
+      const next = statements.slice(i + 1).find(statement => statement.type !== 'EmptyStatement');
+      if (next && next.type !== 'LabelStatement') {
+        this.report('unreachable-code', next, 'Unreachable code.');
+      }
+      const label = statements.findIndex((statement, index) => index > i && statement.type === 'LabelStatement');
+      if (label === -1) return;
+      i = label - 1;
+    }
+  }
+
+  private checkDuplicateKeys(table: TableConstructor): void {
+    const seen = new Map<string, TableConstructor['fields'][number]>();
+    let position = 0;
+    for (const field of table.fields) {
+      if (field.type === 'TableValueField') position++;
+      const key = keyOf(field, position);
+      if (key === null) continue;
+      const first = seen.get(key);
+      if (first) {
+        const name = field.type === 'TableValueField' ? `[${position}]` : key;
+        this.report('duplicate-key', field, `Duplicate key ${name} in table; the value on line ${first.loc.start.line} is overwritten.`, this.removeFieldFix(first, field));
+      } else {
+        seen.set(key, field);
+      }
+    }
+  }
+
+  // Deletes the overwritten field with its separator. Positional values are left alone, since Lua
+  // stores them after the keyed fields whatever their order.
+  private removeFieldFix(
+    overwritten: TableConstructor['fields'][number],
+    field: TableConstructor['fields'][number],
+  ): TextEdit[] | undefined {
+    if (overwritten.type === 'TableValueField' || field.type === 'TableValueField' || !isPure(overwritten.value)) {
+      return undefined;
+    }
+    if (overwritten.type === 'TableKeyField' && !isPure(overwritten.key)) return undefined;
+    const separator = /^\s*[,;]/.exec(this.source.slice(overwritten.range[1]));
+    if (!separator) return undefined;
+    return [removal(this.source, overwritten.range[0], overwritten.range[1] + separator[0].length)];
+  }
+
+  // A `goto` may jump to a visible label, but not forward into the scope of a local declared
+  // in between, unless the label ends its block.
+  private checkGoto(name: string, statement: Node, frames: BlockFrame[]): void {
+    for (let i = frames.length - 1; i >= 0; i--) {
+      const { block, index } = frames[i];
+      const target = block.body.findIndex(s => s.type === 'LabelStatement' && s.label.name === name);
+      if (target === -1) continue;
+      if (target < index || block.body.slice(target + 1).every(isVoid)) return;
+      for (const between of block.body.slice(index + 1, target)) {
+        const local = between.type === 'LocalStatement' ? between.variables[0]
+          : between.type === 'LocalFunctionStatement' ? between.name
+          : null;
+        if (local) {
+          this.report('invalid-goto', statement, `'goto ${name}' jumps into the scope of local '${local.name}'.`);
+          return;
+        }
+      }
+      return;
+    }
+    this.report('invalid-goto', statement, `No visible label '${name}' for goto.`);
+  }
+}
+
+/**
+ * Lints Lua code.
+ * @param code The code to check.
+ * @param dialect The Lua dialect of the code; decides the syntax and the standard globals.
+ * @param config Rule severities and extra known globals.
+ * @returns The diagnostics in source order, without those silenced by directive comments.
+ *   Code that does not parse yields a single syntax error.
+ */
+export function lintCode(
+  code: string,
+  dialect: LuaDialect = DEFAULT_DIALECT,
+  config: LintConfig = DEFAULT_LINT_CONFIG,
+): LintDiagnostic[] {
+  let chunk;
+  try {
+    chunk = parse(code, dialect);
+  } catch (e) {
+    if (!(e instanceof LuaSyntaxError)) throw e;
+    return [{
+      rule: 'syntax-error',
+      severity: 'error',
+      message: e.message.replace(/^\[\d+:\d+\] /, ''),
+      line: e.line,
+      column: e.column + 1,
+      range: [e.offset, e.offset],
+    }];
+  }
+
+  const linter = new Linter(code, dialect, config);
+  const analysis = analyzeScopes(chunk);
+  linter.visit(chunk, []);
+  linter.checkVariables(analysis);
+  linter.checkGlobals(analysis);
+
+  const directives = tokenize(code, dialect)
+    .filter(token => token.type === 'comment')
+    .map(parseDirective)
+    .filter((directive): directive is Directive => directive !== null);
+  return linter.diagnostics
+    .filter(diagnostic => !isSuppressed(diagnostic, directives))
+    .sort((a, b) => a.range[0] - b.range[0]);
+}
+
+/**
+ * Applies the fix of a single diagnostic.
+ * @param code The code the diagnostic was found in.
+ * @param diagnostic A diagnostic returned by `lintCode` for that code.
+ * @returns The rewritten code, or the code unchanged when the diagnostic has no fix.
+ */
+export function applyLintFix(code: string, diagnostic: LintDiagnostic): string {
+  return diagnostic.fix ? applyTextEdits(code, diagnostic.fix).text : code;
+}
+
+/**
+ * Applies every available fix. Removing one declaration can leave another one unused, so the
+ * code is linted again until no fixes are left.
+ * @param code The code to fix.
+ * @param dialect The Lua dialect of the code.
+ * @param config Rule severities and extra known globals; rules that are off are not fixed.
+ * @returns The rewritten code.
+ */
+export function applyAllLintFixes(
+  code: string,
+  dialect: LuaDialect = DEFAULT_DIALECT,
+  config: LintConfig = DEFAULT_LINT_CONFIG,
+): string {
+  for (let pass = 0; pass < 10; pass++) {
+    const edits = lintCode(code, dialect, config).flatMap(diagnostic => diagnostic.fix ?? []);
+    if (edits.length === 0) break;
+    code = applyTextEdits(code, edits).text;
+  }
+  return code;
+}
@@ -0,0 +1,11 @@
+import { describe, expect, it } from 'vitest';
+import { applyAllMigrationFixes, findMigrationIssues } from './lua-migration';
+
+describe('findMigrationIssues', () => {
+  it('parses the code in its own dialect', () => {
+    const luau = 'local n: number = 0\nn += #unpack({1, 2})\nprint(table.getn(t))';
+    expect(() => findMigrationIssues(luau)).toThrow();
+    expect(findMigrationIssues(luau, 'luau').map(issue => issue.kind)).toEqual(['unpack', 'table.getn']);
+    expect(applyAllMigrationFixes(luau, 'luau')).toBe('local n: number = 0\nn += #table.unpack({1, 2})\nprint(#t)');
+  });
+});
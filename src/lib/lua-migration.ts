@@ -0,0 +1,220 @@
+// Finds Lua 5.1 code that no longer works, or works differently, in Lua 5.4, and rewrites it
+// where a drop-in equivalent exists. Only globals are reported: a local `unpack` or a field
+// called `getn` belongs to the script and is left alone.
+
+import type { CallExpression, Expression, FunctionBody, Identifier, Node } from './lua-ast';
+import { getChildren } from './lua-ast';
+import type { LuaDialect } from './lua-dialect';
+import { parse } from './lua-parser';
+import { analyzeScopes, type Reference } from './lua-scope';
+import { applyTextEdits, type TextEdit } from './text-edits';
+
+export type MigrationKind =
+  | 'setfenv'
+  | 'getfenv'
+  | 'unpack'
+  | 'table.getn'
+  | 'loadstring'
+  | 'module'
+  | 'math.pow'
+  | 'arg';
+
+export interface MigrationIssue {
+  kind: MigrationKind;
+  line: number;
+  column: number;
+  /** The code the issue was found in. */
+  code: string;
+  /** What changed in 5.4 and what to do about it. */
+  message: string;
+  /** The rewrite, when a safe one exists. */
+  fix?: TextEdit[];
+}
+
+type FunctionNode = Node & FunctionBody;
+
+// Expressions that bind tighter than any operator, so they need no parentheses as an operand.
+const ATOMIC_EXPRESSIONS: ReadonlySet<Node['type']> = new Set([
+  'Identifier', 'ParenthesizedExpression', 'MemberExpression', 'IndexExpression', 'CallExpression',
+  'NilLiteral', 'BooleanLiteral', 'NumericLiteral', 'StringLiteral', 'TableConstructor',
+]);
+
+const MESSAGES: Record<MigrationKind, string> = {
+  setfenv: '`setfenv` was removed. Give the function an `_ENV` upvalue or load it with `load(chunk, name, mode, env)`.',
+  getfenv: '`getfenv` was removed. Read the environment from `_ENV` instead.',
+  unpack: '`unpack` moved to `table.unpack`.',
+  'table.getn': '`table.getn` was removed. Use the length operator `#`.',
+  loadstring: '`loadstring` was removed. `load` accepts strings.',
+  module: '`module` was removed. Build a table of exports and return it from the chunk.',
+  'math.pow': '`math.pow` was removed. Use the `^` operator.',
+  arg: 'Vararg functions no longer get an implicit `arg` table; here `arg` now means the script arguments.',
+};
+
+class MigrationAnalyzer {
+  readonly issues: MigrationIssue[] = [];
+  // The parent of every node and the innermost function around it, for the checks that depend on context.
+  private readonly parents = new Map<Node, Node>();
+  private readonly functions = new Map<Node, FunctionNode | null>();
+
+  constructor(private readonly source: string) {}
+
+  index(node: Node, fn: FunctionNode | null): void {
+    this.functions.set(node, fn);
+    const isFunction = node.type === 'FunctionExpression' || node.type === 'FunctionStatement' || node.type === 'LocalFunctionStatement';
+    for (const child of getChildren(node)) {
+      this.parents.set(child, node);
+      this.index(child, isFunction ? node : fn);
+    }
+  }
+
+  private text(node: Node): string {
+    return this.source.slice(node.range[0], node.range[1]);
+  }
+
+  private report(kind: MigrationKind, node: Node, fix?: TextEdit[]): void {
+    this.issues.push({
+      kind,
+      line: node.loc.start.line,
+      column: node.loc.start.column + 1,
+      code: this.text(node).replace(/\s+/g, ' '),
+      message: MESSAGES[kind],
+      ...(fix ? { fix } : {}),
+    });
+  }
+
+  // The call that `node` is the callee of, if any.
+  private callOf(node: Node): CallExpression | null {
+    const parent = this.parents.get(node);
+    return parent?.type === 'CallExpression' && parent.base === node && !parent.method ? parent : null;
+  }
+
+  // Whether a call expression stands on its own, where a rewrite to an operator expression would not be valid.
+  private isStatement(call: CallExpression): boolean {
+    return this.parents.get(call)?.type === 'CallStatement';
+  }
+
+  private operand(expression: Expression): string {
+    return ATOMIC_EXPRESSIONS.has(expression.type) ? this.text(expression) : `(${this.text(expression)})`;
+  }
+
+  checkGlobal(name: string, references: Reference[]): void {
+    for (const { identifier, write } of references) {
+      if (write) continue;
+      switch (name) {
+        case 'setfenv':
+        case 'getfenv':
+          this.report(name, this.callOf(identifier) ?? identifier);
+          break;
+        case 'module': {
+          const call = this.callOf(identifier);
+          if (call) this.report('module', call);
+          break;
+        }
+        case 'unpack':
+          this.report('unpack', identifier, [{ range: identifier.range, text: 'table.unpack' }]);
+          break;
+        case 'loadstring':
+          this.report('loadstring', identifier, [{ range: identifier.range, text: 'load' }]);
+          break;
+        case 'table':
+        case 'math':
+          this.checkLibraryField(identifier);
+          break;
+        case 'arg':
+          this.checkArg(identifier);
+          break;
+      }
+    }
+  }
+
+  private checkLibraryField(identifier: Identifier): void {
+    const member = this.parents.get(identifier);
+    if (member?.type !== 'MemberExpression' || member.base !== identifier) return;
+    const field = `${identifier.name}.${member.identifier.name}`;
+    if (field !== 'table.getn' && field !== 'math.pow') return;
+
+    const call = this.callOf(member);
+    const target = call ?? member;
+    const args = call?.arguments ?? [];
+    const parent = call && this.parents.get(call);
+    // `#t` and `a ^ b` cannot be called or indexed, so those uses are only reported.
+    const usedAsPrefix = parent && (parent.type === 'MemberExpression' || parent.type === 'IndexExpression'
+      || (parent.type === 'CallExpression' && parent.base === call));
+    const canRewrite = call && !this.isStatement(call) && !usedAsPrefix;
+
+    if (field === 'table.getn') {
+      const fix = canRewrite && args.length === 1 && args[0].type !== 'VarargLiteral'
+        ? [{ range: target.range, text: `#${this.operand(args[0])}` }]
+        : undefined;
+      this.report('table.getn', target, fix);
+    } else {
+      const fix = canRewrite && args.length === 2
+        ? [{ range: target.range, text: `(${this.operand(args[0])} ^ ${this.operand(args[1])})` }]
+        : undefined;
+      this.report('math.pow', target, fix);
+    }
+  }
+
+  // In 5.1 a vararg function has an implicit local `arg = { ..., n = select('#', ...) }`.
+  private checkArg(identifier: Identifier): void {
+    let fn = this.functions.get(identifier) ?? null;
+    const innermost = fn;
+    while (fn && !fn.isVararg) fn = this.functions.get(fn) ?? null;
+    if (!fn) return;
+
+    const parent = this.parents.get(identifier);
+    if (parent?.type === 'UnaryExpression' && parent.operator === '#' && fn === innermost) {
+      this.report('arg', parent, [{ range: parent.range, text: `select('#', ...)` }]);
+      return;
+    }
+    // Recreate the table at the start of the function; `table.pack` also sets `n`.
+    const insertAt = fn.body.range[0];
+    this.report('arg', identifier, [{ range: [insertAt, insertAt], text: ' local arg = table.pack(...)' }]);
+  }
+}
+
+/**
+ * Lists the Lua 5.1 features in the code that were removed or changed by Lua 5.4.
+ * @param code The code to migrate.
+ * @param dialect The Lua dialect the code is written in, e.g. LuaJIT or Luau, which keep the 5.1 library.
+ * @returns The issues in source order, each with a fix when a safe rewrite exists.
+ * @throws {LuaSyntaxError} When the code cannot be parsed in its dialect.
+ */
+export function findMigrationIssues(code: string, dialect: LuaDialect = 'lua51'): MigrationIssue[] {
+  const chunk = parse(code, dialect);
+  const analyzer = new MigrationAnalyzer(code);
+  analyzer.index(chunk, null);
+  for (const [name, references] of analyzeScopes(chunk).globals) {
+    analyzer.checkGlobal(name, references);
+  }
+  return analyzer.issues.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+/**
+ * Applies the fix of a single issue.
+ * @param code The code the issue was found in.
+ * @param issue An issue returned by `findMigrationIssues` for that code.
+ * @returns The rewritten code, or the code unchanged when the issue has no fix.
+ */
+export function applyMigrationFix(code: string, issue: MigrationIssue): string {
+  return issue.fix ? applyTextEdits(code, issue.fix).text : code;
+}
+
+/**
+ * Applies every available fix. Fixes that overlap (e.g. `table.getn(unpack(t))`) are applied
+ * over several passes, re-analyzing the code in between.
+ * @param code The code to migrate.
+ * @param dialect The Lua dialect the code is written in.
+ * @returns The rewritten code.
+ * @throws {LuaSyntaxError} When the code cannot be parsed in its dialect.
+ */
+export function applyAllMigrationFixes(code: string, dialect: LuaDialect = 'lua51'): string {
+  for (let pass = 0; pass < 10; pass++) {
+    const edits = findMigrationIssues(code, dialect).flatMap(issue => issue.fix ?? []);
+    if (edits.length === 0) break;
+    const result = applyTextEdits(code, edits);
+    code = result.text;
+    if (result.skipped === 0) break;
+  }
+  return code;
+}
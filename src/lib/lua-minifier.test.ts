@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import type { LuaDialect } from './lua-dialect';
+import { checkEquivalence } from './lua-equivalence';
+import { minify } from './lua-minifier';
+
+const SAMPLES: Array<[LuaDialect, string]> = [
+  ['lua51', 'local value = 1\nlocal function f(a)\n  return value + a + x\nend\nprint(f(2))'],
+  ['lua51', 'local a = 1\nlocal function f()\n  local b = 2\n  return a + b + c\nend'],
+  ['lua51', 'local t = {}\nfunction t:get(key)\n  local self2 = self\n  return self2[key], getfenv\nend'],
+  ['lua54', 'local first, second = 1, 2\ndo\n  local first = first + second\n  print(first)\nend\nprint(first)'],
+  ['luau', 'local function greet(name: string)\n  local message = `hi {name}`\n  return message\nend'],
+];
+
+describe('minify', () => {
+  it('renames locals without changing what any name refers to', () => {
+    for (const [dialect, code] of SAMPLES) {
+      const minified = minify(code, dialect);
+      expect(checkEquivalence(code, minified, { allowRenamedLocals: true }, dialect), code).toEqual({ status: 'equivalent' });
+    }
+  });
+
+  it('never gives a local the name of a global the code uses', () => {
+    expect(minify('local value = 1\nlocal function f(a)\n  return value + a + x\nend\nprint(f(2))', 'lua54')).toBe(
+      'local a=1 local function b(c)return a+c+x end print(b(2))',
+    );
+  });
+
+  it('keeps globals, fields and methods', () => {
+    const minified = minify('local config = { width = 10 }\nfunction config:area() return self.width * height end', 'lua54');
+    expect(minified).toContain('width');
+    expect(minified).toContain(':area(');
+    expect(minified).toContain('self.width*height');
+  });
+});
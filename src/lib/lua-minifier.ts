@@ -0,0 +1,121 @@
+// Shrinks Lua code for distribution: comments and optional whitespace are removed, and local
+// variables are renamed to the shortest names that do not change what any name refers to.
+// Globals, table fields and method names are never renamed.
+
+import { DEFAULT_DIALECT, DIALECTS, type LuaDialect } from './lua-dialect';
+import { needsSeparator, tokenize, type Token } from './lua-lexer';
+import { parse } from './lua-parser';
+import { analyzeScopes, type Variable } from './lua-scope';
+import { MappedOutput, type MappedCode } from './source-map';
+
+const FIRST_CHARS = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ_';
+const NEXT_CHARS = FIRST_CHARS + '0123456789';
+
+// Names that change meaning when a local takes them, even where no reference is visible.
+const RESERVED_NAMES = new Set(['self', '_ENV']);
+
+// Luau's contextual keywords are valid names, but a local called `continue` or `type` reads badly
+// and can turn a statement into a different one.
+const LUAU_CONTEXTUAL_KEYWORDS = ['continue', 'type', 'export', 'typeof'];
+
+// The nth identifier in the sequence a, b, …, _, aa, ba, …
+function generateName(index: number): string {
+  let name = FIRST_CHARS[index % FIRST_CHARS.length];
+  index = Math.floor(index / FIRST_CHARS.length);
+  while (index > 0) {
+    index--;
+    name += NEXT_CHARS[index % NEXT_CHARS.length];
+    index = Math.floor(index / NEXT_CHARS.length);
+  }
+  return name;
+}
+
+function overlaps(a: [number, number], b: [number, number]): boolean {
+  return a[0] < b[1] && b[0] < a[1];
+}
+
+/**
+ * Chooses a new name for every local variable. Two locals only share a name when their
+ * ranges do not overlap, so no rename can shadow another variable or a global.
+ * @returns The new names, keyed by the start offset of each identifier to rename.
+ */
+function planRenames(variables: Variable[], globals: Set<string>, dialect: LuaDialect): Map<number, string> {
+  const { keywords, features } = DIALECTS[dialect];
+  const unusable = new Set([...keywords, ...(features.luau ? LUAU_CONTEXTUAL_KEYWORDS : [])]);
+  const taken = new Map<string, Array<[number, number]>>();
+  const take = (name: string, range: [number, number]) => {
+    const ranges = taken.get(name);
+    if (ranges) ranges.push(range);
+    else taken.set(name, [range]);
+  };
+
+  // `self` and `_ENV` keep their names; everything else is renamed, most used first,
+  // so the shortest names go where they save the most.
+  const renamable: Variable[] = [];
+  for (const variable of variables) {
+    if (RESERVED_NAMES.has(variable.name)) take(variable.name, variable.range);
+    else renamable.push(variable);
+  }
+  renamable.sort((a, b) => b.references.length - a.references.length);
+
+  const renames = new Map<number, string>();
+  for (const variable of renamable) {
+    let name = '';
+    for (let index = 0; ; index++) {
+      name = generateName(index);
+      if (unusable.has(name) || RESERVED_NAMES.has(name) || globals.has(name)) continue;
+      if (!taken.get(name)?.some(range => overlaps(range, variable.range))) break;
+    }
+    take(name, variable.range);
+    if (variable.declaration) renames.set(variable.declaration.range[0], name);
+    variable.references.forEach(reference => renames.set(reference.identifier.range[0], name));
+  }
+  return renames;
+}
+
+/**
+ * Minifies Lua code. Comments are dropped, tokens are only separated where they would
+ * otherwise merge (`a=b`, but `local x`), and locals are renamed to short names.
+ * Code that reaches locals by name at runtime (e.g. through `debug.getlocal`) may break.
+ * @param code The input Lua code.
+ * @param dialect The Lua dialect of the code.
+ * @returns The minified code on a single line, after the shebang if there is one.
+ * @throws {LuaSyntaxError} When the code cannot be parsed.
+ */
+export function minify(code: string, dialect: LuaDialect = DEFAULT_DIALECT): string {
+  return minifyWithMappings(code, dialect).code;
+}
+
+/**
+ * Same as `minify`, but also returns the mappings needed to build a source map.
+ * Renamed locals are mapped with their original name.
+ * @param code The input Lua code.
+ * @param dialect The Lua dialect of the code.
+ * @returns The minified code and the position of every token in the input.
+ * @throws {LuaSyntaxError} When the code cannot be parsed.
+ */
+export function minifyWithMappings(code: string, dialect: LuaDialect = DEFAULT_DIALECT): MappedCode {
+  const chunk = parse(code, dialect);
+  const { variables, globals } = analyzeScopes(chunk);
+  const renames = planRenames(variables, new Set(globals.keys()), dialect);
+
+  const output = new MappedOutput();
+  let previous: Token | null = null;
+  for (const token of tokenize(code, dialect)) {
+    if (token.type === 'eof') break;
+    if (token.type === 'comment') continue;
+    if (token.type === 'shebang') {
+      output.append(token.value + '\n', token.loc.start);
+      continue;
+    }
+    const renamed = token.type === 'name' ? renames.get(token.range[0]) : undefined;
+    const emitted: Token = renamed ? { ...token, value: renamed } : token;
+    if (previous && needsSeparator(previous, emitted, dialect)) {
+      output.append(' ');
+    }
+    output.append(emitted.value, token.loc.start, renamed ? token.value : undefined);
+    previous = emitted;
+  }
+
+  return output.toMappedCode();
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { parse } from './lua-parser';
+
+describe('parse', () => {
+  it('only takes a `;` after a statement in Lua 5.1', () => {
+    expect(() => parse('local a = 1; print(a);', 'lua51')).not.toThrow();
+    expect(() => parse('return 1;', 'lua51')).not.toThrow();
+    expect(() => parse('; print(1)', 'lua51')).toThrow("unexpected symbol near ';'");
+    expect(() => parse('print(1);;', 'lua51')).toThrow("unexpected symbol near ';'");
+    expect(() => parse('do ; end', 'lua51')).toThrow("unexpected symbol near ';'");
+    expect(() => parse('; print(1);;', 'lua54')).not.toThrow();
+  });
+});
+
+describe('parse in each dialect', () => {
+  it('accepts syntax only in the dialects that have it', () => {
+    const cases: Array<[string, Parameters<typeof parse>[1], Parameters<typeof parse>[1]]> = [
+      ['goto done ::done::', 'lua52', 'lua51'],
+      ['local x <const> = 1', 'lua54', 'lua53'],
+      ['x = a & b', 'lua53', 'lua52'],
+      ['x += 1', 'luau', 'lua54'],
+      ['local x: number = 1', 'luau', 'lua54'],
+    ];
+    for (const [code, accepting, rejecting] of cases) {
+      expect(() => parse(code, accepting), `${code} in ${accepting}`).not.toThrow();
+      expect(() => parse(code, rejecting), `${code} in ${rejecting}`).toThrow();
+    }
+  });
+
+  it('rejects `break` and `continue` outside a loop', () => {
+    expect(() => parse('while true do break end break', 'lua54')).toThrow("'break' outside a loop");
+    expect(() => parse('continue', 'luau')).toThrow("'continue' outside a loop");
+  });
+});
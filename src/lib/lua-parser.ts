@@ -0,0 +1,987 @@
+// A recursive-descent parser for Lua that turns the token stream from `lua-lexer.ts`
+// into the typed AST described in `lua-ast.ts`. The structure follows the reference
+// implementation (lparser.c) closely, including operator priorities and error messages.
+
+import {
+  LuaSyntaxError,
+  Token,
+  computeLineStarts,
+  decodeString,
+  parseNumber,
+  positionAt,
+  tokenize,
+} from './lua-lexer';
+import {
+  getChildren,
+  type AssignmentTarget,
+  type BinaryOperator,
+  type Block,
+  type CallExpression,
+  type Chunk,
+  type Comment,
+  type CompoundOperator,
+  type Expression,
+  type FunctionBody,
+  type FunctionName,
+  type Identifier,
+  type IfClause,
+  type InterpolatedString,
+  type Node,
+  type Statement,
+  type TableConstructor,
+  type TableField,
+  type TypeAnnotation,
+  type UnaryOperator,
+} from './lua-ast';
+import { DEFAULT_DIALECT, DIALECTS, type DialectFeatures, type LuaDialect } from './lua-dialect';
+
+// Left and right priorities of binary operators, as in lparser.c.
+// A right priority lower than the left one makes the operator right-associative.
+const BINARY_PRIORITY: Record<BinaryOperator, [number, number]> = {
+  'or': [1, 1],
+  'and': [2, 2],
+  '<': [3, 3], '>': [3, 3], '<=': [3, 3], '>=': [3, 3], '~=': [3, 3], '==': [3, 3],
+  '|': [4, 4],
+  '~': [5, 5],
+  '&': [6, 6],
+  '<<': [7, 7], '>>': [7, 7],
+  '..': [9, 8],
+  '+': [10, 10], '-': [10, 10],
+  '*': [11, 11], '/': [11, 11], '//': [11, 11], '%': [11, 11],
+  '^': [14, 13],
+};
+
+const UNARY_PRIORITY = 12;
+
+const UNARY_OPERATORS: ReadonlySet<string> = new Set(['not', '#', '-', '~']);
+
+// `|` and `&` are also lexed in Luau, where they only appear in types.
+const BITWISE_OPERATORS: ReadonlySet<string> = new Set(['|', '~', '&', '<<', '>>']);
+
+const COMPOUND_OPERATORS: ReadonlySet<string> = new Set(['+=', '-=', '*=', '/=', '//=', '%=', '^=', '..=']);
+
+type Located = { range: [number, number]; loc: Token['loc'] };
+
+// A node without its position, distributed over unions so each member keeps its own fields.
+type NodeInit<T> = T extends unknown ? Omit<T, 'range' | 'loc'> : never;
+
+// Attaches a comment to the innermost node that encloses it: as a trailing comment of the node
+// it follows on the same line, else as a leading comment of the next node, else as an inner
+// comment of the enclosing node (e.g. after the last statement of a block).
+function attachComment(node: Node, comment: Comment): void {
+  let preceding: Node | undefined;
+  let following: Node | undefined;
+
+  for (const child of getChildren(node)) {
+    const [start, end] = child.range;
+    if (start <= comment.range[0] && comment.range[1] <= end) {
+      attachComment(child, comment);
+      return;
+    }
+    if (end <= comment.range[0]) {
+      preceding = child;
+    } else if (start >= comment.range[1] && !following) {
+      following = child;
+    }
+  }
+
+  if (preceding && preceding.loc.end.line === comment.loc.start.line) {
+    (preceding.trailingComments ??= []).push(comment);
+  } else if (following) {
+    (following.leadingComments ??= []).push(comment);
+  } else if (preceding && node.type !== 'Block') {
+    (preceding.trailingComments ??= []).push(comment);
+  } else {
+    (node.innerComments ??= []).push(comment);
+  }
+}
+
+class Parser {
+  private readonly tokens: Token[] = [];
+  private readonly comments: Comment[] = [];
+  private readonly shebang?: Token;
+  private readonly lineStarts: number[];
+  private index = 0;
+  private previous: Token | null = null;
+  // Per-function state: whether `...` is allowed and how many loops enclose the current point.
+  private functionState = { isVararg: true, loopDepth: 0 };
+  private readonly features: DialectFeatures;
+
+  constructor(private readonly source: string, dialect: LuaDialect) {
+    this.lineStarts = computeLineStarts(source);
+    this.features = DIALECTS[dialect].features;
+    for (const token of tokenize(source, dialect)) {
+      if (token.type === 'comment') {
+        this.comments.push(token);
+      } else if (token.type === 'shebang') {
+        this.shebang = token;
+      } else {
+        this.tokens.push(token);
+      }
+    }
+  }
+
+  parseChunk(): Chunk {
+    const body = this.parseBlock(0);
+    if (this.token.type !== 'eof') {
+      this.error(`'<eof>' expected`);
+    }
+    const chunk: Chunk = {
+      type: 'Chunk',
+      body,
+      comments: this.comments,
+      range: [0, this.source.length],
+      loc: { start: { line: 1, column: 0 }, end: positionAt(this.lineStarts, this.source.length) },
+    };
+    if (this.shebang) {
+      chunk.shebang = this.shebang;
+    }
+    for (const comment of this.comments) {
+      attachComment(body, comment);
+    }
+    return chunk;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Token helpers
+  // ---------------------------------------------------------------------------
+
+  private get token(): Token {
+    return this.tokens[this.index];
+  }
+
+  private peek(): Token {
+    return this.tokens[Math.min(this.index + 1, this.tokens.length - 1)];
+  }
+
+  private advance(): Token {
+    const token = this.token;
+    this.previous = token;
+    if (token.type !== 'eof') this.index++;
+    return token;
+  }
+
+  /** Whether the current token is the given keyword or symbol. */
+  private is(value: string): boolean {
+    const token = this.token;
+    return token.value === value && (token.type === 'keyword' || token.type === 'symbol');
+  }
+
+  private accept(value: string): boolean {
+    if (this.is(value)) {
+      this.advance();
+      return true;
+    }
+    return false;
+  }
+
+  private expect(value: string): Token {
+    if (!this.is(value)) {
+      this.error(`'${value}' expected`);
+    }
+    return this.advance();
+  }
+
+  // Expects a closing keyword, mentioning the opening one if it is on another line.
+  private expectMatch(value: string, opener: Token): Token {
+    if (!this.is(value)) {
+      if (opener.loc.start.line === this.token.loc.start.line) {
+        this.error(`'${value}' expected`);
+      }
+      this.error(`'${value}' expected (to close '${opener.value}' at line ${opener.loc.start.line})`);
+    }
+    return this.advance();
+  }
+
+  private error(message: string, token: Token = this.token): never {
+    const near = token.type === 'eof' ? '<eof>' : token.value;
+    throw new LuaSyntaxError(
+      `${message} near '${near}'`,
+      token.range[0],
+      token.loc.start.line,
+      token.loc.start.column,
+    );
+  }
+
+  // Fills in the range and location of a node that started at `start` and ends at the previous token.
+  private finish<T extends Node>(node: NodeInit<T>, start: Located): T {
+    const end = this.previous ?? this.token;
+    return {
+      ...node,
+      range: [start.range[0], end.range[1]],
+      loc: { start: start.loc.start, end: end.loc.end },
+    } as T;
+  }
+
+  private blockFollow(): boolean {
+    const token = this.token;
+    if (token.type === 'eof') return true;
+    if (token.type !== 'keyword') return false;
+    switch (token.value) {
+      case 'else':
+      case 'elseif':
+      case 'end':
+      case 'until':
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Blocks and statements
+  // ---------------------------------------------------------------------------
+
+  // Parses statements until a block terminator. The block spans from `start` up to the
+  // terminating token, so that comments between the statements fall inside it.
+  private parseBlock(start: number): Block {
+    const body: Statement[] = [];
+    while (!this.blockFollow()) {
+      if (this.is('return')) {
+        body.push(this.parseReturnStatement());
+        break;
+      }
+      const previous = body[body.length - 1];
+      if (this.is(';') && !this.features.emptyStatements && (!previous || previous.type === 'EmptyStatement')) {
+        this.error('unexpected symbol');
+      }
+      body.push(this.parseStatement());
+    }
+    const end = this.token.type === 'eof' ? this.source.length : this.token.range[0];
+    return {
+      type: 'Block',
+      body,
+      range: [start, end],
+      loc: { start: positionAt(this.lineStarts, start), end: positionAt(this.lineStarts, end) },
+    };
+  }
+
+  // Parses the block that follows the previous token (e.g. `do` or `then`).
+  private parseInnerBlock(): Block {
+    return this.parseBlock(this.previous!.range[1]);
+  }
+
+  private parseLoopBody(): Block {
+    this.functionState.loopDepth++;
+    const body = this.parseInnerBlock();
+    this.functionState.loopDepth--;
+    return body;
+  }
+
+  private parseStatement(): Statement {
+    const start = this.token;
+    if (start.type === 'keyword' || start.type === 'symbol') {
+      switch (start.value) {
+        case ';':
+          this.advance();
+          return this.finish({ type: 'EmptyStatement' }, start);
+        case 'if':
+          return this.parseIfStatement();
+        case 'while': {
+          this.advance();
+          const condition = this.parseExpression();
+          this.expect('do');
+          const body = this.parseLoopBody();
+          this.expectMatch('end', start);
+          return this.finish({ type: 'WhileStatement', condition, body }, start);
+        }
+        case 'do': {
+          this.advance();
+          const body = this.parseInnerBlock();
+          this.expectMatch('end', start);
+          return this.finish({ type: 'DoStatement', body }, start);
+        }
+        case 'for':
+          return this.parseForStatement();
+        case 'repeat': {
+          this.advance();
+          const body = this.parseLoopBody();
+          this.expectMatch('until', start);
+          const condition = this.parseExpression();
+          return this.finish({ type: 'RepeatStatement', body, condition }, start);
+        }
+        case 'function':
+          return this.parseFunctionStatement();
+        case 'local':
+          return this.parseLocalStatement();
+        case '::': {
+          // In Luau, `::` only appears in type assertions.
+          if (!this.features.goto) break;
+          this.advance();
+          const label = this.parseIdentifier();
+          this.expect('::');
+          return this.finish({ type: 'LabelStatement', label }, start);
+        }
+        case 'break':
+          if (this.functionState.loopDepth === 0) {
+            this.error(`'break' outside a loop`);
+          }
+          this.advance();
+          return this.finish({ type: 'BreakStatement' }, start);
+        case 'goto': {
+          this.advance();
+          const label = this.parseIdentifier();
+          return this.finish({ type: 'GotoStatement', label }, start);
+        }
+      }
+    }
+    return this.parseExpressionStatement();
+  }
+
+  private parseIfStatement(): Statement {
+    const start = this.token;
+    const clauses: IfClause[] = [];
+    do {
+      const clauseStart = this.advance();
+      const condition = this.parseExpression();
+      this.expect('then');
+      const body = this.parseInnerBlock();
+      clauses.push(this.finishClause({
+        type: 'IfClause',
+        kind: clauseStart.value === 'if' ? 'if' : 'elseif',
+        condition,
+        body,
+      }, clauseStart));
+    } while (this.is('elseif'));
+
+    if (this.is('else')) {
+      const clauseStart = this.advance();
+      const body = this.parseInnerBlock();
+      clauses.push(this.finishClause({ type: 'IfClause', kind: 'else', body }, clauseStart));
+    }
+    this.expectMatch('end', start);
+    return this.finish({ type: 'IfStatement', clauses }, start);
+  }
+
+  // A clause ends where its block ends, just before the next `elseif`/`else`/`end`.
+  private finishClause(clause: NodeInit<IfClause>, start: Token): IfClause {
+    return {
+      ...clause,
+      range: [start.range[0], clause.body.range[1]],
+      loc: { start: start.loc.start, end: clause.body.loc.end },
+    };
+  }
+
+  private parseForStatement(): Statement {
+    const start = this.advance();
+    const first = this.parseBinding();
+
+    if (this.accept('=')) {
+      const startValue = this.parseExpression();
+      this.expect(',');
+      const end = this.parseExpression();
+      const step = this.accept(',') ? this.parseExpression() : undefined;
+      this.expect('do');
+      const body = this.parseLoopBody();
+      this.expectMatch('end', start);
+      return this.finish({
+        type: 'NumericForStatement',
+        variable: first,
+        start: startValue,
+        end,
+        ...(step ? { step } : {}),
+        body,
+      }, start);
+    }
+
+    if (this.is(',') || this.is('in')) {
+      const variables = [first];
+      while (this.accept(',')) {
+        variables.push(this.parseBinding());
+      }
+      this.expect('in');
+      const iterators = this.parseExpressionList();
+      this.expect('do');
+      const body = this.parseLoopBody();
+      this.expectMatch('end', start);
+      return this.finish({ type: 'GenericForStatement', variables, iterators, body }, start);
+    }
+
+    this.error(`'=' or 'in' expected`);
+  }
+
+  private parseFunctionStatement(): Statement {
+    const start = this.advance();
+    const nameStart = this.token;
+    const base = this.parseIdentifier();
+    const path: Identifier[] = [];
+    while (this.accept('.')) {
+      path.push(this.parseIdentifier());
+    }
+    const method = this.accept(':') ? this.parseIdentifier() : undefined;
+    const name = this.finish<FunctionName>({
+      type: 'FunctionName',
+      base,
+      path,
+      ...(method ? { method } : {}),
+    }, nameStart);
+    const functionBody = this.parseFunctionBody(start);
+    return this.finish({ type: 'FunctionStatement', name, ...functionBody }, start);
+  }
+
+  private parseLocalStatement(): Statement {
+    const start = this.advance();
+
+    if (this.accept('function')) {
+      const opener = this.previous!;
+      const name = this.parseIdentifier();
+      const functionBody = this.parseFunctionBody(opener);
+      return this.finish({ type: 'LocalFunctionStatement', name, ...functionBody }, start);
+    }
+
+    const variables: Identifier[] = [];
+    do {
+      const variable = this.parseBinding();
+      if (this.features.attributes && this.accept('<')) {
+        const attribute = this.parseIdentifier().name;
+        if (attribute !== 'const' && attribute !== 'close') {
+          this.error(`unknown attribute '${attribute}'`, this.previous!);
+        }
+        this.expect('>');
+        variables.push(this.finish({ ...variable, attribute }, variable));
+      } else {
+        variables.push(variable);
+      }
+    } while (this.accept(','));
+
+    const init = this.accept('=') ? this.parseExpressionList() : [];
+    return this.finish({ type: 'LocalStatement', variables, init }, start);
+  }
+
+  private parseReturnStatement(): Statement {
+    const start = this.advance();
+    const args = this.blockFollow() || this.is(';') ? [] : this.parseExpressionList();
+    this.accept(';');
+    return this.finish({ type: 'ReturnStatement', arguments: args }, start);
+  }
+
+  private parseExpressionStatement(): Statement {
+    const start = this.token;
+    const expression = this.parseSuffixedExpression();
+
+    if (this.features.luau) {
+      const statement = this.parseLuauStatement(expression, start);
+      if (statement) return statement;
+    }
+
+    if (this.is('=') || this.is(',')) {
+      const targets = [expression];
+      while (this.accept(',')) {
+        targets.push(this.parseSuffixedExpression());
+      }
+      for (const target of targets) {
+        if (target.type !== 'Identifier' && target.type !== 'MemberExpression' && target.type !== 'IndexExpression') {
+          this.error('syntax error', this.tokenAt(target.range[1]));
+        }
+      }
+      this.expect('=');
+      const init = this.parseExpressionList();
+      return this.finish({
+        type: 'AssignmentStatement',
+        targets: targets as AssignmentTarget[],
+        init,
+      }, start);
+    }
+
+    if (expression.type !== 'CallExpression') {
+      this.error('syntax error');
+    }
+    return this.finish({ type: 'CallStatement', expression }, start);
+  }
+
+  // Luau statements that start like an expression statement: compound assignment, and the
+  // contextual keywords `continue`, `type` and `export type`.
+  private parseLuauStatement(expression: Expression, start: Token): Statement | null {
+    const token = this.token;
+    if (token.type === 'symbol' && COMPOUND_OPERATORS.has(token.value)) {
+      if (expression.type !== 'Identifier' && expression.type !== 'MemberExpression' && expression.type !== 'IndexExpression') {
+        this.error('syntax error');
+      }
+      this.advance();
+      const value = this.parseExpression();
+      return this.finish<Statement>({
+        type: 'CompoundAssignmentStatement',
+        operator: token.value.slice(0, -1) as CompoundOperator,
+        target: expression,
+        value,
+      }, start);
+    }
+    if (expression.type !== 'Identifier') {
+      return null;
+    }
+    if (expression.name === 'continue' && !this.is('=') && !this.is(',')) {
+      if (this.functionState.loopDepth === 0) {
+        this.error(`'continue' outside a loop`, start);
+      }
+      return this.finish<Statement>({ type: 'ContinueStatement' }, start);
+    }
+    if (expression.name === 'export' && token.type === 'name' && token.value === 'type') {
+      this.advance();
+      return this.parseTypeAlias(start, true);
+    }
+    if (expression.name === 'type' && token.type === 'name') {
+      return this.parseTypeAlias(start, false);
+    }
+    return null;
+  }
+
+  private parseTypeAlias(start: Token, exported: boolean): Statement {
+    const name = this.parseIdentifier();
+    const typeParameters = this.is('<') ? this.parseTypeParameters() : undefined;
+    this.expect('=');
+    const value = this.parseType();
+    return this.finish({
+      type: 'TypeAliasStatement',
+      exported,
+      name,
+      ...(typeParameters ? { typeParameters } : {}),
+      value,
+    }, start);
+  }
+
+  // The first token at or after the given offset, for error reporting.
+  private tokenAt(offset: number): Token {
+    return this.tokens.find(token => token.range[0] >= offset) ?? this.token;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Functions
+  // ---------------------------------------------------------------------------
+
+  // Parses `(params) block end`. `opener` is the `function` token, used in error messages.
+  private parseFunctionBody(opener: Token): FunctionBody {
+    const parameters: Identifier[] = [];
+    let isVararg = false;
+    const types: Pick<FunctionBody, 'typeParameters' | 'varargAnnotation' | 'returnType'> = {};
+
+    if (this.features.luau && this.is('<')) {
+      types.typeParameters = this.parseTypeParameters();
+    }
+    this.expect('(');
+    if (!this.is(')')) {
+      do {
+        if (this.accept('...')) {
+          isVararg = true;
+          if (this.features.luau && this.accept(':')) {
+            types.varargAnnotation = this.parseType();
+          }
+          break;
+        }
+        if (this.token.type !== 'name') {
+          this.error('<name> expected');
+        }
+        parameters.push(this.parseBinding());
+      } while (this.accept(','));
+    }
+    this.expect(')');
+    if (this.features.luau && this.accept(':')) {
+      types.returnType = this.parseType();
+    }
+
+    const outerState = this.functionState;
+    this.functionState = { isVararg, loopDepth: 0 };
+    const body = this.parseInnerBlock();
+    this.functionState = outerState;
+
+    this.expectMatch('end', opener);
+    return { parameters, isVararg, body, ...types };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Luau types
+  // ---------------------------------------------------------------------------
+
+  // Types are validated by the grammar below but stored as text, which is all the printers need.
+  private typeAnnotation(startIndex: number): TypeAnnotation {
+    let text = '';
+    for (let i = startIndex; i < this.index; i++) {
+      const token = this.tokens[i];
+      if (i > startIndex && token.range[0] > this.tokens[i - 1].range[1]) text += ' ';
+      text += token.value;
+    }
+    return this.finish({ type: 'TypeAnnotation', text }, this.tokens[startIndex]);
+  }
+
+  private parseType(): TypeAnnotation {
+    const startIndex = this.index;
+    this.parseTypeExpression();
+    return this.typeAnnotation(startIndex);
+  }
+
+  // `<T, U = string, V...>` on a function or type alias.
+  private parseTypeParameters(): TypeAnnotation {
+    const startIndex = this.index;
+    this.expect('<');
+    do {
+      this.parseIdentifier();
+      this.accept('...');
+      if (this.accept('=')) this.parseTypeExpression();
+    } while (this.accept(','));
+    this.expect('>');
+    return this.typeAnnotation(startIndex);
+  }
+
+  // A union or intersection of simple types, each optionally followed by `?`.
+  private parseTypeExpression(): void {
+    if (!this.accept('|')) this.accept('&');
+    do {
+      this.parseSimpleType();
+      while (this.accept('?'));
+    } while (this.accept('|') || this.accept('&'));
+  }
+
+  private parseSimpleType(): void {
+    const token = this.token;
+    if (token.type === 'string' || this.is('nil') || this.is('true') || this.is('false')) {
+      this.advance();
+    } else if (this.is('{')) {
+      this.parseTableType();
+    } else if (this.is('(') || this.is('<')) {
+      this.parseFunctionType();
+    } else if (this.accept('...')) {
+      this.parseSimpleType();
+    } else if (token.type === 'name' && token.value === 'typeof' && this.peek().value === '(') {
+      this.advance();
+      const open = this.advance();
+      this.parseExpression();
+      this.expectMatch(')', open);
+    } else if (token.type === 'name') {
+      this.advance();
+      if (this.accept('.')) this.parseIdentifier();
+      if (this.accept('...')) return;
+      if (this.is('<')) {
+        const open = this.advance();
+        if (!this.is('>')) {
+          do {
+            this.parseTypeExpression();
+          } while (this.accept(','));
+        }
+        this.expectMatch('>', open);
+      }
+    } else {
+      this.error('type expected');
+    }
+  }
+
+  // `{ T }`, `{ [K]: V }` or `{ name: T, read other: U }`.
+  private parseTableType(): void {
+    const open = this.expect('{');
+    while (!this.is('}')) {
+      if (this.accept('[')) {
+        this.parseTypeExpression();
+        this.expect(']');
+        this.expect(':');
+        this.parseTypeExpression();
+      } else if (this.token.type === 'name' && (this.peek().value === ':' || this.peek().type === 'name')) {
+        if (this.peek().type === 'name') this.advance(); // `read` / `write`
+        this.advance();
+        this.expect(':');
+        this.parseTypeExpression();
+      } else {
+        this.parseTypeExpression();
+      }
+      if (!this.accept(',') && !this.accept(';')) break;
+    }
+    this.expectMatch('}', open);
+  }
+
+  // `(A, name: B, ...C) -> R`, `<T>(T) -> T`, or a parenthesized type or type pack.
+  private parseFunctionType(): void {
+    const generic = this.is('<');
+    if (generic) this.parseTypeParameters();
+    const open = this.expect('(');
+    if (!this.is(')')) {
+      do {
+        if (this.token.type === 'name' && this.peek().value === ':') {
+          this.advance();
+          this.advance();
+        }
+        this.parseTypeExpression();
+      } while (this.accept(','));
+    }
+    this.expectMatch(')', open);
+    if (this.accept('->')) {
+      this.parseTypeExpression();
+    } else if (generic) {
+      this.error(`'->' expected`);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Expressions
+  // ---------------------------------------------------------------------------
+
+  private parseIdentifier(): Identifier {
+    const token = this.token;
+    if (token.type !== 'name') {
+      this.error('<name> expected');
+    }
+    this.advance();
+    return this.finish({ type: 'Identifier', name: token.value }, token);
+  }
+
+  // A declared name, which in Luau may carry a type annotation.
+  private parseBinding(): Identifier {
+    const identifier = this.parseIdentifier();
+    if (this.features.luau && this.accept(':')) {
+      const typeAnnotation = this.parseType();
+      return this.finish({ ...identifier, typeAnnotation }, identifier);
+    }
+    return identifier;
+  }
+
+  private parseExpressionList(): Expression[] {
+    const expressions = [this.parseExpression()];
+    while (this.accept(',')) {
+      expressions.push(this.parseExpression());
+    }
+    return expressions;
+  }
+
+  parseExpression(): Expression {
+    return this.parseSubExpression(0);
+  }
+
+  // Parses an expression whose binary operators all bind tighter than `limit`.
+  private parseSubExpression(limit: number): Expression {
+    const start = this.token;
+    let left: Expression;
+
+    if (UNARY_OPERATORS.has(start.value) && (start.type === 'keyword' || start.type === 'symbol')) {
+      this.advance();
+      const argument = this.parseSubExpression(UNARY_PRIORITY);
+      left = this.finish({
+        type: 'UnaryExpression',
+        operator: start.value as UnaryOperator,
+        argument,
+      }, start);
+    } else {
+      left = this.parseSimpleExpression();
+      if (this.features.luau && this.accept('::')) {
+        const annotation = this.parseType();
+        left = this.finish({ type: 'TypeCastExpression', expression: left, annotation }, start);
+      }
+    }
+
+    for (;;) {
+      const token = this.token;
+      if (token.type !== 'symbol' && token.type !== 'keyword') break;
+      if (!Object.prototype.hasOwnProperty.call(BINARY_PRIORITY, token.value)) break;
+      if (BITWISE_OPERATORS.has(token.value) && !this.features.bitwiseOperators) break;
+      const priority = BINARY_PRIORITY[token.value as BinaryOperator];
+      if (priority[0] <= limit) break;
+      this.advance();
+      const right = this.parseSubExpression(priority[1]);
+      left = this.finish({
+        type: 'BinaryExpression',
+        operator: token.value as BinaryOperator,
+        left,
+        right,
+      }, left);
+    }
+
+    return left;
+  }
+
+  private parseSimpleExpression(): Expression {
+    const token = this.token;
+    switch (token.type) {
+      case 'number':
+        this.advance();
+        return this.finish({ type: 'NumericLiteral', raw: token.value, value: parseNumber(token.value) }, token);
+      case 'string':
+        this.advance();
+        return this.finish({ type: 'StringLiteral', raw: token.value, value: decodeString(token.value) }, token);
+      case 'interpolation':
+        return this.parseInterpolatedString();
+      case 'keyword':
+        switch (token.value) {
+          case 'if':
+            if (this.features.luau) return this.parseIfExpression();
+            break;
+          case 'nil':
+            this.advance();
+            return this.finish({ type: 'NilLiteral' }, token);
+          case 'true':
+          case 'false':
+            this.advance();
+            return this.finish({ type: 'BooleanLiteral', value: token.value === 'true' }, token);
+          case 'function': {
+            this.advance();
+            const functionBody = this.parseFunctionBody(token);
+            return this.finish({ type: 'FunctionExpression', ...functionBody }, token);
+          }
+        }
+        break;
+      case 'symbol':
+        if (token.value === '...') {
+          if (!this.functionState.isVararg) {
+            this.error(`cannot use '...' outside a vararg function`);
+          }
+          this.advance();
+          return this.finish({ type: 'VarargLiteral' }, token);
+        }
+        if (token.value === '{') {
+          return this.parseTableConstructor();
+        }
+        break;
+    }
+    return this.parseSuffixedExpression();
+  }
+
+  private parseIfExpression(): Expression {
+    const start = this.advance();
+    const conditions: Expression[] = [];
+    const values: Expression[] = [];
+    do {
+      conditions.push(this.parseExpression());
+      this.expect('then');
+      values.push(this.parseExpression());
+    } while (this.accept('elseif'));
+    this.expect('else');
+    const alternate = this.parseExpression();
+    return this.finish({ type: 'IfExpression', conditions, values, alternate }, start);
+  }
+
+  private atInterpolation(): boolean {
+    return this.token.type === 'interpolation';
+  }
+
+  private parseInterpolatedString(): InterpolatedString {
+    const start = this.token;
+    const raw: string[] = [];
+    const expressions: Expression[] = [];
+    for (;;) {
+      const piece = this.advance();
+      raw.push(piece.value);
+      // Every piece ends with the `{` that opens an expression or the closing backtick.
+      if (piece.value.endsWith('`')) {
+        break;
+      }
+      if (this.atInterpolation()) {
+        this.error('expression expected');
+      }
+      expressions.push(this.parseExpression());
+      if (!this.atInterpolation()) {
+        this.error(`'}' expected`);
+      }
+    }
+    return this.finish({
+      type: 'InterpolatedString',
+      raw,
+      strings: raw.map(piece => decodeString(piece)),
+      expressions,
+    }, start);
+  }
+
+  private parsePrimaryExpression(): Expression {
+    const token = this.token;
+    if (token.type === 'name') {
+      return this.parseIdentifier();
+    }
+    if (this.is('(')) {
+      this.advance();
+      const expression = this.parseExpression();
+      this.expectMatch(')', token);
+      return this.finish({ type: 'ParenthesizedExpression', expression }, token);
+    }
+    this.error('unexpected symbol');
+  }
+
+  private parseSuffixedExpression(): Expression {
+    const start = this.token;
+    let expression = this.parsePrimaryExpression();
+
+    for (;;) {
+      const token = this.token;
+      if (this.is('.')) {
+        this.advance();
+        const identifier = this.parseIdentifier();
+        expression = this.finish({ type: 'MemberExpression', base: expression, identifier }, start);
+      } else if (this.is('[')) {
+        this.advance();
+        const index = this.parseExpression();
+        this.expect(']');
+        expression = this.finish({ type: 'IndexExpression', base: expression, index }, start);
+      } else if (this.is(':')) {
+        this.advance();
+        const method = this.parseIdentifier();
+        expression = this.parseCallArguments(expression, start, method);
+      } else if (this.is('(') || this.is('{') || token.type === 'string') {
+        expression = this.parseCallArguments(expression, start);
+      } else {
+        return expression;
+      }
+    }
+  }
+
+  private parseCallArguments(base: Expression, start: Located, method?: Identifier): CallExpression {
+    const token = this.token;
+    const call = { type: 'CallExpression' as const, base, ...(method ? { method } : {}) };
+
+    if (token.type === 'string') {
+      this.advance();
+      const argument = this.finish<Expression>({
+        type: 'StringLiteral',
+        raw: token.value,
+        value: decodeString(token.value),
+      }, token);
+      return this.finish({ ...call, arguments: [argument], argumentStyle: 'string' }, start);
+    }
+    if (this.is('{')) {
+      const argument = this.parseTableConstructor();
+      return this.finish({ ...call, arguments: [argument], argumentStyle: 'table' }, start);
+    }
+    if (this.is('(')) {
+      const open = this.advance();
+      const args = this.is(')') ? [] : this.parseExpressionList();
+      this.expectMatch(')', open);
+      return this.finish({ ...call, arguments: args, argumentStyle: 'parentheses' }, start);
+    }
+    this.error('function arguments expected');
+  }
+
+  private parseTableConstructor(): TableConstructor {
+    const start = this.expect('{');
+    const fields: TableField[] = [];
+
+    while (!this.is('}')) {
+      const fieldStart = this.token;
+      if (this.is('[')) {
+        this.advance();
+        const key = this.parseExpression();
+        this.expect(']');
+        this.expect('=');
+        const value = this.parseExpression();
+        fields.push(this.finish({ type: 'TableKeyField', key, value }, fieldStart));
+      } else if (fieldStart.type === 'name' && this.peek().value === '=' && this.peek().type === 'symbol') {
+        const key = this.parseIdentifier();
+        this.advance();
+        const value = this.parseExpression();
+        fields.push(this.finish({ type: 'TableNameField', key, value }, fieldStart));
+      } else {
+        const value = this.parseExpression();
+        fields.push(this.finish({ type: 'TableValueField', value }, fieldStart));
+      }
+
+      if (!this.accept(',') && !this.accept(';')) {
+        break;
+      }
+    }
+
+    this.expectMatch('}', start);
+    return this.finish({ type: 'TableConstructor', fields }, start);
+  }
+}
+
+/**
+ * Parses Lua source code into an AST with source ranges on every node and comments
+ * attached to the nodes around them.
+ * @param source The Lua source code.
+ * @param dialect The dialect to parse; defaults to Lua 5.4.
+ * @returns The root `Chunk` node.
+ * @throws {LuaSyntaxError} When the source is not valid Lua.
+ */
+export function parse(source: string, dialect: LuaDialect = DEFAULT_DIALECT): Chunk {
+  return new Parser(source, dialect).parseChunk();
+}
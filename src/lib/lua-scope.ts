@@ -0,0 +1,263 @@
+// Resolves every name in a chunk to the local variable it refers to, or to a global.
+// The minifier uses this to rename locals safely; it follows Lua's scoping rules, e.g. a
+// `local x = x` initializer still sees the outer `x`, and `until` sees the loop body's locals.
+
+import {
+  getChildren,
+  type Block,
+  type Chunk,
+  type Expression,
+  type FunctionBody,
+  type Identifier,
+  type Node,
+  type Statement,
+} from './lua-ast';
+
+export type VariableKind = 'local' | 'function' | 'parameter' | 'for' | 'self';
+
+export interface Scope {
+  kind: 'chunk' | 'function' | 'block';
+  parent: Scope | null;
+  /** The region of the source the scope covers. */
+  range: [number, number];
+  variables: Variable[];
+  children: Scope[];
+}
+
+export interface Variable {
+  name: string;
+  kind: VariableKind;
+  /** The identifier that declares the variable; absent for the implicit `self` of methods. */
+  declaration?: Identifier;
+  scope: Scope;
+  /** From the declaration to the end of the scope: every reference lies inside this range. */
+  range: [number, number];
+  references: Reference[];
+  /** The variable with the same name that this one hides, if any. */
+  shadows?: Variable;
+}
+
+export interface Reference {
+  identifier: Identifier;
+  /** The local variable the name resolves to, or `null` for a global. */
+  variable: Variable | null;
+  /** Whether the reference assigns to the variable. */
+  write: boolean;
+}
+
+export interface ScopeAnalysis {
+  scope: Scope;
+  /** Every local variable, in declaration order. */
+  variables: Variable[];
+  /** Every variable reference, in source order. */
+  references: Reference[];
+  /** References that did not resolve to a local, grouped by name. */
+  globals: Map<string, Reference[]>;
+}
+
+class ScopeAnalyzer {
+  readonly variables: Variable[] = [];
+  readonly references: Reference[] = [];
+  private scope: Scope;
+
+  constructor(readonly root: Scope) {
+    this.scope = root;
+  }
+
+  private enterScope(kind: Scope['kind'], range: [number, number]): Scope {
+    const scope: Scope = { kind, parent: this.scope, range, variables: [], children: [] };
+    this.scope.children.push(scope);
+    this.scope = scope;
+    return scope;
+  }
+
+  private exitScope(): void {
+    this.scope = this.scope.parent!;
+  }
+
+  private lookup(name: string): Variable | null {
+    for (let scope: Scope | null = this.scope; scope; scope = scope.parent) {
+      for (let i = scope.variables.length - 1; i >= 0; i--) {
+        if (scope.variables[i].name === name) return scope.variables[i];
+      }
+    }
+    return null;
+  }
+
+  private declare(name: string, kind: VariableKind, start: number, declaration?: Identifier): Variable {
+    const variable: Variable = {
+      name,
+      kind,
+      declaration,
+      scope: this.scope,
+      range: [start, this.scope.range[1]],
+      references: [],
+    };
+    const shadowed = this.lookup(name);
+    if (shadowed) variable.shadows = shadowed;
+    this.scope.variables.push(variable);
+    this.variables.push(variable);
+    return variable;
+  }
+
+  private reference(identifier: Identifier, write: boolean): void {
+    const variable = this.lookup(identifier.name);
+    const reference: Reference = { identifier, variable, write };
+    variable?.references.push(reference);
+    this.references.push(reference);
+  }
+
+  visitBlock(block: Block): void {
+    block.body.forEach(statement => this.visitStatement(statement));
+  }
+
+  private visitScopedBlock(block: Block): void {
+    this.enterScope('block', block.range);
+    this.visitBlock(block);
+    this.exitScope();
+  }
+
+  private visitFunction(node: Node & FunctionBody, isMethod: boolean): void {
+    this.enterScope('function', node.range);
+    if (isMethod) {
+      this.declare('self', 'self', node.body.range[0]);
+    }
+    node.parameters.forEach(parameter => this.declare(parameter.name, 'parameter', parameter.range[0], parameter));
+    this.visitBlock(node.body);
+    this.exitScope();
+  }
+
+  private visitStatement(statement: Statement): void {
+    switch (statement.type) {
+      case 'LocalStatement':
+        statement.init.forEach(expression => this.visitExpression(expression));
+        statement.variables.forEach(variable => this.declare(variable.name, 'local', variable.range[0], variable));
+        break;
+      case 'AssignmentStatement':
+        statement.init.forEach(expression => this.visitExpression(expression));
+        statement.targets.forEach(target => {
+          if (target.type === 'Identifier') this.reference(target, true);
+          else this.visitExpression(target);
+        });
+        break;
+      case 'CallStatement':
+        this.visitExpression(statement.expression);
+        break;
+      case 'DoStatement':
+        this.visitScopedBlock(statement.body);
+        break;
+      case 'WhileStatement':
+        this.visitExpression(statement.condition);
+        this.visitScopedBlock(statement.body);
+        break;
+      case 'RepeatStatement':
+        // The `until` condition can see the locals declared in the loop body.
+        this.enterScope('block', [statement.body.range[0], statement.condition.range[1]]);
+        this.visitBlock(statement.body);
+        this.visitExpression(statement.condition);
+        this.exitScope();
+        break;
+      case 'IfStatement':
+        statement.clauses.forEach(clause => {
+          if (clause.condition) this.visitExpression(clause.condition);
+          this.visitScopedBlock(clause.body);
+        });
+        break;
+      case 'NumericForStatement':
+        this.visitExpression(statement.start);
+        this.visitExpression(statement.end);
+        if (statement.step) this.visitExpression(statement.step);
+        this.enterScope('block', [statement.variable.range[0], statement.body.range[1]]);
+        this.declare(statement.variable.name, 'for', statement.variable.range[0], statement.variable);
+        this.visitBlock(statement.body);
+        this.exitScope();
+        break;
+      case 'GenericForStatement':
+        statement.iterators.forEach(expression => this.visitExpression(expression));
+        this.enterScope('block', [statement.variables[0].range[0], statement.body.range[1]]);
+        statement.variables.forEach(variable => this.declare(variable.name, 'for', variable.range[0], variable));
+        this.visitBlock(statement.body);
+        this.exitScope();
+        break;
+      case 'FunctionStatement': {
+        const { name } = statement;
+        // `function f()` assigns to `f`; `function t.f()` only reads `t`.
+        this.reference(name.base, name.path.length === 0 && !name.method);
+        this.visitFunction(statement, Boolean(name.method));
+        break;
+      }
+      case 'LocalFunctionStatement':
+        // Declared before the body so the function can call itself.
+        this.declare(statement.name.name, 'function', statement.name.range[0], statement.name);
+        this.visitFunction(statement, false);
+        break;
+      case 'ReturnStatement':
+        statement.arguments.forEach(expression => this.visitExpression(expression));
+        break;
+      case 'CompoundAssignmentStatement':
+        this.visitExpression(statement.value);
+        // `x += 1` both reads and writes `x`.
+        if (statement.target.type === 'Identifier') {
+          this.reference(statement.target, false);
+          this.reference(statement.target, true);
+        } else {
+          this.visitExpression(statement.target);
+        }
+        break;
+      case 'BreakStatement':
+      case 'GotoStatement':
+      case 'LabelStatement':
+      case 'EmptyStatement':
+      case 'ContinueStatement':
+      case 'TypeAliasStatement':
+        break;
+    }
+  }
+
+  private visitExpression(expression: Expression): void {
+    switch (expression.type) {
+      case 'Identifier':
+        this.reference(expression, false);
+        break;
+      case 'FunctionExpression':
+        this.visitFunction(expression, false);
+        break;
+      case 'MemberExpression':
+        this.visitExpression(expression.base);
+        break;
+      case 'CallExpression':
+        this.visitExpression(expression.base);
+        expression.arguments.forEach(argument => this.visitExpression(argument));
+        break;
+      case 'TableConstructor':
+        expression.fields.forEach(field => {
+          if (field.type === 'TableKeyField') this.visitExpression(field.key);
+          this.visitExpression(field.value);
+        });
+        break;
+      default:
+        getChildren(expression).forEach(child => this.visitExpression(child as Expression));
+    }
+  }
+}
+
+/**
+ * Analyzes the variable scopes of a parsed chunk.
+ * @param chunk The chunk returned by `parse`.
+ * @returns The scope tree, every local variable with its references, and the globals used.
+ */
+export function analyzeScopes(chunk: Chunk): ScopeAnalysis {
+  const scope: Scope = { kind: 'chunk', parent: null, range: chunk.range, variables: [], children: [] };
+  const analyzer = new ScopeAnalyzer(scope);
+  analyzer.visitBlock(chunk.body);
+
+  const globals = new Map<string, Reference[]>();
+  for (const reference of analyzer.references) {
+    if (reference.variable) continue;
+    const existing = globals.get(reference.identifier.name);
+    if (existing) existing.push(reference);
+    else globals.set(reference.identifier.name, [reference]);
+  }
+
+  return { scope, variables: analyzer.variables, references: analyzer.references, globals };
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { deleteCustomComments } from './lua-utils';
+
+const HASH_COMMENTS = {
+  singleLine: false,
+  multiLine: false,
+  customSingle: '#',
+  customMultiStart: '',
+  customMultiEnd: '',
+};
+
+describe('deleteCustomComments', () => {
+  it('keeps the length operator while deleting # comments', () => {
+    const code = 'local n = #t # count the items\nprint(#t, n)\n# a whole line\n';
+    expect(deleteCustomComments(code, HASH_COMMENTS, 'lua51')).toBe('local n = #t\nprint(#t, n)');
+  });
+
+  it('does not match markers inside strings', () => {
+    const code = 'local s = "# not a comment" # a comment\n';
+    expect(deleteCustomComments(code, HASH_COMMENTS, 'lua51')).toBe('local s = "# not a comment"');
+  });
+});
@@ -1,170 +1,323 @@
-// Helper function to safely handle string literals by replacing them with placeholders.
-function protectStrings(code: string): { protectedCode: string; strings: string[] } {
-  const strings: string[] = [];
-  let stringIndex = 0;
-
-  // This function is called iteratively to replace each found string with a placeholder
-  const replacer = (match: string) => {
-    const placeholder = `__LUA_STRING_${stringIndex++}__`;
-    strings.push(match);
-    return placeholder;
-  };
-
-  // Protect long strings first: [[...]], [=[...]=], etc.
-  // Then protect single and double quoted strings. This regex handles escaped quotes.
-  const protectedCode = code
-    .replace(/\[(=*)\[([\s\S]*?)\]\1\]/g, replacer)
-    .replace(/'([^'\\]*(\\.[^'\\]*)*)'|"([^"\\]*(\\.[^"\\]*)*)"/g, replacer);
-  
-  return { protectedCode, strings };
-}
-
-// Helper function to restore the original strings from placeholders.
-// It iterates backward to avoid issues with nested placeholders.
-function restoreStrings(protectedCode: string, strings: string[]): string {
-    let code = protectedCode;
-    for (let i = strings.length - 1; i >= 0; i--) {
-        code = code.replace(`__LUA_STRING_${i}__`, () => strings[i]);
-    }
-    return code;
+import { isDirectiveComment } from './lua-directives';
+import { DEFAULT_DIALECT, DIALECTS, type LuaDialect } from './lua-dialect';
+import { Lexer, Token, tokenize, needsSeparator } from './lua-lexer';
+import { MappedOutput, type MappedCode } from './source-map';
+
+export type CustomDeleteOptions = {
+  singleLine: boolean;
+  multiLine: boolean;
+  customSingle: string;
+  customMultiStart: string;
+  customMultiEnd: string;
+  /** Keeps `-- luaforge-disable…` comments, which configure the linter. */
+  keepDirectives?: boolean;
+};
+
+// Collects every comment token in the code, in source order.
+function collectComments(code: string, dialect: LuaDialect): Token[] {
+  return tokenize(code, dialect).filter(token => token.type === 'comment');
+}
+
+// Whether removing the text between `left` and `right` could glue two tokens together,
+// e.g. `local--[[x]]y` or `a--[[x]]-b`. This errs on the side of inserting a space.
+function wouldMerge(left: string, right: string): boolean {
+  if (!left || !right || /\s/.test(left) || /\s/.test(right)) return false;
+  const word = /[A-Za-z0-9_]/;
+  if (word.test(left) && (word.test(right) || right === '.')) return true;
+  if (left === '.' && word.test(right)) return true;
+  return '-=<>~/:.['.includes(left) && '-=<>/:.['.includes(right);
+}
+
+// Collapses blank lines and trims the code, touching only the whitespace between tokens
+// so that the contents of strings and comments are never modified.
+function collapseBlankLines(code: string, dialect: LuaDialect): string {
+  const tokens = tokenize(code, dialect);
+  let result = '';
+  let lastEnd = 0;
+  for (const token of tokens) {
+    const gap = code.slice(lastEnd, token.range[0]);
+    result += gap.replace(/[ \t]+(?=\r?\n)/g, '').replace(/\n\s*\n/g, '\n') + token.value;
+    lastEnd = token.range[1];
+  }
+  return result.trim();
 }
 
+// Removes the given [start, end) ranges from the code, inserting a space where needed
+// to keep the surrounding tokens apart.
+function removeRanges(code: string, ranges: Array<[number, number]>): string {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  let result = '';
+  let lastEnd = 0;
+  for (const [start, end] of sorted) {
+    if (end <= lastEnd) continue;
+    result += code.slice(lastEnd, Math.max(start, lastEnd));
+    lastEnd = end;
+    if (wouldMerge(result[result.length - 1] ?? '', code[end] ?? '')) {
+      result += ' ';
+    }
+  }
+  return result + code.slice(lastEnd);
+}
 
 /**
  * A safer check for comments that ignores comment-like syntax inside strings.
  * @param code The input Lua code string.
- * @returns True if comments are likely present, false otherwise.
+ * @param dialect The Lua dialect of the code.
+ * @returns True if the code contains at least one comment, false otherwise (including when it cannot be tokenized).
+ */
+export function hasComments(code: string, dialect: LuaDialect = DEFAULT_DIALECT): boolean {
+  const lexer = new Lexer(code, { dialect });
+  try {
+    for (let token = lexer.next(); token.type !== 'eof'; token = lexer.next()) {
+      if (token.type === 'comment') return true;
+    }
+  } catch {
+    // Code that cannot be tokenized offers nothing we can safely delete.
+  }
+  return false;
+}
+
+// The end of the comments at the top of the file, such as a license, which end at the first
+// blank line or line of code.
+function findHeaderEnd(tokens: Token[], code: string): number {
+  let end = 0;
+  let inHeader = false;
+  for (const token of tokens) {
+    if (token.type === 'shebang') {
+      end = token.range[1];
+      continue;
+    }
+    if (token.type !== 'comment' || (inHeader && /\n[ \t]*\r?\n/.test(code.slice(end, token.range[0])))) break;
+    end = token.range[1];
+    inHeader = true;
+  }
+  return end;
+}
+
+/**
+ * Splits off the comments at the top of the file, such as a license header, together with any
+ * shebang, so that transforms which drop comments can run on the rest.
+ * @param code The input Lua code.
+ * @param dialect The Lua dialect of the code.
+ * @returns The header, up to the end of its last comment, and the code after it.
  */
-export function hasComments(code: string): boolean {
-  const { protectedCode } = protectStrings(code);
-  return /--/.test(protectedCode);
+export function splitHeader(code: string, dialect: LuaDialect = DEFAULT_DIALECT): { header: string; body: string } {
+  const end = findHeaderEnd(tokenize(code, dialect), code);
+  return { header: code.slice(0, end), body: code.slice(end) };
 }
 
 /**
  * A robust function to delete comments that avoids breaking strings.
  * @param code The input Lua code string.
+ * @param dialect The Lua dialect of the code.
+ * @param options `keepDirectives` keeps `-- luaforge-disable…` comments; `keepHeader` keeps the
+ * comments at the top of the file, such as a license header.
  * @returns Code with comments removed.
  */
-export function deleteAllComments(code: string): string {
-  const { protectedCode, strings } = protectStrings(code);
+export function deleteAllComments(
+  code: string,
+  dialect: LuaDialect = DEFAULT_DIALECT,
+  options: { keepDirectives?: boolean; keepHeader?: boolean } = {}
+): string {
+  const tokens = tokenize(code, dialect);
+  const headerEnd = options.keepHeader ? findHeaderEnd(tokens, code) : 0;
+  const ranges = tokens
+    .filter(token => token.type === 'comment' && token.range[0] >= headerEnd)
+    .filter(comment => !(options.keepDirectives && isDirectiveComment(comment)))
+    .map(comment => comment.range);
+  return collapseBlankLines(removeRanges(code, ranges), dialect);
+}
 
-  // These regexes now run on code where strings have been replaced by placeholders.
-  let noComments = protectedCode
-    .replace(/--\[\[[\s\S]*?\]\]/g, '') // Multi-line block comments
-    .replace(/--\[=\[[\s\S]*?\]=\]/g, '') // Alternative multi-line block comments
-    .replace(/--[^\n]*/g, ''); // Single-line comments
-  
-  const codeWithCleanedLines = noComments.replace(/\n\s*\n/g, '\n').trim();
+// Tokens after which Lua expects an expression, so that a marker there is an operand, as `#`
+// is in `n = #t`, and not the start of a comment.
+const EXPRESSION_OPENERS = new Set([
+  '=', '(', '[', '{', ',', '+', '-', '*', '/', '%', '^', '<', '>', '~', '.', '&', '|', '#',
+  'return', 'and', 'or', 'not', 'if', 'elseif', 'while', 'until', 'in',
+]);
 
-  return restoreStrings(codeWithCleanedLines, strings);
-}
+// Characters that can begin an expression, which a marker may be mistaken for.
+const EXPRESSION_START = /^[#\-~({[.'"A-Za-z0-9_]/;
+
+// Finds comments to delete, walking the code token by token so that markers inside
+// strings and Lua comments are never matched. Custom markers only match outside tokens,
+// since they usually mark text that is not valid Lua to begin with, and not where an
+// expression is expected.
+function findCustomCommentRanges(
+  code: string,
+  options: CustomDeleteOptions,
+  dialect: LuaDialect
+): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  const lexer = new Lexer(code, { dialect });
+  const interpolation = DIALECTS[dialect].features.luau;
+  const customMulti = options.customMultiStart && options.customMultiEnd;
+  // The last word or symbol outside comments, or '' after a string.
+  let previous: string | null = null;
+  const isOperand = (marker: string) =>
+    previous !== null && EXPRESSION_OPENERS.has(previous) && EXPRESSION_START.test(marker);
+  let i = 0;
+
+  if (code.startsWith('#')) {
+    // Never touch a shebang line.
+    i = lexer.next().range[1];
+  }
+
+  while (i < code.length) {
+    const ch = code[i];
+    const startsToken =
+      ch === '"' || ch === "'" ||
+      (ch === '`' && interpolation) ||
+      (ch === '-' && code[i + 1] === '-') ||
+      (ch === '[' && (code[i + 1] === '[' || code[i + 1] === '='));
+
+    if (startsToken) {
+      lexer.seek(i);
+      let token = lexer.next();
+      if (token.type === 'comment') {
+        const isLong = token.level !== undefined;
+        const keep = options.keepDirectives && isDirectiveComment(token);
+        if (!keep && ((isLong && options.multiLine) || (!isLong && options.singleLine))) {
+          ranges.push(token.range);
+        }
+      }
+      if (token.type !== 'comment') previous = '';
+      // An interpolated string is skipped as a whole, embedded expressions included.
+      while (lexer.inInterpolation) {
+        token = lexer.next();
+      }
+      i = token.range[1];
+      continue;
+    }
+
+    if (customMulti && code.startsWith(options.customMultiStart, i) && !isOperand(options.customMultiStart)) {
+      const endIndex = code.indexOf(options.customMultiEnd, i + options.customMultiStart.length);
+      if (endIndex !== -1) {
+        const end = endIndex + options.customMultiEnd.length;
+        ranges.push([i, end]);
+        i = end;
+        continue;
+      }
+    }
 
-// Helper to escape regex special characters
-function escapeRegExp(string: string) {
-  return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'); // $& means the whole matched string
+    if (options.customSingle && code.startsWith(options.customSingle, i) && !isOperand(options.customSingle)) {
+      let end = i;
+      while (end < code.length && code[end] !== '\n' && code[end] !== '\r') end++;
+      ranges.push([i, end]);
+      i = end;
+      continue;
+    }
+
+    // Skip whole words so that markers only match at the start of one.
+    if (/[A-Za-z0-9_]/.test(ch)) {
+      const start = i;
+      while (i < code.length && /[A-Za-z0-9_]/.test(code[i])) i++;
+      previous = code.slice(start, i);
+    } else {
+      if (!/\s/.test(ch)) previous = ch;
+      i++;
+    }
+  }
+
+  return ranges;
 }
 
 /**
  * Deletes comments from Lua code based on a set of options.
  * @param code The input Lua code.
  * @param options An object specifying which comments to delete.
+ * @param dialect The Lua dialect of the code.
  * @returns Code with specified comments removed.
  */
 export function deleteCustomComments(
-  code: string, 
-  options: {
-    singleLine: boolean;
-    multiLine: boolean;
-    customSingle: string;
-    customMultiStart: string;
-    customMultiEnd: string;
-  }
+  code: string,
+  options: CustomDeleteOptions,
+  dialect: LuaDialect = DEFAULT_DIALECT
 ): string {
-  const { protectedCode, strings } = protectStrings(code);
-  let processedCode = protectedCode;
-
-  // Standard single-line comments
-  if (options.singleLine) {
-    processedCode = processedCode.replace(/--[^\n]*/g, '');
-  }
-  // Standard multi-line comments
-  if (options.multiLine) {
-    processedCode = processedCode
-      .replace(/--\[\[[\s\S]*?\]\]/g, '')
-      .replace(/--\[=\[[\s\S]*?\]=\]/g, '');
-  }
-
-  // Custom single-line comments
-  if (options.customSingle) {
-    const customSinglePrefix = escapeRegExp(options.customSingle);
-    const regex = new RegExp(`${customSinglePrefix}[^\\n]*`, 'g');
-    processedCode = processedCode.replace(regex, '');
-  }
+  const ranges = findCustomCommentRanges(code, options, dialect);
+  return collapseBlankLines(removeRanges(code, ranges), dialect);
+}
 
-  // Custom multi-line comments
-  if (options.customMultiStart && options.customMultiEnd) {
-    const customStart = escapeRegExp(options.customMultiStart);
-    const customEnd = escapeRegExp(options.customMultiEnd);
-    const regex = new RegExp(`${customStart}[\\s\\S]*?${customEnd}`, 'g');
-    processedCode = processedCode.replace(regex, '');
+// The lowest long-bracket level at which `text` can be wrapped as `[==[text]==]`. The closing
+// bracket must not occur in the text, nor be completed by its tail, as in `a]=` followed by `]=]`.
+function safeLongBracketLevel(text: string): number {
+  for (let level = 0; ; level++) {
+    const close = `]${'='.repeat(level)}]`;
+    if ((text + close).indexOf(close) === text.length) return level;
   }
-  
-  const codeWithCleanedLines = processedCode.replace(/\n\s*\n/g, '\n').trim();
-
-  return restoreStrings(codeWithCleanedLines, strings);
 }
 
 /**
  * Converts multi-line Lua code into a single line, safely handling strings.
  * @param code The input Lua code.
  * @param commentOption Whether to 'preserve' or 'delete' comments.
+ * @param dialect The Lua dialect of the code.
  * @returns Single-line code string.
  */
-export function toOneLiner(code: string, commentOption: 'preserve' | 'delete'): string {
-  let processedCode = code;
-
-  // If preserving comments, we need to convert single-line comments to block comments
-  // to prevent them from consuming the rest of the one-liner.
-  if (commentOption === 'preserve') {
-    const { protectedCode, strings } = protectStrings(code);
-    
-    const lines = protectedCode.split('\n');
-    const newLines = lines.map(line => {
-      const commentIndex = line.indexOf('--');
-      
-      // Check if it's a true single-line comment (and not a block comment starter)
-      if (commentIndex !== -1 && !line.substring(commentIndex).startsWith('--[')) {
-        const codePart = line.substring(0, commentIndex);
-        const commentPart = line.substring(commentIndex + 2);
-
-        // If the original comment text contains the block comment terminator,
-        // this simple wrapping will break. As a safe fallback, we'll just remove
-        // such problematic comments instead of trying complex wrapping.
-        if (commentPart.includes(']]')) {
-          return codePart;
-        }
+export function toOneLiner(
+  code: string,
+  commentOption: 'preserve' | 'delete',
+  dialect: LuaDialect = DEFAULT_DIALECT
+): string {
+  return toOneLinerWithMappings(code, commentOption, dialect).code;
+}
 
-        // Wrap the single-line comment into a block comment.
-        return codePart + ' --[[' + commentPart + ']]';
+/**
+ * Same as `toOneLiner`, but also returns the mappings needed to build a source map.
+ * @param code The input Lua code.
+ * @param commentOption Whether to 'preserve' or 'delete' comments.
+ * @param dialect The Lua dialect of the code.
+ * @returns The single-line code and the position of every token in the input.
+ */
+export function toOneLinerWithMappings(
+  code: string,
+  commentOption: 'preserve' | 'delete',
+  dialect: LuaDialect = DEFAULT_DIALECT
+): MappedCode {
+  const tokens = tokenize(code, dialect);
+  const output = new MappedOutput();
+  let previous: Token | null = null;
+  let lastEnd = 0;
+  let pendingSpace = false;
+
+  for (const token of tokens) {
+    if (token.type === 'eof') break;
+    if (token.type === 'shebang') {
+      // The shebang must stay on its own line to remain valid.
+      output.append(token.value + '\n', token.loc.start);
+      lastEnd = token.range[1];
+      continue;
+    }
+
+    pendingSpace = pendingSpace || token.range[0] > lastEnd;
+    lastEnd = token.range[1];
+    let text = token.value;
+
+    if (token.type === 'comment') {
+      if (commentOption === 'delete') {
+        pendingSpace = true;
+        continue;
       }
-      return line;
-    });
-    // Join lines with a space, now that single-line comments are safely wrapped.
-    processedCode = restoreStrings(newLines.join(' '), strings);
-  } else {
-    // If deleting comments, just use the existing safe function.
-    processedCode = deleteAllComments(processedCode);
-  }
+      if (token.level === undefined) {
+        // Wrap single-line comments into block comments so they don't swallow the rest of the line,
+        // at a bracket level that the comment text cannot close early.
+        const commentPart = token.value.slice(2);
+        const equals = '='.repeat(safeLongBracketLevel(commentPart));
+        text = `--[${equals}[${commentPart}]${equals}]`;
+      } else {
+        text = token.value.replace(/\s*(\r\n|\r|\n)\s*/g, ' ');
+      }
+    }
 
-  // Final step: collapse all newlines and extra spaces from the processed code.
-  // This handles both the 'preserve' and 'delete' paths.
-  const { protectedCode: finalProtectedCode, strings: finalStrings } = protectStrings(processedCode);
-  const oneLiner = finalProtectedCode
-    .replace(/\s*\n\s*/g, ' ') // Replace any remaining newlines with spaces
-    .replace(/ +/g, ' ')       // Collapse multiple spaces into one
-    .trim();
+    const emitted: Token = { ...token, value: text };
+    if (previous && (pendingSpace || needsSeparator(previous, emitted, dialect))) {
+      output.append(' ');
+    }
+    output.append(text, token.loc.start);
+    previous = emitted;
+    pendingSpace = false;
+  }
 
-  return restoreStrings(oneLiner, finalStrings);
+  return output.toMappedCode();
 }
 
 /**
@@ -178,51 +331,39 @@ export function reverseCode(code: string): string {
 
 /**
  * Extracts all comments from a Lua code string for inspection.
- * Note: This function is for display/inspection and may find false positives within complex string literals.
- * The deletion functions are safer.
  * @param code The input Lua code.
+ * @param dialect The Lua dialect of the code.
  * @returns An array of objects containing the line number and content of each comment.
  */
-export function extractAllComments(code: string): { line: number, content: string }[] {
-    const comments: { line: number, content: string }[] = [];
-    // This regex finds both multi-line block comments and single-line comments.
-    const commentRegex = /--\[(=*)\[[\s\S]*?\]\1\]|--[^\n]*/g;
-    
-    let match;
-    while ((match = commentRegex.exec(code)) !== null) {
-      // Calculate the line number where the comment starts.
-      const line = (code.substring(0, match.index).match(/\n/g) || []).length + 1;
-      comments.push({ line, content: match[0] });
-    }
-
-    return comments;
+export function extractAllComments(
+  code: string,
+  dialect: LuaDialect = DEFAULT_DIALECT
+): { line: number, content: string }[] {
+    return collectComments(code, dialect).map(comment => ({
+      line: comment.loc.start.line,
+      content: comment.value,
+    }));
 }
 
 /**
  * Deletes a comment from the code by its sequential index.
  * @param code The input Lua code.
  * @param indexToDelete The zero-based index of the comment to delete.
+ * @param dialect The Lua dialect of the code.
  * @returns The code with the specified comment removed.
  */
-export function deleteCommentByIndex(code: string, indexToDelete: number): string {
-    const commentRegex = /--\[(=*)\[[\s\S]*?\]\1\]|--[^\n]*/g;
-    
-    const matches = [];
-    let match;
-    // Find all comment matches first
-    while ((match = commentRegex.exec(code)) !== null) {
-        matches.push({
-            startIndex: match.index,
-            endIndex: match.index + match[0].length
-        });
-    }
+export function deleteCommentByIndex(
+  code: string,
+  indexToDelete: number,
+  dialect: LuaDialect = DEFAULT_DIALECT
+): string {
+    const comments = collectComments(code, dialect);
 
     // If the index is valid, reconstruct the string without the comment
-    if (indexToDelete >= 0 && indexToDelete < matches.length) {
-        const matchToDelete = matches[indexToDelete];
-        return code.substring(0, matchToDelete.startIndex) + code.substring(matchToDelete.endIndex);
+    if (indexToDelete >= 0 && indexToDelete < comments.length) {
+        return removeRanges(code, [comments[indexToDelete].range]);
     }
-    
+
     // Return original code if index is out of bounds
     return code;
 }
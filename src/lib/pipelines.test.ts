@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { createStep, parsePipeline, runPipeline } from './pipelines';
+
+const CODE = `-- mylib v1.0.0
+-- Copyright (c) 2024, MIT License
+
+-- Says hello.
+local function greet(name)
+  return "hi " .. name -- the greeting
+end
+print(greet("w"))
+`;
+
+describe('runPipeline', () => {
+  it('keeps the license header through delete comments, minify and banner', () => {
+    const steps = [
+      createStep('delete-comments'),
+      createStep('minify'),
+      { kind: 'banner' as const, text: '-- built by mylib' },
+    ];
+    const results = runPipeline(CODE, steps, 'lua51');
+    const last = results[results.length - 1];
+    expect(last).toEqual({
+      ok: true,
+      output: '-- built by mylib\n-- mylib v1.0.0\n-- Copyright (c) 2024, MIT License\nlocal function a(b)return"hi "..b end print(a("w"))',
+    });
+  });
+
+  it('keeps the header through a one liner that deletes comments', () => {
+    const [result] = runPipeline(CODE, [createStep('one-liner')], 'lua51');
+    expect(result.ok && result.output.split('\n')).toEqual([
+      '-- mylib v1.0.0',
+      '-- Copyright (c) 2024, MIT License',
+      expect.not.stringContaining('--'),
+    ]);
+  });
+
+  it('gives imported steps without the option the same default as new ones', () => {
+    const pipeline = parsePipeline(JSON.stringify({
+      name: 'Release',
+      steps: [{ kind: 'delete-comments' }, { kind: 'one-liner' }, { kind: 'minify' }],
+    }));
+    expect(pipeline.steps).toEqual([createStep('delete-comments'), createStep('one-liner'), createStep('minify')]);
+    const [result] = runPipeline(CODE, pipeline.steps.slice(2), 'lua51');
+    expect(result.ok && result.output).toContain('-- mylib v1.0.0');
+  });
+});
@@ -0,0 +1,255 @@
+// Pipelines chain the editor's transforms, e.g. "delete comments except the license header, minify,
+// prepend a banner", so that a release build is one click. Each step keeps its own options, and
+// saved pipelines can be exported as JSON and shared.
+
+import { z } from 'zod';
+import { formatOptionsSchema } from './format-profiles';
+import { checkTransformOutput } from './lua-check';
+import type { LuaDialect } from './lua-dialect';
+import { luauToLua51, stripTypes } from './lua-downlevel';
+import { DEFAULT_FORMAT_OPTIONS, formatCode, type FormatOptions } from './lua-formatter';
+import { minify } from './lua-minifier';
+import { deleteAllComments, deleteCustomComments, splitHeader, toOneLiner, type CustomDeleteOptions } from './lua-utils';
+
+export type PipelineStep =
+  | { kind: 'beautify'; options: FormatOptions }
+  | { kind: 'delete-comments'; keepHeader: boolean; keepDirectives: boolean }
+  | { kind: 'custom-delete'; options: CustomDeleteOptions }
+  | { kind: 'one-liner'; comments: 'preserve' | 'delete'; keepHeader: boolean }
+  | { kind: 'minify'; keepHeader: boolean }
+  | { kind: 'strip-types' }
+  | { kind: 'luau-to-lua51' }
+  | { kind: 'banner'; text: string };
+
+export type PipelineStepKind = PipelineStep['kind'];
+
+export type Pipeline = {
+  name: string;
+  steps: PipelineStep[];
+};
+
+export type PipelineStepResult =
+  | { ok: true; output: string }
+  | { ok: false; error: string };
+
+export const PIPELINE_STEP_LABELS: Record<PipelineStepKind, string> = {
+  'beautify': 'Beautify',
+  'delete-comments': 'Delete comments',
+  'custom-delete': 'Custom delete',
+  'one-liner': 'To one liner',
+  'minify': 'Minify',
+  'strip-types': 'Strip Luau types',
+  'luau-to-lua51': 'Luau to Lua 5.1',
+  'banner': 'Prepend banner',
+};
+
+const PIPELINES_KEY = 'luaforge.pipelines';
+
+const DEFAULT_CUSTOM_DELETE: CustomDeleteOptions = {
+  singleLine: true,
+  multiLine: true,
+  customSingle: '',
+  customMultiStart: '',
+  customMultiEnd: '',
+  keepDirectives: false,
+};
+
+// Steps that drop comments keep the license or module header unless told otherwise, whether they
+// were added in the editor or read from a pipeline file that leaves the option out.
+const DEFAULT_KEEP_HEADER = true;
+
+/**
+ * Creates a step with default options.
+ * @param kind The kind of step.
+ * @param formatOptions The options a Beautify step starts with.
+ * @returns The new step.
+ */
+export function createStep(kind: PipelineStepKind, formatOptions: FormatOptions = DEFAULT_FORMAT_OPTIONS): PipelineStep {
+  switch (kind) {
+    case 'beautify':
+      return { kind, options: formatOptions };
+    case 'delete-comments':
+      return { kind, keepHeader: DEFAULT_KEEP_HEADER, keepDirectives: false };
+    case 'custom-delete':
+      return { kind, options: DEFAULT_CUSTOM_DELETE };
+    case 'one-liner':
+      return { kind, comments: 'delete', keepHeader: DEFAULT_KEEP_HEADER };
+    case 'minify':
+      return { kind, keepHeader: DEFAULT_KEEP_HEADER };
+    case 'banner':
+      return { kind, text: '' };
+    default:
+      return { kind };
+  }
+}
+
+// Keeps a shebang on the first line, where it has to be.
+function prependBanner(code: string, text: string): string {
+  if (!text.trim()) return code;
+  const banner = text.replace(/\s+$/, '') + '\n';
+  if (code.startsWith('#')) {
+    const lineEnd = code.indexOf('\n');
+    if (lineEnd === -1) return `${code}\n${banner}`;
+    return code.slice(0, lineEnd + 1) + banner + code.slice(lineEnd + 1);
+  }
+  return banner + code;
+}
+
+// Runs a transform that drops comments on the code after the header, which is kept as it was.
+function keepingHeader(code: string, dialect: LuaDialect, transform: (code: string) => string): string {
+  const { header, body } = splitHeader(code, dialect);
+  if (!header) return transform(code);
+  const output = transform(body);
+  return output ? `${header.replace(/\s+$/, '')}\n${output}` : header;
+}
+
+// Steps that only remove comments or whitespace are checked like the editor's own actions.
+function runStep(code: string, step: PipelineStep, dialect: LuaDialect): string {
+  let output: string;
+  switch (step.kind) {
+    case 'beautify':
+      return formatCode(code, step.options, dialect);
+    case 'delete-comments':
+      output = deleteAllComments(code, dialect, { keepHeader: step.keepHeader, keepDirectives: step.keepDirectives });
+      break;
+    case 'custom-delete':
+      output = deleteCustomComments(code, step.options, dialect);
+      break;
+    case 'one-liner': {
+      const transform = (body: string) => toOneLiner(body, step.comments, dialect);
+      output = step.keepHeader ? keepingHeader(code, dialect, transform) : transform(code);
+      break;
+    }
+    case 'minify': {
+      const transform = (body: string) => minify(body, dialect);
+      return step.keepHeader ? keepingHeader(code, dialect, transform) : transform(code);
+    }
+    case 'strip-types':
+      return stripTypes(code);
+    case 'luau-to-lua51':
+      return luauToLua51(code);
+    case 'banner':
+      return prependBanner(code, step.text);
+  }
+  const diagnostic = checkTransformOutput(code, output, dialect);
+  if (diagnostic) throw new Error(diagnostic.message);
+  return output;
+}
+
+/**
+ * Runs the steps of a pipeline one after the other, stopping at the first that fails.
+ * @param code The input code.
+ * @param steps The steps to run.
+ * @param dialect The Lua dialect of the input.
+ * @param onProgress Called before each step with the number of steps run so far.
+ * @returns The result of every step that ran, in order; the last is the pipeline's output.
+ */
+export function runPipeline(
+  code: string,
+  steps: PipelineStep[],
+  dialect: LuaDialect,
+  onProgress?: (completed: number, total: number) => void,
+): PipelineStepResult[] {
+  const results: PipelineStepResult[] = [];
+  let current = code;
+  for (const step of steps) {
+    onProgress?.(results.length, steps.length);
+    try {
+      current = runStep(current, step, dialect);
+      results.push({ ok: true, output: current });
+    } catch (e) {
+      results.push({ ok: false, error: e instanceof Error ? e.message : 'An unknown error occurred' });
+      break;
+    }
+  }
+  return results;
+}
+
+// Missing options fall back to the defaults so that hand-written pipelines only need the kinds.
+const stepSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('beautify'),
+    options: formatOptionsSchema.partial().default({}).transform(options => ({ ...DEFAULT_FORMAT_OPTIONS, ...options })),
+  }),
+  z.object({
+    kind: z.literal('delete-comments'),
+    keepHeader: z.boolean().default(DEFAULT_KEEP_HEADER),
+    keepDirectives: z.boolean().default(false),
+  }),
+  z.object({
+    kind: z.literal('custom-delete'),
+    options: z.object({
+      singleLine: z.boolean(),
+      multiLine: z.boolean(),
+      customSingle: z.string(),
+      customMultiStart: z.string(),
+      customMultiEnd: z.string(),
+      keepDirectives: z.boolean(),
+    }).partial().default({}).transform(options => ({ ...DEFAULT_CUSTOM_DELETE, ...options })),
+  }),
+  z.object({
+    kind: z.literal('one-liner'),
+    comments: z.enum(['preserve', 'delete']).default('delete'),
+    keepHeader: z.boolean().default(DEFAULT_KEEP_HEADER),
+  }),
+  z.object({ kind: z.literal('minify'), keepHeader: z.boolean().default(DEFAULT_KEEP_HEADER) }),
+  z.object({ kind: z.literal('strip-types') }),
+  z.object({ kind: z.literal('luau-to-lua51') }),
+  z.object({ kind: z.literal('banner'), text: z.string() }),
+]);
+
+const pipelineSchema = z.object({
+  name: z.string().trim().min(1),
+  steps: z.array(stepSchema),
+});
+
+/**
+ * Loads the saved pipelines from localStorage.
+ * @returns The saved pipelines, or none when nothing valid is stored.
+ */
+export function loadPipelines(): Pipeline[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PIPELINES_KEY) ?? '[]');
+    return z.array(pipelineSchema).parse(stored);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Saves the user's pipelines to localStorage.
+ * @param pipelines All saved pipelines.
+ */
+export function savePipelines(pipelines: Pipeline[]): void {
+  localStorage.setItem(PIPELINES_KEY, JSON.stringify(pipelines));
+}
+
+/**
+ * Parses an exported pipeline file.
+ * @param json The contents of the file.
+ * @returns The pipeline it describes.
+ * @throws {Error} When the file is not a valid pipeline.
+ */
+export function parsePipeline(json: string): Pipeline {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const result = pipelineSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid pipeline: ${issue.path.join('.') || 'root'} ${issue.message.toLowerCase()}.`);
+  }
+  return result.data;
+}
+
+/**
+ * Serializes a pipeline for export.
+ * @param pipeline The pipeline to export.
+ * @returns Pretty-printed JSON.
+ */
+export function serializePipeline(pipeline: Pipeline): string {
+  return JSON.stringify(pipeline, null, 2);
+}
@@ -0,0 +1,219 @@
+// Keeps the editor's state in IndexedDB: the current session, restored when the page loads, and
+// named snapshots the user saves. localStorage is too small for a workspace and its history.
+
+import { openDB, type DBSchema, type IDBPDatabase } from 'idb';
+import { z } from 'zod';
+import type { CustomDeleteOptions } from './lua-utils';
+import { createPatch } from './text-diff';
+import type { WorkspaceFile } from './workspace';
+
+export type SessionSettings = {
+  deleteOptions?: Required<CustomDeleteOptions>;
+  wrapLines?: boolean;
+  allowRenamedLocals?: boolean;
+};
+
+export type Session = {
+  files: WorkspaceFile[];
+  activeFileId: string;
+  settings: SessionSettings;
+};
+
+export type SnapshotInfo = {
+  name: string;
+  savedAt: number;
+  fileCount: number;
+};
+
+type Snapshot = {
+  name: string;
+  savedAt: number;
+  session: Session;
+};
+
+interface SessionDB extends DBSchema {
+  session: { key: string; value: Session };
+  snapshots: { key: string; value: Snapshot };
+}
+
+const DB_NAME = 'luaforge';
+// Version 2 stores each file's history as patches; version 1 stored the whole file per entry.
+const DB_VERSION = 2;
+const CURRENT_SESSION_KEY = 'current';
+
+type LegacyWorkspaceFile = {
+  id: string;
+  path: string;
+  history: Array<{ code: string; label: string; time: number }>;
+  historyIndex: number;
+};
+
+// A setting that doesn't parse is dropped on its own, so the editor keeps its default for it.
+const sessionSchema = z.object({
+  files: z.array(z.object({
+    id: z.string(),
+    path: z.string().min(1),
+    code: z.string(),
+    history: z.array(z.object({
+      label: z.string(),
+      time: z.number(),
+      patch: z.object({ start: z.number().int().min(0), removed: z.string(), inserted: z.string() }).nullable(),
+    })).min(1),
+    historyIndex: z.number().int().min(0),
+  }).refine(file => file.historyIndex < file.history.length && file.history.every((entry, index) => index === 0 || entry.patch))).min(1),
+  activeFileId: z.string(),
+  settings: z.object({
+    deleteOptions: z.object({
+      singleLine: z.boolean(),
+      multiLine: z.boolean(),
+      customSingle: z.string(),
+      customMultiStart: z.string(),
+      customMultiEnd: z.string(),
+      keepDirectives: z.boolean(),
+    }).optional().catch(undefined),
+    wrapLines: z.boolean().optional().catch(undefined),
+    allowRenamedLocals: z.boolean().optional().catch(undefined),
+  }).catch({}),
+});
+
+// Rebuilds a version 1 file's history as patches between its versions. A history that cannot be
+// read is dropped, keeping the latest code.
+function migrateFile(file: WorkspaceFile | LegacyWorkspaceFile): WorkspaceFile {
+  if ('code' in file) return file;
+  const { id, path, history, historyIndex } = file;
+  const code = history[historyIndex]?.code ?? history[history.length - 1]?.code ?? '';
+  try {
+    return {
+      id,
+      path,
+      code,
+      history: history.map((entry, index) => ({
+        label: entry.label,
+        time: entry.time,
+        patch: index === 0 ? null : createPatch(history[index - 1].code, entry.code),
+      })),
+      historyIndex,
+    };
+  } catch {
+    return { id, path, code, history: [{ label: 'Restored', time: 0, patch: null }], historyIndex: 0 };
+  }
+}
+
+// A record that cannot be migrated at all is dropped, since an error would abort the whole upgrade.
+function migrateSession(session: Session): Session | null {
+  try {
+    return { ...session, files: session.files.map(migrateFile) };
+  } catch {
+    return null;
+  }
+}
+
+function migrateSnapshot(snapshot: Snapshot): Snapshot | null {
+  try {
+    const session = migrateSession(snapshot.session);
+    return session && { ...snapshot, session };
+  } catch {
+    return null;
+  }
+}
+
+let database: Promise<IDBPDatabase<SessionDB>> | null = null;
+
+// A failed open is forgotten, so that the next call tries again.
+function getDatabase(): Promise<IDBPDatabase<SessionDB>> {
+  database ??= openDB<SessionDB>(DB_NAME, DB_VERSION, {
+    async upgrade(db, oldVersion, _newVersion, transaction) {
+      if (oldVersion < 1) {
+        db.createObjectStore('session');
+        db.createObjectStore('snapshots', { keyPath: 'name' });
+        return;
+      }
+      if (oldVersion < 2) {
+        let session = await transaction.objectStore('session').openCursor();
+        while (session) {
+          const migrated = migrateSession(session.value);
+          await (migrated ? session.update(migrated) : session.delete());
+          session = await session.continue();
+        }
+        let snapshot = await transaction.objectStore('snapshots').openCursor();
+        while (snapshot) {
+          const migrated = migrateSnapshot(snapshot.value);
+          await (migrated ? snapshot.update(migrated) : snapshot.delete());
+          snapshot = await snapshot.continue();
+        }
+      }
+    },
+  }).catch(error => {
+    database = null;
+    throw error;
+  });
+  return database;
+}
+
+function parseSession(data: unknown): Session | null {
+  const result = sessionSchema.safeParse(data);
+  return result.success ? result.data : null;
+}
+
+/**
+ * Loads the session that was open when the page was last closed.
+ * @returns The session, or `null` when there is none or it cannot be read.
+ */
+export async function loadSession(): Promise<Session | null> {
+  try {
+    const db = await getDatabase();
+    return parseSession(await db.get('session', CURRENT_SESSION_KEY));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Stores the current session, replacing the one stored before.
+ * @param session The complete session.
+ */
+export async function saveSession(session: Session): Promise<void> {
+  const db = await getDatabase();
+  await db.put('session', session, CURRENT_SESSION_KEY);
+}
+
+/**
+ * Lists the saved snapshots, newest first.
+ * @returns The name, time and size of each snapshot.
+ */
+export async function listSnapshots(): Promise<SnapshotInfo[]> {
+  const db = await getDatabase();
+  const snapshots = await db.getAll('snapshots');
+  return snapshots
+    .map(({ name, savedAt, session }) => ({ name, savedAt, fileCount: session.files.length }))
+    .sort((a, b) => b.savedAt - a.savedAt);
+}
+
+/**
+ * Saves the session as a named snapshot, replacing any snapshot with that name.
+ * @param name The name of the snapshot.
+ * @param session The session to save.
+ */
+export async function saveSnapshot(name: string, session: Session): Promise<void> {
+  const db = await getDatabase();
+  await db.put('snapshots', { name, savedAt: Date.now(), session });
+}
+
+/**
+ * Loads a named snapshot.
+ * @param name The name of the snapshot.
+ * @returns The saved session.
+ * @throws {Error} When the snapshot does not exist or cannot be read.
+ */
+export async function loadSnapshot(name: string): Promise<Session> {
+  const db = await getDatabase();
+  const snapshot = await db.get('snapshots', name);
+  const session = snapshot ? parseSession(snapshot.session) : null;
+  if (!session) throw new Error(`The snapshot "${name}" could not be read.`);
+  return session;
+}
+
+export async function deleteSnapshot(name: string): Promise<void> {
+  const db = await getDatabase();
+  await db.delete('snapshots', name);
+}
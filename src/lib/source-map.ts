@@ -0,0 +1,193 @@
+// Source Map v3 support for transforms that move code around (minify, one-liner).
+// Transforms write their output through `MappedOutput`, which records where each piece of
+// text came from; `createSourceMap` encodes those mappings and `resolvePosition` reads them back.
+
+import type { Position } from './lua-lexer';
+
+/** Links a position in the generated code to the position in the input it came from. */
+export interface Mapping {
+  generated: Position;
+  original: Position;
+  /** The original identifier, when the generated text renames it. */
+  name?: string;
+}
+
+/** Generated code together with the mappings back to its input. */
+export interface MappedCode {
+  code: string;
+  mappings: Mapping[];
+}
+
+/** The JSON structure described by the Source Map Revision 3 proposal. */
+export interface SourceMapV3 {
+  version: 3;
+  file: string;
+  sources: string[];
+  sourcesContent?: string[];
+  names: string[];
+  mappings: string;
+}
+
+/** Builds output text while recording mappings. Lines are 1-based and columns 0-based, as in `Position`. */
+export class MappedOutput {
+  private readonly parts: string[] = [];
+  private line = 1;
+  private column = 0;
+  readonly mappings: Mapping[] = [];
+
+  /**
+   * Appends text to the output.
+   * @param text The text to append.
+   * @param original Where the text starts in the input; omit for text the transform made up.
+   * @param name The original name, for renamed identifiers.
+   */
+  append(text: string, original?: Position, name?: string): void {
+    if (original) {
+      this.mappings.push({ generated: { line: this.line, column: this.column }, original, name });
+    }
+    this.parts.push(text);
+    const lines = text.split(/\r\n|\r|\n/);
+    if (lines.length > 1) {
+      this.line += lines.length - 1;
+      this.column = lines[lines.length - 1].length;
+    } else {
+      this.column += text.length;
+    }
+  }
+
+  toMappedCode(): MappedCode {
+    return { code: this.parts.join(''), mappings: this.mappings };
+  }
+}
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+function encodeVlq(value: number): string {
+  let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+  let result = '';
+  do {
+    let digit = vlq & 0x1f;
+    vlq >>>= 5;
+    if (vlq > 0) digit |= 0x20;
+    result += BASE64[digit];
+  } while (vlq > 0);
+  return result;
+}
+
+function decodeVlqSegment(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (const char of segment) {
+    const digit = BASE64.indexOf(char);
+    if (digit === -1) throw new Error(`Invalid source map: unexpected character "${char}".`);
+    value += (digit & 0x1f) << shift;
+    if (digit & 0x20) {
+      shift += 5;
+    } else {
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+  return values;
+}
+
+/**
+ * Encodes mappings as a Source Map v3 object for a single input file.
+ * @param mappings The mappings recorded while generating the output.
+ * @param file The name of the generated file.
+ * @param source The name of the input file.
+ * @param sourceContent The input code, embedded so the map is self-contained.
+ * @returns The source map, ready for `JSON.stringify`.
+ */
+export function createSourceMap(mappings: Mapping[], file: string, source: string, sourceContent?: string): SourceMapV3 {
+  const names: string[] = [];
+  const nameIndexes = new Map<string, number>();
+  const lines: string[] = [];
+  let previousOriginalLine = 0;
+  let previousOriginalColumn = 0;
+  let previousName = 0;
+
+  const sorted = [...mappings].sort((a, b) =>
+    a.generated.line - b.generated.line || a.generated.column - b.generated.column);
+  let currentLine = 1;
+  let previousColumn = 0;
+  let segments: string[] = [];
+  for (const mapping of sorted) {
+    while (currentLine < mapping.generated.line) {
+      lines.push(segments.join(','));
+      segments = [];
+      previousColumn = 0;
+      currentLine++;
+    }
+    let segment = encodeVlq(mapping.generated.column - previousColumn)
+      + encodeVlq(0)
+      + encodeVlq(mapping.original.line - 1 - previousOriginalLine)
+      + encodeVlq(mapping.original.column - previousOriginalColumn);
+    previousColumn = mapping.generated.column;
+    previousOriginalLine = mapping.original.line - 1;
+    previousOriginalColumn = mapping.original.column;
+    if (mapping.name !== undefined) {
+      let index = nameIndexes.get(mapping.name);
+      if (index === undefined) {
+        index = names.length;
+        names.push(mapping.name);
+        nameIndexes.set(mapping.name, index);
+      }
+      segment += encodeVlq(index - previousName);
+      previousName = index;
+    }
+    segments.push(segment);
+  }
+  lines.push(segments.join(','));
+
+  return {
+    version: 3,
+    file,
+    sources: [source],
+    ...(sourceContent !== undefined ? { sourcesContent: [sourceContent] } : {}),
+    names,
+    mappings: lines.join(';'),
+  };
+}
+
+/**
+ * Maps a position in generated code back to the input, using the closest mapping at or
+ * before it on the same line.
+ * @param map A source map created by `createSourceMap` (or any single-source v3 map).
+ * @param line The 1-based line in the generated code.
+ * @param column The 0-based column in the generated code.
+ * @returns The original position and name, or `null` when nothing maps there.
+ * @throws {Error} When the map's mappings are malformed.
+ */
+export function resolvePosition(map: SourceMapV3, line: number, column: number): (Position & { name?: string }) | null {
+  const lines = map.mappings.split(';');
+  let originalLine = 0;
+  let originalColumn = 0;
+  let nameIndex = 0;
+  let found: (Position & { name?: string }) | null = null;
+
+  // Original positions are relative to the previous segment across the whole map,
+  // so every line up to the requested one has to be decoded.
+  for (let index = 0; index < Math.min(lines.length, line); index++) {
+    let generatedColumn = 0;
+    for (const segment of lines[index].split(',')) {
+      if (!segment) continue;
+      const values = decodeVlqSegment(segment);
+      generatedColumn += values[0];
+      if (values.length < 4) continue;
+      originalLine += values[2];
+      originalColumn += values[3];
+      if (values.length >= 5) nameIndex += values[4];
+      if (index === line - 1 && generatedColumn <= column) {
+        found = {
+          line: originalLine + 1,
+          column: originalColumn,
+          ...(values.length >= 5 ? { name: map.names[nameIndex] } : {}),
+        };
+      }
+    }
+  }
+  return found;
+}
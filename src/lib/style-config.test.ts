@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { getStyleConfigKind } from './style-config';
+
+describe('getStyleConfigKind', () => {
+  it('only takes the config files of StyLua and EditorConfig', () => {
+    expect(getStyleConfigKind('stylua.toml')).toBe('stylua');
+    expect(getStyleConfigKind('.stylua.toml')).toBe('stylua');
+    expect(getStyleConfigKind('project/StyLua.toml')).toBe('stylua');
+    expect(getStyleConfigKind('.editorconfig')).toBe('editorconfig');
+    expect(getStyleConfigKind('selene.toml')).toBeNull();
+    expect(getStyleConfigKind('wally.toml')).toBeNull();
+    expect(getStyleConfigKind('Cargo.toml')).toBeNull();
+  });
+});
@@ -0,0 +1,273 @@
+// Reads formatter settings from the config files projects already carry: StyLua's
+// `stylua.toml` and `.editorconfig`. Settings that LuaForge cannot honour are reported
+// back so the user knows where its output may differ from their CI formatter.
+
+import { DEFAULT_FORMAT_OPTIONS, type FormatOptions } from './lua-formatter';
+
+export type StyleConfigResult = {
+  /** The formatter options the file asks for. */
+  options: Partial<FormatOptions>;
+  /** Keys (or `key = value` pairs) that were not applied. */
+  unsupported: string[];
+};
+
+/** StyLua's own defaults, which apply to any key a `stylua.toml` leaves out. */
+export const STYLUA_DEFAULTS: FormatOptions = {
+  ...DEFAULT_FORMAT_OPTIONS,
+  indentType: 'tabs',
+  indentWidth: 4,
+  columnWidth: 120,
+  quoteStyle: 'autoPreferDouble',
+  callParentheses: 'always',
+  trailingSeparator: 'multiline',
+  maxBlankLines: 1,
+  lineEndings: 'unix',
+};
+
+type TomlValue = string | number | boolean;
+
+// Parses the subset of TOML used by stylua.toml: `[section]` headers and `key = value`
+// pairs with string, integer and boolean values. Keys are returned as `section.key`.
+function parseToml(text: string): Map<string, TomlValue> {
+  const values = new Map<string, TomlValue>();
+  let section = '';
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.replace(/^\s+/, '');
+    if (!line || line.startsWith('#')) return;
+
+    const header = /^\[\s*([\w.-]+)\s*\]\s*(#.*)?$/.exec(line);
+    if (header) {
+      section = header[1];
+      return;
+    }
+
+    const pair = /^([\w-]+|"[^"]*")\s*=\s*(.+?)\s*$/.exec(line);
+    if (!pair) {
+      throw new Error(`Line ${index + 1}: expected "key = value".`);
+    }
+    const key = pair[1].replace(/^"|"$/g, '');
+    values.set(section ? `${section}.${key}` : key, parseTomlValue(pair[2], index + 1));
+  });
+
+  return values;
+}
+
+function parseTomlValue(raw: string, lineNumber: number): TomlValue {
+  const string = /^"((?:[^"\\]|\\.)*)"\s*(#.*)?$|^'([^']*)'\s*(#.*)?$/.exec(raw);
+  if (string) {
+    return string[1] !== undefined ? JSON.parse(`"${string[1]}"`) : string[3];
+  }
+  const value = raw.replace(/\s*#.*$/, '');
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+  if (/^[+-]?\d[\d_]*$/.test(value)) {
+    return parseInt(value.replace(/_/g, ''), 10);
+  }
+  throw new Error(`Line ${lineNumber}: unsupported value "${raw}".`);
+}
+
+// Maps StyLua's PascalCase enum values onto ours, e.g. `AutoPreferDouble` -> `autoPreferDouble`.
+function enumValue<T extends string>(value: TomlValue, allowed: readonly T[]): T | undefined {
+  if (typeof value !== 'string') return undefined;
+  const camel = value.charAt(0).toLowerCase() + value.slice(1);
+  return allowed.find(option => option === camel);
+}
+
+/**
+ * Reads a StyLua configuration file (`stylua.toml` / `.stylua.toml`).
+ * Keys that are absent take StyLua's defaults, so the result describes the complete style.
+ * @param text The contents of the file.
+ * @returns The matching formatter options and the keys that could not be applied.
+ * @throws {Error} When the file is not valid TOML.
+ */
+export function parseStyluaConfig(text: string): StyleConfigResult {
+  const options: Partial<FormatOptions> = { ...STYLUA_DEFAULTS };
+  const unsupported: string[] = [];
+
+  for (const [key, value] of parseToml(text)) {
+    const reject = () => unsupported.push(`${key} = ${JSON.stringify(value)}`);
+    switch (key) {
+      case 'column_width':
+        if (typeof value === 'number' && value > 0) options.columnWidth = value;
+        else reject();
+        break;
+      case 'indent_width':
+        if (typeof value === 'number' && value > 0) options.indentWidth = value;
+        else reject();
+        break;
+      case 'indent_type': {
+        const indentType = enumValue(value, ['tabs', 'spaces'] as const);
+        if (indentType) options.indentType = indentType;
+        else reject();
+        break;
+      }
+      case 'line_endings': {
+        const lineEndings = enumValue(value, ['unix', 'windows'] as const);
+        if (lineEndings) options.lineEndings = lineEndings;
+        else reject();
+        break;
+      }
+      case 'quote_style': {
+        const quoteStyle = enumValue(value, ['autoPreferDouble', 'autoPreferSingle', 'forceDouble', 'forceSingle'] as const);
+        if (quoteStyle) options.quoteStyle = quoteStyle;
+        else reject();
+        break;
+      }
+      case 'call_parentheses': {
+        const callParentheses = enumValue(value, ['always', 'noSingleString', 'noSingleTable', 'none', 'input'] as const);
+        if (callParentheses) options.callParentheses = callParentheses;
+        else reject();
+        break;
+      }
+      // LuaForge always expands simple statements and never adds a space after function names,
+      // which matches these settings' defaults.
+      case 'collapse_simple_statement':
+        if (value !== 'Never') reject();
+        break;
+      case 'space_after_function_names':
+        if (value !== 'Never') reject();
+        break;
+      case 'sort_requires.enabled':
+        if (value !== false) reject();
+        break;
+      default:
+        reject();
+    }
+  }
+
+  return { options, unsupported };
+}
+
+// Converts an EditorConfig section glob into a regular expression.
+function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '*') {
+      if (glob[i + 1] === '*') {
+        pattern += '.*';
+        i++;
+      } else {
+        pattern += '[^/]*';
+      }
+    } else if (ch === '?') {
+      pattern += '[^/]';
+    } else if (ch === '{') {
+      const close = glob.indexOf('}', i);
+      if (close === -1) {
+        pattern += '\\{';
+      } else {
+        const alternatives = glob.slice(i + 1, close).split(',').map(part => globToRegExp(part).source.slice(1, -1));
+        pattern += `(?:${alternatives.join('|')})`;
+        i = close;
+      }
+    } else if (ch === '[') {
+      const close = glob.indexOf(']', i);
+      if (close === -1) {
+        pattern += '\\[';
+      } else {
+        pattern += `[${glob.slice(i + 1, close).replace(/^!/, '^')}]`;
+        i = close;
+      }
+    } else {
+      pattern += ch.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Reads the sections of an `.editorconfig` file that apply to a Lua file.
+ * @param text The contents of the file.
+ * @param fileName The Lua file the settings are for; sections whose glob contains a path are skipped.
+ * @returns The matching formatter options and the keys that could not be applied.
+ */
+export function parseEditorConfig(text: string, fileName = 'main.lua'): StyleConfigResult {
+  const properties = new Map<string, string>();
+  let applies = false;
+  const unsupported: string[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#') || line.startsWith(';')) continue;
+
+    const header = /^\[(.*)\]$/.exec(line);
+    if (header) {
+      const glob = header[1];
+      if (glob.includes('/')) {
+        applies = false;
+        unsupported.push(`[${glob}] (path-specific sections are ignored)`);
+      } else {
+        applies = globToRegExp(glob).test(fileName);
+      }
+      continue;
+    }
+
+    const pair = /^([^=:]+?)\s*[=:]\s*(.*)$/.exec(line);
+    if (!pair) continue;
+    const key = pair[1].toLowerCase();
+    if (key === 'root') continue;
+    if (applies) {
+      // Later sections override earlier ones, as in the EditorConfig spec.
+      properties.set(key, pair[2].toLowerCase());
+    }
+  }
+
+  const options: Partial<FormatOptions> = {};
+  const tabWidth = parseInt(properties.get('tab_width') ?? '', 10);
+  for (const [key, value] of properties) {
+    const reject = () => unsupported.push(`${key} = ${value}`);
+    switch (key) {
+      case 'indent_style':
+        if (value === 'tab') options.indentType = 'tabs';
+        else if (value === 'space') options.indentType = 'spaces';
+        else reject();
+        break;
+      case 'indent_size': {
+        const size = value === 'tab' ? tabWidth : parseInt(value, 10);
+        if (size > 0) options.indentWidth = size;
+        else if (value !== 'tab') reject();
+        break;
+      }
+      case 'tab_width':
+        if (tabWidth > 0 && !properties.has('indent_size')) options.indentWidth = tabWidth;
+        break;
+      case 'end_of_line':
+        if (value === 'lf') options.lineEndings = 'unix';
+        else if (value === 'crlf') options.lineEndings = 'windows';
+        else reject();
+        break;
+      case 'max_line_length': {
+        const width = parseInt(value, 10);
+        if (width > 0) options.columnWidth = width;
+        else if (value !== 'off') reject();
+        break;
+      }
+      // The formatter always trims trailing whitespace and ends files with a newline.
+      case 'trim_trailing_whitespace':
+      case 'insert_final_newline':
+        if (value !== 'true') reject();
+        break;
+      case 'charset':
+        if (value !== 'utf-8') reject();
+        break;
+      default:
+        reject();
+    }
+  }
+
+  return { options, unsupported };
+}
+
+/**
+ * Whether a file name is a style configuration file this module can read. Other tools keep their
+ * settings in TOML files too (selene.toml, wally.toml), so only StyLua's own names are taken.
+ */
+export function getStyleConfigKind(fileName: string): 'stylua' | 'editorconfig' | null {
+  const name = fileName.slice(fileName.lastIndexOf('/') + 1).toLowerCase();
+  if (name === 'stylua.toml' || name === '.stylua.toml') return 'stylua';
+  if (name === '.editorconfig' || name.endsWith('.editorconfig')) return 'editorconfig';
+  return null;
+}
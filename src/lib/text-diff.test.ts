@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { acceptHunk, diffText, rejectHunk } from './text-diff';
+
+describe('diffText', () => {
+  it('reports a change when only the final line break differs', () => {
+    const diff = diffText('a\nb', 'a\nb\n');
+    expect(diff.hunks).toHaveLength(1);
+    expect(diff.hunks[0].lines.map(line => [line.kind, line.text, line.noNewline ?? false])).toEqual([
+      ['context', 'a', false],
+      ['removed', 'b', true],
+      ['added', 'b', false],
+    ]);
+    expect(acceptHunk('a\nb', 'a\nb\n', diff.hunks[0])).toBe('a\nb\n');
+    expect(rejectHunk('a\nb', 'a\nb\n', diff.hunks[0])).toBe('a\nb');
+  });
+
+  it('treats CRLF and LF line breaks as equal', () => {
+    expect(diffText('a\r\nb\r\n', 'a\nb\n').hunks).toHaveLength(0);
+  });
+});
@@ -0,0 +1,329 @@
+// Line-based diff of two texts, grouped into hunks like `diff -u`, with word-level highlights for
+// lines that were changed rather than added or removed. Hunks can be applied to either side.
+// Also the single-replacement patches that the file history and the editor's highlighting use.
+
+export interface DiffSegment {
+  text: string;
+  /** Whether this part of the line differs from the line it replaces or is replaced by. */
+  changed: boolean;
+}
+
+export interface DiffLine {
+  kind: 'context' | 'added' | 'removed';
+  /** 1-based line number in the old text; absent for added lines. */
+  oldLine?: number;
+  /** 1-based line number in the new text; absent for removed lines. */
+  newLine?: number;
+  /** The line without its line break. */
+  text: string;
+  /** Set on the last line of a text that does not end with a line break. */
+  noNewline?: boolean;
+  segments: DiffSegment[];
+}
+
+export interface DiffHunk {
+  /** The [start, end) line indexes the hunk covers in the old text. */
+  oldRange: [number, number];
+  /** The [start, end) line indexes the hunk covers in the new text. */
+  newRange: [number, number];
+  lines: DiffLine[];
+}
+
+export interface TextDiff {
+  hunks: DiffHunk[];
+  added: number;
+  removed: number;
+}
+
+type EditKind = 'equal' | 'delete' | 'insert';
+
+// Beyond this many edits, the rest of the texts is treated as replaced wholesale. That keeps
+// diffs like a whole file against its one-liner fast, where a finer diff shows nothing useful.
+const MAX_EDIT_DISTANCE = 2000;
+
+// Splits text into lines that keep their line breaks, so that joining them gives the text back.
+function splitLines(text: string): string[] {
+  return text.match(/[^\r\n]*(\r\n|\r|\n)|[^\r\n]+$/g) ?? [];
+}
+
+const stripLineBreak = (line: string) => line.replace(/\r?\n$|\r$/, '');
+
+// Appended, for comparison only, to a last line without a line break, so that adding or removing
+// the final line break shows up as a change, like `\ No newline at end of file` in `diff -u`.
+const NO_NEWLINE = '\u0000';
+
+function compareKeys(lines: string[]): string[] {
+  return lines.map((line, i) => {
+    const text = stripLineBreak(line);
+    return i === lines.length - 1 && text === line ? text + NO_NEWLINE : text;
+  });
+}
+
+// Joins lines, adding a line break after a last line without one when more lines follow.
+function joinLines(lines: string[]): string {
+  return lines.map((line, i) => (i < lines.length - 1 && stripLineBreak(line) === line ? `${line}\n` : line)).join('');
+}
+
+// The shortest edit script from `a` to `b` (Myers, "An O(ND) Difference Algorithm").
+function diffSequences(a: string[], b: string[]): EditKind[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+  return [
+    ...new Array<EditKind>(prefix).fill('equal'),
+    ...middleEdits(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)),
+    ...new Array<EditKind>(suffix).fill('equal'),
+  ];
+}
+
+function middleEdits(a: string[], b: string[]): EditKind[] {
+  const n = a.length;
+  const m = b.length;
+  const replaceAll = (): EditKind[] => [...new Array<EditKind>(n).fill('delete'), ...new Array<EditKind>(m).fill('insert')];
+  if (n === 0 || m === 0) return replaceAll();
+
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+  if (!found) return replaceAll();
+
+  // Walk the trace back from the end to recover the path.
+  const edits: EditKind[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d];
+    const k = x - y;
+    const down = k === -d || (k !== d && previous[offset + k - 1] < previous[offset + k + 1]);
+    const prevK = down ? k + 1 : k - 1;
+    const prevX = previous[offset + prevK];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      edits.push('equal');
+      x--;
+      y--;
+    }
+    edits.push(down ? 'insert' : 'delete');
+    x = prevX;
+    y = prevY;
+  }
+  while (x > 0 && y > 0) {
+    edits.push('equal');
+    x--;
+    y--;
+  }
+  return edits.reverse();
+}
+
+// Word-level differences between a removed line and the line that replaces it.
+function diffWords(oldText: string, newText: string): [DiffSegment[], DiffSegment[]] {
+  const words = (text: string) => text.match(/\w+|\s+|[^\w\s]/g) ?? [];
+  const a = words(oldText);
+  const b = words(newText);
+  const oldSegments: DiffSegment[] = [];
+  const newSegments: DiffSegment[] = [];
+  const add = (segments: DiffSegment[], text: string, changed: boolean) => {
+    const last = segments[segments.length - 1];
+    if (last && last.changed === changed) last.text += text;
+    else segments.push({ text, changed });
+  };
+  let i = 0;
+  let j = 0;
+  for (const edit of diffSequences(a, b)) {
+    if (edit === 'equal') {
+      add(oldSegments, a[i++], false);
+      add(newSegments, b[j++], false);
+    } else if (edit === 'delete') {
+      add(oldSegments, a[i++], true);
+    } else {
+      add(newSegments, b[j++], true);
+    }
+  }
+  return [oldSegments, newSegments];
+}
+
+// Pairs up a run of removed lines with the added lines that follow it, to highlight words.
+function highlightChanges(lines: DiffLine[]): void {
+  for (let i = 0; i < lines.length;) {
+    if (lines[i].kind !== 'removed') {
+      i++;
+      continue;
+    }
+    let removedEnd = i;
+    while (removedEnd < lines.length && lines[removedEnd].kind === 'removed') removedEnd++;
+    let addedEnd = removedEnd;
+    while (addedEnd < lines.length && lines[addedEnd].kind === 'added') addedEnd++;
+    const pairs = Math.min(removedEnd - i, addedEnd - removedEnd);
+    for (let p = 0; p < pairs; p++) {
+      const removed = lines[i + p];
+      const added = lines[removedEnd + p];
+      [removed.segments, added.segments] = diffWords(removed.text, added.text);
+    }
+    i = addedEnd;
+  }
+}
+
+/**
+ * Compares two texts line by line. Lines that differ only in their line break are equal, except
+ * that a missing line break at the end of a text is a change.
+ * @param oldText The original text.
+ * @param newText The changed text.
+ * @param context How many unchanged lines to show around each change.
+ * @returns The hunks and the number of added and removed lines.
+ */
+export function diffText(oldText: string, newText: string, context = 3): TextDiff {
+  const oldKeys = compareKeys(splitLines(oldText));
+  const newKeys = compareKeys(splitLines(newText));
+  const edits = diffSequences(oldKeys, newKeys);
+  const line = (key: string, kind: DiffLine['kind'], oldLine?: number, newLine?: number): DiffLine => {
+    const noNewline = key.endsWith(NO_NEWLINE);
+    const text = noNewline ? key.slice(0, -NO_NEWLINE.length) : key;
+    return { kind, oldLine, newLine, text, ...(noNewline && { noNewline }), segments: [{ text, changed: false }] };
+  };
+
+  // Every line with its position on both sides.
+  const all: DiffLine[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  for (const edit of edits) {
+    if (edit === 'equal') {
+      all.push(line(oldKeys[oldIndex], 'context', ++oldIndex, ++newIndex));
+    } else if (edit === 'delete') {
+      all.push(line(oldKeys[oldIndex], 'removed', ++oldIndex));
+    } else {
+      all.push(line(newKeys[newIndex], 'added', undefined, ++newIndex));
+    }
+  }
+
+  // Changes closer than twice the context share a hunk.
+  const hunks: DiffHunk[] = [];
+  let added = 0;
+  let removed = 0;
+  let i = 0;
+  while (i < all.length) {
+    if (all[i].kind === 'context') {
+      i++;
+      continue;
+    }
+    const start = Math.max(0, i - context);
+    let end = i;
+    let lastChange = i;
+    while (end < all.length && end - lastChange <= 2 * context) {
+      if (all[end].kind !== 'context') lastChange = end;
+      end++;
+    }
+    end = Math.min(all.length, lastChange + context + 1);
+
+    const lines = all.slice(start, end);
+    highlightChanges(lines);
+    added += lines.filter(line => line.kind === 'added').length;
+    removed += lines.filter(line => line.kind === 'removed').length;
+    // A hunk starts where its first line is, or would be, on each side.
+    const before = all.slice(0, start);
+    const oldStart = before.filter(line => line.kind !== 'added').length;
+    const newStart = before.filter(line => line.kind !== 'removed').length;
+    hunks.push({
+      oldRange: [oldStart, oldStart + lines.filter(line => line.kind !== 'added').length],
+      newRange: [newStart, newStart + lines.filter(line => line.kind !== 'removed').length],
+      lines,
+    });
+    i = end;
+  }
+  return { hunks, added, removed };
+}
+
+/**
+ * Applies one hunk to the old text, taking the new text's version of those lines.
+ * @param oldText The old text the diff was made from.
+ * @param newText The new text the diff was made from.
+ * @param hunk A hunk returned by `diffText` for those texts.
+ * @returns The old text with the hunk applied.
+ */
+export function acceptHunk(oldText: string, newText: string, hunk: DiffHunk): string {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+  return joinLines([
+    ...oldLines.slice(0, hunk.oldRange[0]),
+    ...newLines.slice(hunk.newRange[0], hunk.newRange[1]),
+    ...oldLines.slice(hunk.oldRange[1]),
+  ]);
+}
+
+/**
+ * Reverts one hunk in the new text, restoring the old text's version of those lines.
+ * @param oldText The old text the diff was made from.
+ * @param newText The new text the diff was made from.
+ * @param hunk A hunk returned by `diffText` for those texts.
+ * @returns The new text with the hunk reverted.
+ */
+export function rejectHunk(oldText: string, newText: string, hunk: DiffHunk): string {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+  return joinLines([
+    ...newLines.slice(0, hunk.newRange[0]),
+    ...oldLines.slice(hunk.oldRange[0], hunk.oldRange[1]),
+    ...newLines.slice(hunk.newRange[1]),
+  ]);
+}
+
+/**
+ * A change to a text that can be applied in either direction: `removed` at `start` in the old
+ * text is `inserted` in the new one.
+ */
+export type TextPatch = {
+  start: number;
+  removed: string;
+  inserted: string;
+};
+
+/**
+ * Describes the change between two texts as a single replacement, found by trimming the text they
+ * share at the start and at the end. Typing changes one small range, so its patches stay small.
+ * @param before The old text.
+ * @param after The new text.
+ * @returns The patch that turns `before` into `after`.
+ */
+export function createPatch(before: string, after: string): TextPatch {
+  const maxLength = Math.min(before.length, after.length);
+  let start = 0;
+  while (start < maxLength && before.charCodeAt(start) === after.charCodeAt(start)) start++;
+  let end = 0;
+  while (
+    end < maxLength - start &&
+    before.charCodeAt(before.length - 1 - end) === after.charCodeAt(after.length - 1 - end)
+  ) {
+    end++;
+  }
+  return {
+    start,
+    removed: before.slice(start, before.length - end),
+    inserted: after.slice(start, after.length - end),
+  };
+}
+
+export function applyPatch(code: string, { start, removed, inserted }: TextPatch): string {
+  return code.slice(0, start) + inserted + code.slice(start + removed.length);
+}
+
+export function revertPatch(code: string, { start, removed, inserted }: TextPatch): string {
+  return code.slice(0, start) + removed + code.slice(start + inserted.length);
+}
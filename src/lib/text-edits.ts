@@ -0,0 +1,36 @@
+// Small, position-based rewrites of source text, as produced by the analyses that offer fixes.
+
+export interface TextEdit {
+  /** The [start, end) offsets to replace; equal offsets insert. */
+  range: [number, number];
+  text: string;
+}
+
+/**
+ * Applies edits to a piece of text. Duplicate edits are applied once, and an edit that
+ * overlaps one before it is skipped, so the result is always well-formed.
+ * @param text The original text.
+ * @param edits Edits with offsets into the original text, in any order.
+ * @returns The edited text and how many edits were skipped because of an overlap.
+ */
+export function applyTextEdits(text: string, edits: TextEdit[]): { text: string; skipped: number } {
+  const sorted = [...edits].sort((a, b) => a.range[0] - b.range[0] || a.range[1] - b.range[1]);
+  let result = '';
+  let position = 0;
+  let skipped = 0;
+  let previous: TextEdit | null = null;
+  for (const edit of sorted) {
+    const [start, end] = edit.range;
+    if (previous && previous.range[0] === start && previous.range[1] === end && previous.text === edit.text) {
+      continue;
+    }
+    if (start < position) {
+      skipped++;
+      continue;
+    }
+    result += text.slice(position, start) + edit.text;
+    position = end;
+    previous = edit;
+  }
+  return { text: result + text.slice(position), skipped };
+}
@@ -0,0 +1,143 @@
+// The transforms and analyses the editor runs, described as plain data so they can be sent to the
+// transform worker, and the messages the editor and the worker exchange. Nothing here touches the DOM.
+
+import type { LuaDialect } from './lua-dialect';
+import {
+  CustomDeleteOptions,
+  deleteAllComments,
+  deleteCustomComments,
+  hasComments,
+  reverseCode,
+  toOneLiner,
+  toOneLinerWithMappings,
+} from './lua-utils';
+import { FormatOptions, formatCode } from './lua-formatter';
+import { minify, minifyWithMappings } from './lua-minifier';
+import { luauToLua51 } from './lua-downlevel';
+import { checkTransformOutput } from './lua-check';
+import { checkEquivalence, EquivalenceOptions, EquivalenceResult } from './lua-equivalence';
+import { LintConfig, LintDiagnostic, lintCode } from './lua-linter';
+import { analyzeForHighlighting, HighlightInfo } from './lua-highlight';
+import { PipelineStep, PipelineStepResult, runPipeline } from './pipelines';
+import type { Mapping } from './source-map';
+
+export type Transform =
+  | { kind: 'beautify'; options: FormatOptions }
+  | { kind: 'delete-comments'; keepDirectives: boolean }
+  | { kind: 'custom-delete'; options: CustomDeleteOptions }
+  | { kind: 'one-liner'; comments: 'preserve' | 'delete' }
+  | { kind: 'minify' }
+  | { kind: 'luau-to-lua51' }
+  | { kind: 'reverse' }
+  | { kind: 'pipeline'; steps: PipelineStep[] };
+
+export type TransformResult =
+  | {
+      ok: true;
+      code: string;
+      /** Only for transforms that move code around, and only when mappings were asked for. */
+      mappings?: Mapping[];
+    }
+  | {
+      ok: false;
+      error: string;
+      /** Set when the transform worked but its result changed the code and was refused. */
+      blocked?: boolean;
+      /** The 1-based pipeline step that failed. */
+      step?: number;
+    };
+
+/** The analyses the editor keeps up to date while the code is edited. */
+export type Analysis =
+  | { kind: 'has-comments'; code: string; dialect: LuaDialect }
+  | { kind: 'highlight'; code: string; dialect: LuaDialect }
+  | { kind: 'lint'; code: string; config: LintConfig; dialect: LuaDialect }
+  | { kind: 'equivalence'; input: string; output: string; options: EquivalenceOptions; dialect: LuaDialect }
+  | { kind: 'pipeline'; code: string; steps: PipelineStep[]; dialect: LuaDialect };
+
+type AnalysisResults = {
+  'has-comments': boolean;
+  'highlight': HighlightInfo;
+  'lint': LintDiagnostic[];
+  'equivalence': EquivalenceResult;
+  'pipeline': PipelineStepResult[];
+};
+
+export type AnalysisResult<A extends Analysis = Analysis> = AnalysisResults[A['kind']];
+
+export type TransformRequest =
+  | { type: 'analyze'; id: number; analysis: Analysis }
+  | { type: 'transform'; id: number; transform: Transform; files: string[]; dialect: LuaDialect; mapped: boolean };
+
+export type TransformResponse =
+  | { type: 'analysis'; id: number; result: AnalysisResult }
+  | { type: 'progress'; id: number; completed: number; total: number }
+  | { type: 'done'; id: number; results: TransformResult[] };
+
+// Comment and whitespace transforms must not change the code itself; results that do are refused.
+function checked(input: string, output: string, dialect: LuaDialect): TransformResult {
+  const diagnostic = checkTransformOutput(input, output, dialect);
+  return diagnostic ? { ok: false, error: diagnostic.message, blocked: true } : { ok: true, code: output };
+}
+
+/**
+ * Runs a transform on one file.
+ * @param code The code to transform.
+ * @param transform The transform and its options.
+ * @param dialect The Lua dialect of the code.
+ * @param mapped Whether to return source mappings from the transforms that produce them.
+ * @returns The transformed code, or why there is none.
+ */
+export function runTransform(code: string, transform: Transform, dialect: LuaDialect, mapped = false): TransformResult {
+  try {
+    switch (transform.kind) {
+      case 'beautify':
+        return { ok: true, code: formatCode(code, transform.options, dialect) };
+      case 'delete-comments':
+        return checked(code, deleteAllComments(code, dialect, { keepDirectives: transform.keepDirectives }), dialect);
+      case 'custom-delete':
+        return checked(code, deleteCustomComments(code, transform.options, dialect), dialect);
+      case 'one-liner': {
+        if (!mapped) return checked(code, toOneLiner(code, transform.comments, dialect), dialect);
+        const result = toOneLinerWithMappings(code, transform.comments, dialect);
+        const check = checked(code, result.code, dialect);
+        return check.ok ? { ...check, mappings: result.mappings } : check;
+      }
+      case 'minify':
+        return mapped ? { ok: true, ...minifyWithMappings(code, dialect) } : { ok: true, code: minify(code, dialect) };
+      case 'luau-to-lua51':
+        return { ok: true, code: luauToLua51(code) };
+      case 'reverse':
+        return { ok: true, code: reverseCode(code) };
+      case 'pipeline': {
+        const results = runPipeline(code, transform.steps, dialect);
+        const last = results[results.length - 1];
+        if (!last) return { ok: true, code };
+        return last.ok ? { ok: true, code: last.output } : { ok: false, error: last.error, step: results.length };
+      }
+    }
+  } catch (e) {
+    return { ok: false, error: e instanceof Error ? e.message : 'An unknown error occurred' };
+  }
+}
+
+/**
+ * Runs an analysis of the code being edited.
+ * @param analysis The analysis and its input.
+ * @param onProgress Called as the steps of a pipeline finish.
+ * @returns The result, whose type depends on the kind of analysis.
+ */
+export function runAnalysis(analysis: Analysis, onProgress?: (completed: number, total: number) => void): AnalysisResult {
+  switch (analysis.kind) {
+    case 'has-comments':
+      return hasComments(analysis.code, analysis.dialect);
+    case 'highlight':
+      return analyzeForHighlighting(analysis.code, analysis.dialect);
+    case 'lint':
+      return lintCode(analysis.code, analysis.dialect, analysis.config);
+    case 'equivalence':
+      return checkEquivalence(analysis.input, analysis.output, analysis.options, analysis.dialect);
+    case 'pipeline':
+      return runPipeline(analysis.code, analysis.steps, analysis.dialect, onProgress);
+  }
+}
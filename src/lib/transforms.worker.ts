@@ -0,0 +1,23 @@
+// Runs the editor's analyses and transforms off the main thread, so large files don't freeze the
+// page. A run cannot be interrupted from inside; the editor cancels one by terminating the worker.
+
+import { runAnalysis, runTransform, TransformRequest, TransformResponse } from './transforms';
+
+const respond = (response: TransformResponse) => postMessage(response);
+
+addEventListener('message', (event: MessageEvent<TransformRequest>) => {
+  const request = event.data;
+  if (request.type === 'analyze') {
+    const { id, analysis } = request;
+    const result = runAnalysis(analysis, (completed, total) => respond({ type: 'progress', id, completed, total }));
+    respond({ type: 'analysis', id, result });
+    return;
+  }
+  const { id, transform, files, dialect, mapped } = request;
+  const results = files.map((code, index) => {
+    const result = runTransform(code, transform, dialect, mapped);
+    respond({ type: 'progress', id, completed: index + 1, total: files.length });
+    return result;
+  });
+  respond({ type: 'done', id, results });
+});
@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import { DEFAULT_DIALECT, type LuaDialect } from './lua-dialect';
+import { DEFAULT_LINT_CONFIG, type LintConfig } from './lua-linter';
+
+export type UserPreferences = {
+  dialect: LuaDialect;
+  lint: LintConfig;
+};
+
+const PREFERENCES_KEY = 'luaforge.preferences';
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  dialect: DEFAULT_DIALECT,
+  lint: DEFAULT_LINT_CONFIG,
+};
+
+// Each setting falls back to its default on its own, so one bad value doesn't reset the rest.
+const preferencesSchema = z.object({
+  dialect: z.enum(['lua51', 'lua52', 'lua53', 'lua54', 'luajit', 'luau']).catch(DEFAULT_PREFERENCES.dialect),
+  lint: z.object({
+    rules: z.record(
+      z.enum([
+        'syntax-error', 'unused-variable', 'unused-parameter', 'global-assignment', 'undefined-global',
+        'shadowed-local', 'unreachable-code', 'duplicate-key', 'invalid-goto',
+      ]),
+      z.enum(['error', 'warning', 'info', 'off']),
+    ),
+    globals: z.array(z.string()),
+  }).catch(DEFAULT_PREFERENCES.lint),
+});
+
+/**
+ * Loads the user's preferences from localStorage.
+ * @returns The stored preferences, with defaults for anything missing or invalid.
+ */
+export function loadPreferences(): UserPreferences {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PREFERENCES_KEY) ?? '{}');
+    return preferencesSchema.parse(stored);
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+}
+
+/**
+ * Saves the user's preferences to localStorage.
+ * @param preferences The complete preferences.
+ */
+export function savePreferences(preferences: UserPreferences): void {
+  localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+}
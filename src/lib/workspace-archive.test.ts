@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { strToU8, zipSync } from 'fflate';
+import { isRootStyleConfig, readZip } from './workspace-archive';
+
+describe('isRootStyleConfig', () => {
+  it('takes configs picked by themselves or at the top of a folder', () => {
+    const paths = ['game/stylua.toml', 'game/src/main.lua', 'game/lib/.editorconfig', 'game/lib/util.lua'];
+    expect(isRootStyleConfig('stylua.toml', ['stylua.toml', 'main.lua'])).toBe(true);
+    expect(isRootStyleConfig('game/stylua.toml', paths)).toBe(true);
+    expect(isRootStyleConfig('game/lib/.editorconfig', paths)).toBe(false);
+    expect(isRootStyleConfig('game/selene.toml', [...paths, 'game/selene.toml'])).toBe(false);
+  });
+});
+
+describe('readZip', () => {
+  it('extracts the Lua files and the style config at the top', () => {
+    const archive = zipSync({
+      'stylua.toml': strToU8('indent_type = "Spaces"'),
+      'src/main.lua': strToU8('print(1)'),
+      'vendor/stylua.toml': strToU8('indent_type = "Tabs"'),
+      'README.md': strToU8('# Game'),
+    });
+    expect(readZip(archive).map(file => file.path).sort()).toEqual(['src/main.lua', 'stylua.toml']);
+  });
+});
@@ -0,0 +1,126 @@
+// Getting whole projects in and out of the workspace: dropped folders, `.zip` archives, and a
+// `.zip` of the workspace that keeps its folder structure.
+
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { getStyleConfigKind } from './style-config';
+
+export type SourceFile = {
+  path: string;
+  code: string;
+};
+
+/** A file picked or dropped by the user, with its path within the folder it came from. */
+export type PickedFile = {
+  path: string;
+  file: File;
+};
+
+export const isLuaPath = (path: string) => /\.luau?$/i.test(path);
+
+export const isZipPath = (path: string) => /\.zip$/i.test(path);
+
+/**
+ * Whether a style config applies to everything picked with it: it was picked by itself, or it sits
+ * at the top of the folder or archive. Configs further down belong to a part of the project.
+ * @param path The config's path within the folder or archive.
+ * @param paths The paths of everything picked with it.
+ */
+export function isRootStyleConfig(path: string, paths: string[]): boolean {
+  if (!getStyleConfigKind(path)) return false;
+  const depth = path.split('/').length - 1;
+  if (depth === 0) return true;
+  const root = path.slice(0, path.indexOf('/') + 1);
+  return depth === 1 && paths.every(other => other.startsWith(root));
+}
+
+// Directory readers return their entries in batches, until one comes back empty.
+async function readEntry(entry: FileSystemEntry, files: PickedFile[]): Promise<void> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    files.push({ path: entry.fullPath.replace(/^\//, ''), file });
+    return;
+  }
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    for (const child of batch) {
+      await readEntry(child, files);
+    }
+  }
+}
+
+/**
+ * Lists the files in a drop, including everything inside dropped folders.
+ * @param dataTransfer The drop's data.
+ * @returns The files, with their paths relative to the drop.
+ */
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<PickedFile[]> {
+  // Entries must be taken before the first await, while the drop's data is still accessible.
+  const entries = Array.from(dataTransfer.items ?? [])
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => Boolean(entry));
+  if (entries.length === 0) {
+    return pickFiles(Array.from(dataTransfer.files ?? []));
+  }
+  const files: PickedFile[] = [];
+  for (const entry of entries) {
+    await readEntry(entry, files);
+  }
+  return files;
+}
+
+/**
+ * Pairs files from a file input with their paths, which include the folder for folder uploads.
+ * @param files The selected files.
+ * @returns The files with their paths.
+ */
+export function pickFiles(files: File[]): PickedFile[] {
+  return files.map(file => ({ path: file.webkitRelativePath || file.name, file }));
+}
+
+/**
+ * Extracts the Lua files and the style config at the top from a ZIP archive, skipping macOS
+ * resource forks.
+ * @param data The archive.
+ * @returns The files with their paths in the archive.
+ * @throws {Error} When the data is not a ZIP archive.
+ */
+export function readZip(data: Uint8Array): SourceFile[] {
+  const names: string[] = [];
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(data, {
+      filter: file => {
+        if (file.name.startsWith('__MACOSX/')) return false;
+        names.push(file.name);
+        return isLuaPath(file.name) || Boolean(getStyleConfigKind(file.name));
+      },
+    });
+  } catch {
+    throw new Error('The file is not a valid ZIP archive.');
+  }
+  return Object.entries(entries)
+    .filter(([path]) => isLuaPath(path) || isRootStyleConfig(path, names))
+    .map(([path, content]) => ({ path, code: strFromU8(content) }));
+}
+
+/**
+ * Packs files into a ZIP archive, keeping their folders.
+ * @param files The files to pack.
+ * @returns The archive.
+ */
+export function createZip(files: SourceFile[]): Uint8Array {
+  return zipSync(Object.fromEntries(files.map(file => [file.path, strToU8(file.code)])));
+}
+
+/**
+ * Names an archive of the files after the folder they all share, if any.
+ * @param files The files in the archive.
+ * @returns A file name ending in `.zip`.
+ */
+export function archiveName(files: SourceFile[]): string {
+  const roots = new Set(files.map(file => (file.path.includes('/') ? file.path.split('/')[0] : '')));
+  const [root] = roots;
+  return roots.size === 1 && root ? `${root}.zip` : 'workspace.zip';
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { createWorkspaceFile, goToVersion, HISTORY_LENGTH_LIMIT, HISTORY_SIZE_LIMIT, historySize, recordChange } from './workspace';
+
+describe('recordChange', () => {
+  it('restores every version from its patches', () => {
+    let file = createWorkspaceFile('main.lua', 'hello world', 'Load');
+    file = recordChange(file, 'hello brave world', 'Beautify', 1000);
+    file = recordChange(file, 'hello brave world!', 'Edit', 5000);
+    file = recordChange(file, 'hello brave world!!', 'Edit', 5100);
+    expect(file.history.map(entry => entry.label)).toEqual(['Load', 'Beautify', 'Edit']);
+    expect([0, 1, 2].map(index => goToVersion(file, index).code)).toEqual([
+      'hello world',
+      'hello brave world',
+      'hello brave world!!',
+    ]);
+  });
+
+  it('keeps the last change when it is larger than the size limit', () => {
+    const first = 'x'.repeat(HISTORY_SIZE_LIMIT * 0.75);
+    const second = 'y'.repeat(HISTORY_SIZE_LIMIT * 0.75);
+    let file = createWorkspaceFile('main.lua', '', 'New file');
+    file = recordChange(file, first, 'Paste', 1000);
+    file = recordChange(file, second, 'Paste', 2000);
+    expect(historySize(file)).toBeGreaterThan(HISTORY_SIZE_LIMIT);
+    expect(file.history).toHaveLength(2);
+    expect(file.historyIndex).toBe(1);
+    expect(goToVersion(file, 0).code).toBe(first);
+    expect(file.code).toBe(second);
+  });
+
+  it('drops the oldest versions beyond the length limit', () => {
+    let file = createWorkspaceFile('main.lua', '', 'New file');
+    for (let i = 0; i < HISTORY_LENGTH_LIMIT + 10; i++) file = recordChange(file, `v${i}`, 'Edit', i * 2000);
+    expect(file.history).toHaveLength(HISTORY_LENGTH_LIMIT);
+    expect(file.history[0].patch).toBeNull();
+    expect(goToVersion(file, 0).code).toBe('v10');
+  });
+});
@@ -0,0 +1,195 @@
+// The files open in the editor. Each file keeps its own history of named versions, so undo and
+// the history timeline always act on the file being edited. Only the current version is kept in full;
+// the history holds the change that led to each version, and its oldest versions are dropped once
+// the changes take up too much memory.
+
+import { applyPatch, createPatch, revertPatch, type TextPatch } from './text-diff';
+
+export type HistoryEntry = {
+  /** What produced this version of the file, e.g. "Edit" or "Beautify". */
+  label: string;
+  time: number;
+  /** The change from the previous version to this one. The first version has none. */
+  patch: TextPatch | null;
+};
+
+export type WorkspaceFile = {
+  id: string;
+  /** The path within the workspace, with `/` between folders, e.g. `modules/ui.lua`. */
+  path: string;
+  /** The contents of the version at `historyIndex`. */
+  code: string;
+  history: HistoryEntry[];
+  historyIndex: number;
+};
+
+export type FileTreeNode =
+  | { kind: 'folder'; name: string; path: string; children: FileTreeNode[] }
+  | { kind: 'file'; name: string; file: WorkspaceFile };
+
+// Edits closer together than this are undone as one.
+const EDIT_MERGE_INTERVAL = 1000;
+
+/**
+ * The most characters a file's history keeps in its changes, about 8 MB in memory. Only the last
+ * change may go over it.
+ */
+export const HISTORY_SIZE_LIMIT = 4_000_000;
+
+/** The most versions a file's history keeps. */
+export const HISTORY_LENGTH_LIMIT = 500;
+
+// Ids must not collide with those of files restored from an earlier session.
+let fileCounter = 0;
+const nextFileId = () => `file-${Date.now().toString(36)}-${++fileCounter}`;
+
+const patchSize = (patch: TextPatch | null) => (patch ? patch.removed.length + patch.inserted.length : 0);
+
+/**
+ * Measures the memory a file's history takes up.
+ * @param file The file.
+ * @returns The number of characters held in the history's changes.
+ */
+export function historySize(file: WorkspaceFile): number {
+  return file.history.reduce((size, entry) => size + patchSize(entry.patch), 0);
+}
+
+/**
+ * Creates a file whose history starts with its initial contents.
+ * @param path The path of the file in the workspace.
+ * @param code The initial contents.
+ * @param label What the initial contents came from, e.g. "Load main.lua".
+ * @param id A fixed id, for files that exist before the page is interactive.
+ * @returns The new file.
+ */
+export function createWorkspaceFile(path: string, code: string, label: string, id = nextFileId()): WorkspaceFile {
+  return { id, path, code, history: [{ label, time: 0, patch: null }], historyIndex: 0 };
+}
+
+export function currentCode(file: WorkspaceFile): string {
+  return file.code;
+}
+
+// Drops the oldest versions until the history fits its limits. It is only trimmed after a change,
+// which ends the history, so the current version is the last. That version and the change that led
+// to it are always kept, so the last change can be undone even when it is larger than the limit on
+// its own; the history then holds that one change.
+function trimHistory(file: WorkspaceFile): WorkspaceFile {
+  let { history, historyIndex } = file;
+  let size = historySize(file);
+  const overLimit = () => size > HISTORY_SIZE_LIMIT || history.length > HISTORY_LENGTH_LIMIT;
+  if (!overLimit()) return file;
+  history = [...history];
+  while (overLimit() && historyIndex > 1) {
+    history.shift();
+    size -= patchSize(history[0].patch);
+    history[0] = { ...history[0], patch: null };
+    historyIndex--;
+  }
+  return { ...file, history, historyIndex };
+}
+
+/**
+ * Records a new version of a file, dropping any versions that were undone. Keystrokes in quick
+ * succession, labelled "Edit", are recorded as one version.
+ * @param file The file to change.
+ * @param code The new contents.
+ * @param label What made the change.
+ * @param time When the change was made.
+ * @returns The changed file.
+ */
+export function recordChange(file: WorkspaceFile, code: string, label: string, time = Date.now()): WorkspaceFile {
+  const { history, historyIndex } = file;
+  const current = history[historyIndex];
+  const newHistory = history.slice(0, historyIndex + 1);
+  if (label === 'Edit' && current.label === 'Edit' && current.patch && time - current.time < EDIT_MERGE_INTERVAL) {
+    const previous = revertPatch(file.code, current.patch);
+    newHistory[historyIndex] = { label, time, patch: createPatch(previous, code) };
+  } else {
+    newHistory.push({ label, time, patch: createPatch(file.code, code) });
+  }
+  return trimHistory({ ...file, code, history: newHistory, historyIndex: newHistory.length - 1 });
+}
+
+/**
+ * Moves a file to another version in its history, for undo, redo and the history timeline.
+ * @param file The file.
+ * @param index The index of the version in the history.
+ * @returns The file at that version.
+ */
+export function goToVersion(file: WorkspaceFile, index: number): WorkspaceFile {
+  let { code, historyIndex } = file;
+  for (; historyIndex > index; historyIndex--) {
+    code = revertPatch(code, file.history[historyIndex].patch!);
+  }
+  for (; historyIndex < index; historyIndex++) {
+    code = applyPatch(code, file.history[historyIndex + 1].patch!);
+  }
+  return { ...file, code, historyIndex };
+}
+
+/**
+ * Normalizes a path typed or dropped by the user: backslashes become slashes, and empty, `.` and
+ * leading segments are removed.
+ * @param path The path to normalize.
+ * @returns The normalized path, or an empty string when nothing is left.
+ */
+export function normalizePath(path: string): string {
+  return path.split(/[\\/]+/).map(segment => segment.trim()).filter(segment => segment && segment !== '.').join('/');
+}
+
+/**
+ * Finds a path that no file in the workspace uses, numbering it like `untitled-2.lua` if needed.
+ * @param files The files in the workspace.
+ * @param path The preferred path.
+ * @returns The preferred path when it is free, otherwise the first free numbered variant.
+ */
+export function uniquePath(files: WorkspaceFile[], path: string): string {
+  const taken = new Set(files.map(file => file.path));
+  if (!taken.has(path)) return path;
+  const dot = path.lastIndexOf('.');
+  const hasExtension = dot > path.lastIndexOf('/') + 1;
+  const base = hasExtension ? path.slice(0, dot) : path;
+  const extension = hasExtension ? path.slice(dot) : '';
+  for (let n = 2; ; n++) {
+    const candidate = `${base}-${n}${extension}`;
+    if (!taken.has(candidate)) return candidate;
+  }
+}
+
+/**
+ * Groups files into folders by their paths, with folders before files and both sorted by name.
+ * @param files The files in the workspace.
+ * @returns The top level of the tree.
+ */
+export function buildFileTree(files: WorkspaceFile[]): FileTreeNode[] {
+  const root: FileTreeNode[] = [];
+  for (const file of files) {
+    const segments = file.path.split('/');
+    let level = root;
+    for (let i = 0; i < segments.length - 1; i++) {
+      const path = segments.slice(0, i + 1).join('/');
+      let folder = level.find((node): node is Extract<FileTreeNode, { kind: 'folder' }> => node.kind === 'folder' && node.path === path);
+      if (!folder) {
+        folder = { kind: 'folder', name: segments[i], path, children: [] };
+        level.push(folder);
+      }
+      level = folder.children;
+    }
+    level.push({ kind: 'file', name: segments[segments.length - 1], file });
+  }
+  const sort = (nodes: FileTreeNode[]): FileTreeNode[] =>
+    nodes
+      .map(node => (node.kind === 'folder' ? { ...node, children: sort(node.children) } : node))
+      .sort((a, b) => (a.kind === b.kind ? a.name.localeCompare(b.name) : a.kind === 'folder' ? -1 : 1));
+  return sort(root);
+}
+
+/**
+ * Lists the files under a folder, at any depth.
+ * @param node A node of the tree built by `buildFileTree`.
+ * @returns The files in the node, or the node's file.
+ */
+export function filesInNode(node: FileTreeNode): WorkspaceFile[] {
+  return node.kind === 'file' ? [node.file] : node.children.flatMap(filesInNode);
+}